@@ -0,0 +1,18 @@
+import type { Metadata } from "next";
+
+import { AdminConsole } from "@/components/admin-console";
+
+export const metadata: Metadata = {
+  title: "Steamcodle Admin",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminPage() {
+  return (
+    <div className="min-h-dvh bg-[#050a12] px-2 py-4 font-sans text-white sm:px-6 sm:py-6">
+      <main className="mx-auto flex min-h-dvh w-full max-w-2xl flex-col items-center gap-4">
+        <AdminConsole />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import {
+  ADMIN_SESSION_COOKIE,
+  AdminError,
+  assertAdminSession,
+} from "@/lib/admin";
+import {
+  CurationError,
+  getServedLog,
+  isCurationList,
+  listCurationEntries,
+  setCuration,
+} from "@/lib/curation";
+
+// Always read the live lists and this process's served log.
+export const dynamic = "force-dynamic";
+
+/** The curated apps and the games this server dealt most recently. */
+export async function GET() {
+  try {
+    assertAdminSession((await cookies()).get(ADMIN_SESSION_COOKIE)?.value);
+    return NextResponse.json(
+      { entries: await listCurationEntries(), served: getServedLog() },
+      { status: 200, headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to load curation";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/** Blocks or pins `appId`, or clears it when `list` is null. */
+export async function POST(request: Request) {
+  try {
+    assertAdminSession((await cookies()).get(ADMIN_SESSION_COOKIE)?.value);
+
+    const body = (await request.json().catch(() => null)) as {
+      appId?: unknown;
+      list?: unknown;
+      note?: unknown;
+    } | null;
+    const list = body?.list ?? null;
+    if (list !== null && !isCurationList(list)) {
+      return NextResponse.json(
+        { error: `Unknown list "${String(list)}".` },
+        { status: 400 },
+      );
+    }
+
+    const entry = await setCuration(
+      Number(body?.appId),
+      list,
+      typeof body?.note === "string" ? body.note : "",
+    );
+    return NextResponse.json({ entry }, { status: 200 });
+  } catch (error) {
+    if (error instanceof AdminError || error instanceof CurationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to update curation";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
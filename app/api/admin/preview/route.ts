@@ -0,0 +1,94 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import {
+  ADMIN_SESSION_COOKIE,
+  AdminError,
+  assertAdminSession,
+} from "@/lib/admin";
+import { getServedLog, isAppId, listCurationEntries } from "@/lib/curation";
+import { DIFFICULTIES, matchesDifficulty } from "@/lib/difficulty";
+import { GUESS_TARGETS, GUESS_TARGET_RULES } from "@/lib/guess-targets";
+import { DEFAULT_LOCALE, isLocale } from "@/lib/i18n";
+import { redactSteamGame } from "@/lib/round";
+import { isAppKnownIneligible } from "@/lib/steam-cache";
+import {
+  SteamThrottledError,
+  fetchSteamGame,
+  getIneligibleReason,
+  isMatureGame,
+  wasServedRecently,
+} from "@/lib/steam";
+
+// Previews always look the app up again.
+export const dynamic = "force-dynamic";
+
+/**
+ * Everything the console needs to judge one app: the card players would see,
+ * the full game data, and whether and why random picks would deal it.
+ */
+export async function GET(request: Request) {
+  try {
+    assertAdminSession((await cookies()).get(ADMIN_SESSION_COOKIE)?.value);
+
+    const url = new URL(request.url);
+    const appId = Number(url.searchParams.get("appId"));
+    if (!isAppId(appId)) {
+      return NextResponse.json(
+        { error: "Expected a Steam app ID." },
+        { status: 400 },
+      );
+    }
+    const locale = url.searchParams.get("locale") ?? DEFAULT_LOCALE;
+    if (!isLocale(locale)) {
+      return NextResponse.json(
+        { error: `Unknown locale "${locale}".` },
+        { status: 400 },
+      );
+    }
+
+    const [game, entries, knownIneligible] = await Promise.all([
+      fetchSteamGame(appId, locale),
+      listCurationEntries(),
+      isAppKnownIneligible(appId),
+    ]);
+    return NextResponse.json(
+      {
+        card: redactSteamGame(game),
+        game,
+        curation: entries.find((entry) => entry.appId === appId) ?? null,
+        ineligibleReason: getIneligibleReason(game),
+        mature: isMatureGame(game),
+        knownIneligible,
+        difficulties: DIFFICULTIES.filter((difficulty) =>
+          matchesDifficulty(game.totalReviews, difficulty),
+        ),
+        targets: GUESS_TARGETS.filter(
+          (target) => GUESS_TARGET_RULES[target].getAnswer(game) !== null,
+        ),
+        recentlyServed: wasServedRecently(appId),
+        served: getServedLog(appId),
+      },
+      { status: 200, headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof SteamThrottledError) {
+      return NextResponse.json(
+        { error: error.message, code: "steam-throttled" },
+        {
+          status: error.status,
+          headers: { "Retry-After": String(error.retryAfterSeconds) },
+        },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unknown Steam API error";
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
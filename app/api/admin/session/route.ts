@@ -0,0 +1,63 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_SECONDS,
+  AdminError,
+  assertAdminSession,
+  createAdminSession,
+  isAdminEnabled,
+} from "@/lib/admin";
+
+// The answer depends on the cookie and the environment, never prerender it.
+export const dynamic = "force-dynamic";
+
+/** Whether the console is enabled and this browser is signed in. */
+export async function GET() {
+  let signedIn = true;
+  try {
+    assertAdminSession((await cookies()).get(ADMIN_SESSION_COOKIE)?.value);
+  } catch {
+    signedIn = false;
+  }
+  return NextResponse.json(
+    { enabled: isAdminEnabled(), signedIn },
+    { status: 200, headers: { "Cache-Control": "no-store" } },
+  );
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      password?: unknown;
+    } | null;
+    const session = createAdminSession(body?.password);
+
+    const response = NextResponse.json({ ok: true }, { status: 200 });
+    response.cookies.set(ADMIN_SESSION_COOKIE, session, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: ADMIN_SESSION_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to sign in";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export function DELETE() {
+  const response = NextResponse.json({ ok: true }, { status: 200 });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,108 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import {
+  getDailyNumber,
+  isPlayableDailyDate,
+  type DailyRound,
+} from "@/lib/daily";
+import { takeDailyRound } from "@/lib/daily-store";
+import { DEFAULT_RULE_SET } from "@/lib/game-rules";
+import { DEFAULT_GUESS_TARGET } from "@/lib/guess-targets";
+import { DEFAULT_LOCALE, isLocale } from "@/lib/i18n";
+import { logEvent } from "@/lib/logger";
+import {
+  LOSS_SESSION_COOKIE,
+  LOSS_SESSION_SECONDS,
+  createSessionId,
+  isSessionId,
+} from "@/lib/loss-limit";
+import { readDeviceProfile } from "@/lib/profiles";
+import { RoundError, startRound } from "@/lib/round";
+import { SteamThrottledError, fetchDailySteamGame } from "@/lib/steam";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const date =
+    url.searchParams.get("date") ?? new Date().toISOString().slice(0, 10);
+
+  if (!isPlayableDailyDate(date)) {
+    return NextResponse.json(
+      { error: "That daily puzzle is not available." },
+      { status: 400 },
+    );
+  }
+
+  const locale = url.searchParams.get("locale") ?? DEFAULT_LOCALE;
+  if (!isLocale(locale)) {
+    return NextResponse.json(
+      { error: `Unknown locale "${locale}".` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    // The daily round is bound to the browser session like an endless one,
+    // though it never counts toward the loss limit. Players get one round per
+    // puzzle: later requests hand back the same round, guesses and all.
+    const storedSession = (await cookies()).get(LOSS_SESSION_COOKIE)?.value;
+    const sessionId = isSessionId(storedSession)
+      ? storedSession
+      : createSessionId();
+    const profileId = await readDeviceProfile(request.headers);
+
+    const body: DailyRound = await takeDailyRound(
+      date,
+      { sessionId, profileId },
+      async () => {
+        const game = await fetchDailySteamGame(date, locale);
+        return {
+          ...startRound(
+            game,
+            DEFAULT_GUESS_TARGET,
+            locale,
+            DEFAULT_RULE_SET,
+            "standard",
+            { sessionId, profileId: profileId ?? undefined, daily: date },
+          ),
+          daily: { date, number: getDailyNumber(date) },
+        };
+      },
+    );
+    const response = NextResponse.json(body, { status: 200 });
+    if (sessionId !== storedSession) {
+      response.cookies.set(LOSS_SESSION_COOKIE, sessionId, {
+        httpOnly: true,
+        sameSite: "lax",
+        path: "/",
+        maxAge: LOSS_SESSION_SECONDS,
+      });
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof RoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof SteamThrottledError) {
+      return NextResponse.json(
+        { error: error.message, code: "steam-throttled" },
+        {
+          status: error.status,
+          headers: { "Retry-After": String(error.retryAfterSeconds) },
+        },
+      );
+    }
+    logEvent("error", "api.daily-failed", { error });
+    const message =
+      error instanceof Error ? error.message : "Unknown Steam API error";
+    return NextResponse.json(
+      { error: message },
+      {
+        status: 502,
+      },
+    );
+  }
+}
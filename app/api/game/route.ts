@@ -1,6 +1,34 @@
+import { cookies } from "next/headers";
 import { NextResponse } from "next/server";
 
-import { fetchRandomSteamGame } from "@/lib/steam";
+import { isTimeZone } from "@/lib/daily";
+import { DEFAULT_DIFFICULTY, isDifficulty } from "@/lib/difficulty";
+import { takeRandomSteamGame } from "@/lib/game-pool";
+import { DEFAULT_RULE_SET, isRuleSet } from "@/lib/game-rules";
+import { parseGenreFilters } from "@/lib/genres";
+import { DEFAULT_GUESS_TARGET, isGuessTarget } from "@/lib/guess-targets";
+import { DEFAULT_LOCALE, isLocale } from "@/lib/i18n";
+import { openLeaderboardRound } from "@/lib/leaderboard-store";
+import { logEvent } from "@/lib/logger";
+import {
+  LOSS_SESSION_COOKIE,
+  LOSS_SESSION_SECONDS,
+  LossLimitError,
+  closeOpenRound,
+  createSessionId,
+  getLossKey,
+  isLossLimitDisabled,
+  isSessionId,
+  openRound,
+} from "@/lib/loss-limit";
+import { readDeviceProfile } from "@/lib/profiles";
+import {
+  isRoundMode,
+  readRoundDeal,
+  readRoundId,
+  startRound,
+} from "@/lib/round";
+import { NoEligibleGameError, SteamThrottledError } from "@/lib/steam";
 
 export async function GET(request: Request) {
   try {
@@ -12,9 +40,142 @@ export async function GET(request: Request) {
         .map((value) => Number(value))
         .filter((num) => Number.isFinite(num)) ?? [];
 
-    const game = await fetchRandomSteamGame(excludeIds);
-    return NextResponse.json(game, { status: 200 });
+    const difficulty = url.searchParams.get("difficulty") ?? DEFAULT_DIFFICULTY;
+    if (!isDifficulty(difficulty)) {
+      return NextResponse.json(
+        { error: `Unknown difficulty "${difficulty}".` },
+        { status: 400 },
+      );
+    }
+
+    const target = url.searchParams.get("target") ?? DEFAULT_GUESS_TARGET;
+    if (!isGuessTarget(target)) {
+      return NextResponse.json(
+        { error: `Unknown guess target "${target}".` },
+        { status: 400 },
+      );
+    }
+
+    const ruleSet = url.searchParams.get("rules") ?? DEFAULT_RULE_SET;
+    if (!isRuleSet(ruleSet)) {
+      return NextResponse.json(
+        { error: `Unknown rule set "${ruleSet}".` },
+        { status: 400 },
+      );
+    }
+
+    const mode = url.searchParams.get("mode") ?? "standard";
+    if (!isRoundMode(mode)) {
+      return NextResponse.json(
+        { error: `Unknown round mode "${mode}".` },
+        { status: 400 },
+      );
+    }
+    if (
+      mode === "time-attack" &&
+      (target !== DEFAULT_GUESS_TARGET || ruleSet !== DEFAULT_RULE_SET)
+    ) {
+      return NextResponse.json(
+        { error: "Time attack only deals Classic review-score rounds." },
+        { status: 400 },
+      );
+    }
+
+    const locale = url.searchParams.get("locale") ?? DEFAULT_LOCALE;
+    if (!isLocale(locale)) {
+      return NextResponse.json(
+        { error: `Unknown locale "${locale}".` },
+        { status: 400 },
+      );
+    }
+
+    const genres = parseGenreFilters(url.searchParams.get("genres"));
+    const mature = url.searchParams.get("mature") === "1";
+
+    const timeZone = url.searchParams.get("tz") ?? "UTC";
+    if (!isTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown time zone "${timeZone}".` },
+        { status: 400 },
+      );
+    }
+
+    const cookieStore = await cookies();
+    const storedSession = cookieStore.get(LOSS_SESSION_COOKIE)?.value;
+    const sessionId = isSessionId(storedSession)
+      ? storedSession
+      : createSessionId();
+    // Losses count against the profile when the deal carries one, so a new
+    // cookie does not reset them; the profile is sealed into the round too.
+    const profileId =
+      mode === "standard" ? await readDeviceProfile(request.headers) : null;
+    const lossKey = getLossKey(sessionId, profileId);
+    // A prefetched round leaves the open one alone and cannot be played until
+    // the browser starts it through /api/game/start. Time-attack rounds sit
+    // outside the loss limit altogether.
+    const prefetch = url.searchParams.get("prefetch") === "1";
+    const limited = !isLossLimitDisabled() && mode === "standard";
+    if (limited && !prefetch) {
+      await closeOpenRound(
+        lossKey,
+        timeZone,
+        url.searchParams.get("skip") === "1",
+      );
+    }
+
+    const game = await takeRandomSteamGame(excludeIds, {
+      difficulty,
+      genres,
+      target,
+      locale,
+      mature,
+    });
+    const round = startRound(game, target, locale, ruleSet, mode, {
+      sessionId,
+      profileId: profileId ?? undefined,
+    });
+    if (limited && !prefetch) {
+      await openRound(lossKey, readRoundId(round.token));
+    }
+    // The round goes on the profile's leaderboard before the game is seen.
+    if (profileId && !prefetch) {
+      await openLeaderboardRound(profileId, readRoundDeal(round.token));
+    }
+
+    const response = NextResponse.json(round, { status: 200 });
+    if (sessionId !== storedSession) {
+      response.cookies.set(LOSS_SESSION_COOKIE, sessionId, {
+        httpOnly: true,
+        sameSite: "lax",
+        path: "/",
+        maxAge: LOSS_SESSION_SECONDS,
+      });
+    }
+    return response;
   } catch (error) {
+    if (error instanceof LossLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: "loss-limit" },
+        { status: error.status },
+      );
+    }
+    if (error instanceof NoEligibleGameError) {
+      return NextResponse.json(
+        { error: error.message, code: "no-eligible-games" },
+        { status: 404 },
+      );
+    }
+    if (error instanceof SteamThrottledError) {
+      return NextResponse.json(
+        { error: error.message, code: "steam-throttled" },
+        {
+          status: error.status,
+          headers: { "Retry-After": String(error.retryAfterSeconds) },
+        },
+      );
+    }
+
+    logEvent("error", "api.game-failed", { error });
     const message =
       error instanceof Error ? error.message : "Unknown Steam API error";
     return NextResponse.json(
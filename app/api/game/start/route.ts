@@ -0,0 +1,72 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import { isTimeZone } from "@/lib/daily";
+import { openLeaderboardRound } from "@/lib/leaderboard-store";
+import {
+  LOSS_SESSION_COOKIE,
+  LossLimitError,
+  closeOpenRound,
+  getLossKey,
+  isLossLimitDisabled,
+  isSessionId,
+  openRound,
+} from "@/lib/loss-limit";
+import { RoundError, assertRoundSession, readRoundDeal } from "@/lib/round";
+
+/**
+ * Starts a round dealt with `/api/game?prefetch=1`: the open round is settled
+ * exactly as dealing a fresh one would, then the prefetched one is opened, on
+ * the leaderboard too if it was dealt with a profile.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      token?: unknown;
+      tz?: unknown;
+      skip?: unknown;
+    } | null;
+
+    if (typeof body?.token !== "string") {
+      return NextResponse.json(
+        { error: "Expected a round token." },
+        { status: 400 },
+      );
+    }
+
+    const timeZone = body.tz ?? "UTC";
+    if (typeof timeZone !== "string" || !isTimeZone(timeZone)) {
+      return NextResponse.json(
+        { error: `Unknown time zone "${String(timeZone)}".` },
+        { status: 400 },
+      );
+    }
+
+    const deal = readRoundDeal(body.token);
+    const sessionId = (await cookies()).get(LOSS_SESSION_COOKIE)?.value;
+    assertRoundSession(body.token, isSessionId(sessionId) ? sessionId : null);
+    if (isSessionId(sessionId) && !isLossLimitDisabled()) {
+      const lossKey = getLossKey(sessionId, deal.profileId);
+      await closeOpenRound(lossKey, timeZone, body.skip === true);
+      await openRound(lossKey, deal.roundId);
+    }
+    if (deal.profileId) await openLeaderboardRound(deal.profileId, deal);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof LossLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: "loss-limit" },
+        { status: error.status },
+      );
+    }
+    if (error instanceof RoundError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to start round";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import { saveDailyToken } from "@/lib/daily-store";
+import { recordRound } from "@/lib/leaderboard-store";
+import { logEvent } from "@/lib/logger";
+import {
+  LOSS_SESSION_COOKIE,
+  LossLimitError,
+  assertRoundInPlay,
+  getLossKey,
+  isLossLimitDisabled,
+  isSessionId,
+  recordRoundProgress,
+} from "@/lib/loss-limit";
+import { RoundError, readRoundDeal, submitGuess } from "@/lib/round";
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      token?: unknown;
+      guess?: unknown;
+    } | null;
+
+    if (typeof body?.token !== "string" || typeof body.guess !== "number") {
+      return NextResponse.json(
+        { error: "Expected a round token and a numeric guess." },
+        { status: 400 },
+      );
+    }
+
+    const storedSession = (await cookies()).get(LOSS_SESSION_COOKIE)?.value;
+    const sessionId = isSessionId(storedSession) ? storedSession : null;
+    // Time-attack misses and daily puzzles are not losses, so those rounds
+    // skip the loss limit. Every other round must be the player's open one.
+    const deal = readRoundDeal(body.token);
+    const lossKey =
+      sessionId !== null &&
+      !isLossLimitDisabled() &&
+      deal.mode !== "time-attack" &&
+      deal.daily === null
+        ? getLossKey(sessionId, deal.profileId)
+        : null;
+    if (lossKey) {
+      await assertRoundInPlay(lossKey, deal.roundId);
+    }
+
+    // Refuses standard rounds dealt to any other session, or to none.
+    const result = await submitGuess(body.token, body.guess, sessionId);
+    if (lossKey) {
+      await recordRoundProgress(
+        lossKey,
+        deal.roundId,
+        !result.resolved
+          ? "playing"
+          : result.outcome === "win"
+            ? "won"
+            : "lost",
+      );
+    }
+    if (deal.daily !== null) {
+      // Later visits pick the puzzle up from the token saved here.
+      await saveDailyToken(result.token).catch((error: unknown) =>
+        logEvent("error", "api.daily-save-failed", { error }),
+      );
+    }
+    if (result.resolved) {
+      // The guess already stands, so a leaderboard failure must not undo it.
+      await recordRound(result.token).catch((error: unknown) =>
+        logEvent("error", "api.leaderboard-record-failed", { error }),
+      );
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof RoundError || error instanceof LossLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to check guess";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { getFallbackCatalogState, getUpstreamActivity } from "@/lib/metrics";
+import { getSteamSchedulerState } from "@/lib/steam";
+
+// Read live process state on every request instead of prerendering.
+export const dynamic = "force-dynamic";
+
+/**
+ * Whether this instance can deal games and how it is getting them. Steam is
+ * never called from here; the answer comes from the traffic so far. Serving
+ * from the cache or the bundled catalog still answers 200, as "degraded".
+ */
+export function GET() {
+  const scheduler = getSteamSchedulerState();
+  const fallbackCatalog = getFallbackCatalogState();
+  const degraded =
+    scheduler.breaker !== "closed" ||
+    Object.values(fallbackCatalog).some((source) => source.active);
+
+  return NextResponse.json(
+    {
+      status: degraded ? "degraded" : "ok",
+      steam: {
+        breaker: scheduler.breaker,
+        retryAfterSeconds: scheduler.retryAfterSeconds,
+        ...getUpstreamActivity(),
+      },
+      fallbackCatalog,
+    },
+    { status: 200, headers: { "Cache-Control": "no-store" } },
+  );
+}
@@ -0,0 +1,59 @@
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+
+import {
+  LOSS_SESSION_COOKIE,
+  LossLimitError,
+  assertRoundInPlay,
+  getLossKey,
+  isLossLimitDisabled,
+  isSessionId,
+  recordRoundProgress,
+} from "@/lib/loss-limit";
+import { RoundError, readRoundDeal, revealHint } from "@/lib/round";
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      token?: unknown;
+    } | null;
+
+    if (typeof body?.token !== "string") {
+      return NextResponse.json(
+        { error: "Expected a round token." },
+        { status: 400 },
+      );
+    }
+
+    const storedSession = (await cookies()).get(LOSS_SESSION_COOKIE)?.value;
+    const sessionId = isSessionId(storedSession) ? storedSession : null;
+    // Only the player's open round takes hints, and only under the cap.
+    const deal = readRoundDeal(body.token);
+    const lossKey =
+      sessionId !== null &&
+      !isLossLimitDisabled() &&
+      deal.mode !== "time-attack" &&
+      deal.daily === null
+        ? getLossKey(sessionId, deal.profileId)
+        : null;
+    if (lossKey) {
+      await assertRoundInPlay(lossKey, deal.roundId);
+    }
+
+    const result = await revealHint(body.token, sessionId);
+    if (lossKey) {
+      await recordRoundProgress(lossKey, deal.roundId, "playing");
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof RoundError || error instanceof LossLimitError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to reveal hint";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
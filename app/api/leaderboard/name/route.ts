@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { LeaderboardError, setDisplayName } from "@/lib/leaderboard-store";
+import { ProfileError, parseDeviceCredentials } from "@/lib/profiles";
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      displayName?: unknown;
+    } | null;
+
+    const credentials = parseDeviceCredentials(body);
+    if (!credentials || typeof body?.displayName !== "string") {
+      return NextResponse.json(
+        { error: "Expected device credentials and a display name." },
+        { status: 400 },
+      );
+    }
+
+    const result = await setDisplayName(credentials, body.displayName);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof LeaderboardError || error instanceof ProfileError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to set display name";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { DEFAULT_GUESS_TARGET, isGuessTarget } from "@/lib/guess-targets";
+import { isLeaderboard, isLeaderboardPeriod } from "@/lib/leaderboard";
+import { getLeaderboard } from "@/lib/leaderboard-store";
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+
+    const board = url.searchParams.get("board") ?? "streak";
+    if (!isLeaderboard(board)) {
+      return NextResponse.json(
+        { error: `Unknown leaderboard "${board}".` },
+        { status: 400 },
+      );
+    }
+
+    const period = url.searchParams.get("period") ?? "all";
+    if (!isLeaderboardPeriod(period)) {
+      return NextResponse.json(
+        { error: `Unknown period "${period}".` },
+        { status: 400 },
+      );
+    }
+
+    const target = url.searchParams.get("target") ?? DEFAULT_GUESS_TARGET;
+    if (!isGuessTarget(target)) {
+      return NextResponse.json(
+        { error: `Unknown guess target "${target}".` },
+        { status: 400 },
+      );
+    }
+
+    const leaderboard = await getLeaderboard(board, period, target);
+    return NextResponse.json(leaderboard, { status: 200 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unable to load leaderboard";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
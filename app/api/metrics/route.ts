@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+
+import { getMetricsSnapshot } from "@/lib/metrics";
+import { getSteamSchedulerState } from "@/lib/steam";
+
+// Read live process state on every request instead of prerendering.
+export const dynamic = "force-dynamic";
+
+/** Counters for the Steam data pipeline since this instance started. */
+export function GET() {
+  return NextResponse.json(
+    { ...getMetricsSnapshot(), scheduler: getSteamSchedulerState() },
+    { status: 200, headers: { "Cache-Control": "no-store" } },
+  );
+}
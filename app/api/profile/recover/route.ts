@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { ProfileError, recoverProfile } from "@/lib/profiles";
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      recoveryCode?: unknown;
+    } | null;
+
+    if (typeof body?.recoveryCode !== "string") {
+      return NextResponse.json(
+        { error: "Expected a recovery code." },
+        { status: 400 },
+      );
+    }
+
+    const result = await recoverProfile(body.recoveryCode);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof ProfileError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to recover profile";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+
+import { createProfile } from "@/lib/profiles";
+
+export async function POST() {
+  try {
+    const profile = await createProfile();
+    return NextResponse.json(profile, { status: 201 });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unable to create profile";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
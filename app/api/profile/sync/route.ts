@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+
+import { isDailyDate } from "@/lib/daily";
+import {
+  ProfileError,
+  parseDeviceCredentials,
+  syncProfile,
+} from "@/lib/profiles";
+import { parseRecentAppIds, readStoredStats } from "@/lib/stats-storage";
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      stats?: unknown;
+      recentAppIds?: unknown;
+      today?: unknown;
+    } | null;
+
+    const credentials = parseDeviceCredentials(body);
+    const recentAppIds = parseRecentAppIds(body?.recentAppIds);
+
+    if (!credentials) {
+      return NextResponse.json(
+        { error: "Expected profile and device credentials." },
+        { status: 400 },
+      );
+    }
+
+    if (
+      typeof body?.stats !== "object" ||
+      body.stats === null ||
+      !recentAppIds ||
+      typeof body.today !== "string" ||
+      !isDailyDate(body.today)
+    ) {
+      return NextResponse.json(
+        { error: "Expected stats, recent games and today's date." },
+        { status: 400 },
+      );
+    }
+
+    // Checked and upgraded exactly as a local load would, field by field.
+    const result = await syncProfile({
+      ...credentials,
+      stats: readStoredStats(body.stats, body.today),
+      recentAppIds,
+      today: body.today,
+    });
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof ProfileError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to sync profile";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+
+import { RoomError, subscribeToRoom, type RoomView } from "@/lib/rooms";
+
+// Comment lines keep proxies from closing a quiet stream.
+const KEEP_ALIVE_MS = 20_000;
+
+/**
+ * Server-Sent Events stream of the player's view of the room. EventSource
+ * cannot send headers, so the credentials travel in the query string.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  const { code } = await params;
+  const url = new URL(request.url);
+  const playerId = url.searchParams.get("playerId");
+  const playerToken = url.searchParams.get("playerToken");
+  if (!playerId || !playerToken) {
+    return NextResponse.json(
+      { error: "Expected player credentials." },
+      { status: 400 },
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  try {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            close();
+          }
+        };
+        const unsubscribe = subscribeToRoom(
+          { code, playerId, playerToken },
+          (view: RoomView) => write(`data: ${JSON.stringify(view)}\n\n`),
+        );
+        const keepAlive = setInterval(() => write(": ping\n\n"), KEEP_ALIVE_MS);
+        close = () => {
+          clearInterval(keepAlive);
+          unsubscribe();
+        };
+        request.signal.addEventListener("abort", () => close());
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to open room stream";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
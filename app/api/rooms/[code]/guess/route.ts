@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+
+import { RoomError, submitRoomGuess } from "@/lib/rooms";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  try {
+    const { code } = await params;
+    const body = (await request.json().catch(() => null)) as {
+      playerId?: unknown;
+      playerToken?: unknown;
+      guess?: unknown;
+    } | null;
+
+    if (
+      typeof body?.playerId !== "string" ||
+      typeof body.playerToken !== "string" ||
+      typeof body.guess !== "number"
+    ) {
+      return NextResponse.json(
+        { error: "Expected player credentials and a numeric guess." },
+        { status: 400 },
+      );
+    }
+
+    const result = submitRoomGuess(
+      { code, playerId: body.playerId, playerToken: body.playerToken },
+      body.guess,
+    );
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to check guess";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { RoomError, joinRoom } from "@/lib/rooms";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  try {
+    const { code } = await params;
+    const body = (await request.json().catch(() => null)) as {
+      name?: unknown;
+    } | null;
+
+    if (typeof body?.name !== "string") {
+      return NextResponse.json(
+        { error: "Expected a player name." },
+        { status: 400 },
+      );
+    }
+
+    const credentials = joinRoom(code, body.name);
+    return NextResponse.json(credentials, { status: 200 });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to join room";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
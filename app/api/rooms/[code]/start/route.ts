@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { RoomError, startNextRound } from "@/lib/rooms";
+import { SteamThrottledError } from "@/lib/steam";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ code: string }> },
+) {
+  try {
+    const { code } = await params;
+    const body = (await request.json().catch(() => null)) as {
+      playerId?: unknown;
+      playerToken?: unknown;
+    } | null;
+
+    if (
+      typeof body?.playerId !== "string" ||
+      typeof body.playerToken !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "Expected player credentials." },
+        { status: 400 },
+      );
+    }
+
+    await startNextRound({
+      code,
+      playerId: body.playerId,
+      playerToken: body.playerToken,
+    });
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    if (error instanceof SteamThrottledError) {
+      return NextResponse.json(
+        { error: error.message },
+        {
+          status: error.status,
+          headers: { "Retry-After": String(error.retryAfterSeconds) },
+        },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unknown Steam API error";
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { isDifficulty } from "@/lib/difficulty";
+import { isGuessTarget } from "@/lib/guess-targets";
+import { isLocale } from "@/lib/i18n";
+import { RoomError, createRoom, type RoomOptions } from "@/lib/rooms";
+
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as {
+      name?: unknown;
+      target?: unknown;
+      difficulty?: unknown;
+      locale?: unknown;
+      rounds?: unknown;
+      roundSeconds?: unknown;
+    } | null;
+
+    if (typeof body?.name !== "string") {
+      return NextResponse.json(
+        { error: "Expected a player name." },
+        { status: 400 },
+      );
+    }
+
+    const options: Partial<RoomOptions> = {};
+    if (isGuessTarget(body.target)) options.target = body.target;
+    if (isDifficulty(body.difficulty)) options.difficulty = body.difficulty;
+    if (isLocale(body.locale)) options.locale = body.locale;
+    if (typeof body.rounds === "number") options.rounds = body.rounds;
+    if (typeof body.roundSeconds === "number") {
+      options.roundSeconds = body.roundSeconds;
+    }
+
+    const credentials = createRoom(body.name, options);
+    return NextResponse.json(credentials, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoomError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status },
+      );
+    }
+    const message =
+      error instanceof Error ? error.message : "Unable to create room";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
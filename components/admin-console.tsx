@@ -0,0 +1,347 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+
+import {
+  requestAdminPreview,
+  requestAdminStatus,
+  requestCuration,
+  signInAdmin,
+  signOutAdmin,
+  updateCuration,
+  type AdminPreview,
+  type AdminStatus,
+  type CurationOverview,
+} from "@/lib/admin-client";
+import type { CurationList, ServedEntry } from "@/lib/curation";
+
+import { SteamGameCard } from "./steam-game-card";
+
+const BUTTON_CLASS =
+  "rounded-xl border-2 border-[#050a12] bg-white px-3 py-1 text-xs font-bold uppercase text-[#0b1420] hover:bg-[#e2e8f0] disabled:opacity-50";
+const PANEL_CLASS =
+  "flex w-full flex-col gap-3 rounded-[24px] border-4 border-[#111b2b] bg-[#f4f7fb] p-4 text-sm text-[#0f1b2b] shadow-[6px_6px_0px_#050a12]";
+
+function describeServed(entry: ServedEntry) {
+  const filters = [
+    entry.difficulty,
+    entry.target,
+    entry.locale,
+    ...(entry.genres.length > 0 ? [entry.genres.join(" / ")] : []),
+  ].join(", ");
+  const waited = Date.parse(entry.servedAt) - Date.parse(entry.pickedAt);
+  return [
+    `from the ${entry.source} pool after ${entry.attempts} lookup(s)`,
+    `for ${filters}`,
+    ...(waited > 1000 ? [`warm pool for ${Math.round(waited / 1000)}s`] : []),
+  ].join("; ");
+}
+
+/**
+ * Maintainer-only page for blocking and pinning app IDs. Not translated: the
+ * message catalogs only cover what players see.
+ */
+export function AdminConsole() {
+  const [status, setStatus] = useState<AdminStatus | null>(null);
+  const [password, setPassword] = useState("");
+  const [overview, setOverview] = useState<CurationOverview | null>(null);
+  const [appIdInput, setAppIdInput] = useState("");
+  const [note, setNote] = useState("");
+  const [preview, setPreview] = useState<AdminPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (caught) {
+      setError(caught instanceof Error ? caught.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setOverview(await requestCuration());
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const current = await requestAdminStatus();
+        if (cancelled) return;
+        setStatus(current);
+        if (current.signedIn) {
+          const loaded = await requestCuration();
+          if (!cancelled) setOverview(loaded);
+        }
+      } catch (caught) {
+        if (cancelled) return;
+        setError(caught instanceof Error ? caught.message : "Request failed");
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSignIn = (event: FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      await signInAdmin(password);
+      setPassword("");
+      setStatus({ enabled: true, signedIn: true });
+      await refresh();
+    });
+  };
+
+  const handleSignOut = () => {
+    run(async () => {
+      await signOutAdmin();
+      setStatus({ enabled: true, signedIn: false });
+      setOverview(null);
+      setPreview(null);
+    });
+  };
+
+  const showPreview = (appId: number) => {
+    setAppIdInput(String(appId));
+    run(async () => {
+      const loaded = await requestAdminPreview(appId);
+      setPreview(loaded);
+      setNote(loaded.curation?.note ?? "");
+    });
+  };
+
+  const handlePreview = (event: FormEvent) => {
+    event.preventDefault();
+    const appId = Number(appIdInput.trim());
+    if (!Number.isSafeInteger(appId) || appId <= 0) {
+      setError("Enter a Steam app ID.");
+      return;
+    }
+    showPreview(appId);
+  };
+
+  const curate = (appId: number, list: CurationList | null) => {
+    run(async () => {
+      const { entry } = await updateCuration(appId, list, note);
+      if (preview?.game.appId === appId) {
+        setPreview({ ...preview, curation: entry });
+      }
+      await refresh();
+    });
+  };
+
+  if (!status) {
+    return <p className="text-white/70">{error ?? "Loading…"}</p>;
+  }
+
+  if (!status.enabled) {
+    return (
+      <p className="text-white/70">
+        The admin console is off. Set STEAMCODLE_ADMIN_PASSWORD to enable it.
+      </p>
+    );
+  }
+
+  if (!status.signedIn) {
+    return (
+      <form onSubmit={handleSignIn} className={`${PANEL_CLASS} max-w-sm`}>
+        <label className="flex flex-col gap-1 text-xs uppercase tracking-[0.2em]">
+          Admin password
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            className="rounded-xl border-2 border-[#050a12] bg-white px-2 py-1 text-sm normal-case tracking-normal"
+            autoComplete="current-password"
+          />
+        </label>
+        <button type="submit" disabled={busy} className={BUTTON_CLASS}>
+          Sign in
+        </button>
+        {error ? <p className="text-[#b91c1c]">{error}</p> : null}
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-bold uppercase tracking-[0.3em]">
+          Curation
+        </h1>
+        <button type="button" onClick={handleSignOut} className={BUTTON_CLASS}>
+          Sign out
+        </button>
+      </div>
+
+      <form onSubmit={handlePreview} className={PANEL_CLASS}>
+        <div className="flex gap-2">
+          <input
+            value={appIdInput}
+            onChange={(event) => setAppIdInput(event.target.value)}
+            inputMode="numeric"
+            placeholder="Steam app ID"
+            className="flex-1 rounded-xl border-2 border-[#050a12] bg-white px-2 py-1"
+          />
+          <button type="submit" disabled={busy} className={BUTTON_CLASS}>
+            Preview
+          </button>
+        </div>
+        {error ? <p className="text-[#b91c1c]">{error}</p> : null}
+      </form>
+
+      {preview ? (
+        <section className={PANEL_CLASS}>
+          <SteamGameCard game={preview.card} />
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="font-bold">List</dt>
+            <dd>
+              {preview.curation
+                ? `${preview.curation.list}${preview.curation.note ? ` (${preview.curation.note})` : ""}`
+                : "none"}
+            </dd>
+            <dt className="font-bold">Base rules</dt>
+            <dd>
+              {preview.ineligibleReason ?? "pass"}
+              {preview.knownIneligible ? ", on the negative cache" : ""}
+            </dd>
+            <dt className="font-bold">Mature</dt>
+            <dd>
+              {preview.mature ? "yes" : "no"}; age gate{" "}
+              {preview.game.requiredAge || "none"}; descriptors{" "}
+              {preview.game.contentDescriptors.join(", ") || "none"}
+              {preview.game.contentNotes ? (
+                <span className="block text-[#475569]">
+                  {preview.game.contentNotes}
+                </span>
+              ) : null}
+            </dd>
+            <dt className="font-bold">Reviews</dt>
+            <dd>
+              {preview.game.totalReviews ?? "?"} total,{" "}
+              {preview.game.reviewScore ?? "?"}% positive
+            </dd>
+            <dt className="font-bold">Difficulties</dt>
+            <dd>{preview.difficulties.join(", ") || "none"}</dd>
+            <dt className="font-bold">Targets</dt>
+            <dd>{preview.targets.join(", ") || "none"}</dd>
+            <dt className="font-bold">Served</dt>
+            <dd>
+              {preview.served.length > 0
+                ? preview.served.map((entry) => (
+                    <span key={entry.servedAt} className="block">
+                      {new Date(entry.servedAt).toLocaleString()}:{" "}
+                      {describeServed(entry)}
+                    </span>
+                  ))
+                : preview.recentlyServed
+                  ? "recently, not by a random pick"
+                  : "not recently"}
+            </dd>
+          </dl>
+          <input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Note (why)"
+            maxLength={200}
+            className="rounded-xl border-2 border-[#050a12] bg-white px-2 py-1"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => curate(preview.game.appId, "blocked")}
+              className={BUTTON_CLASS}
+            >
+              Block
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => curate(preview.game.appId, "pinned")}
+              className={BUTTON_CLASS}
+            >
+              Pin
+            </button>
+            <button
+              type="button"
+              disabled={busy || !preview.curation}
+              onClick={() => curate(preview.game.appId, null)}
+              className={BUTTON_CLASS}
+            >
+              Clear
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      <section className={PANEL_CLASS}>
+        <h2 className="text-xs font-bold uppercase tracking-[0.2em]">
+          Curated apps
+        </h2>
+        {overview && overview.entries.length > 0 ? (
+          <ul className="flex flex-col gap-1">
+            {overview.entries.map((entry) => (
+              <li key={entry.appId} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => showPreview(entry.appId)}
+                  className="font-mono underline"
+                >
+                  {entry.appId}
+                </button>
+                <span className="uppercase">{entry.list}</span>
+                <span className="flex-1 truncate text-[#475569]">
+                  {entry.note}
+                </span>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => curate(entry.appId, null)}
+                  className={BUTTON_CLASS}
+                >
+                  Clear
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-[#475569]">Nothing blocked or pinned.</p>
+        )}
+      </section>
+
+      <section className={PANEL_CLASS}>
+        <h2 className="text-xs font-bold uppercase tracking-[0.2em]">
+          Recently served by this server
+        </h2>
+        {overview && overview.served.length > 0 ? (
+          <ul className="flex flex-col gap-1 text-xs">
+            {overview.served.map((entry) => (
+              <li key={`${entry.appId}-${entry.servedAt}`}>
+                <button
+                  type="button"
+                  onClick={() => showPreview(entry.appId)}
+                  className="font-semibold underline"
+                >
+                  {entry.name}
+                </button>{" "}
+                <span className="text-[#475569]">{describeServed(entry)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-[#475569]">No random picks dealt yet.</p>
+        )}
+      </section>
+    </div>
+  );
+}
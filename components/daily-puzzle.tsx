@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+
+import {
+  getLocalDailyDate,
+  type DailyPuzzle as DailyPuzzleInfo,
+  type DailyRound,
+} from "@/lib/daily";
+import {
+  initialRound,
+  isRoundOver,
+  reduceRound,
+  type RoundState,
+} from "@/lib/game-engine";
+import { MAX_GUESSES, WIN_THRESHOLD, isValidGuess } from "@/lib/game-rules";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+import { getDeviceHeaders } from "@/lib/profile-client";
+import type { DeviceCredentials } from "@/lib/profiles";
+import type { PublicSteamGame } from "@/lib/round";
+import { ApiError, requestGuess, requestRound } from "@/lib/round-client";
+
+import { CardPlaceholder, GuessForm, GuessList } from "./guess-board";
+import { useLocale } from "./locale-context";
+import { ShareButton } from "./share-button";
+import { SteamGameCard } from "./steam-game-card";
+
+const DAILY_STORAGE_KEY = "steamcodleDaily";
+
+type DailyAttempt = {
+  daily: DailyPuzzleInfo;
+  game: PublicSteamGame;
+  token: string;
+  round: RoundState;
+};
+
+type DailyState =
+  | { status: "loading" }
+  | { status: "ready"; attempt: DailyAttempt }
+  | { status: "error"; message: string; attempt: DailyAttempt | null };
+
+function readStoredAttempt(date: string) {
+  try {
+    const stored = window.localStorage.getItem(DAILY_STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored) as DailyAttempt;
+    if (parsed.daily?.date !== date || !parsed.round) return null;
+    // Attempts saved before guess targets existed lack `round.target`.
+    return { ...parsed, round: { ...initialRound, ...parsed.round } };
+  } catch {
+    return null;
+  }
+}
+
+type DailyPuzzleProps = {
+  profile: DeviceCredentials | null;
+  /** False until the stored profile has been read; the round waits for it. */
+  profileLoaded: boolean;
+};
+
+/**
+ * The server keeps each player's daily round, so this browser's copy is only
+ * a shortcut: without it the same round comes back with its guesses.
+ */
+export function DailyPuzzle({ profile, profileLoaded }: DailyPuzzleProps) {
+  const { locale, t } = useLocale();
+  const [state, setState] = useState<DailyState>({ status: "loading" });
+  const [currentGuess, setCurrentGuess] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!profileLoaded) return;
+    let cancelled = false;
+    const today = getLocalDailyDate();
+    const stored = readStoredAttempt(today);
+
+    const load = async () => {
+      if (stored) {
+        setState({ status: "ready", attempt: stored });
+        return;
+      }
+
+      try {
+        const round = await requestRound<DailyRound>(
+          locale === DEFAULT_LOCALE
+            ? `/api/daily?date=${today}`
+            : `/api/daily?date=${today}&locale=${locale}`,
+          profile ? getDeviceHeaders(profile) : undefined,
+        );
+        if (cancelled) return;
+        setState({
+          status: "ready",
+          attempt: {
+            daily: round.daily,
+            game: round.game,
+            token: round.token,
+            round: round.round,
+          },
+        });
+      } catch (error) {
+        if (cancelled) return;
+        const message =
+          error instanceof ApiError && error.code === "steam-throttled"
+            ? t("round.steamThrottled")
+            : error instanceof Error
+              ? error.message
+              : t("daily.loadFailed");
+        setState({ status: "error", message, attempt: null });
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [locale, t, profile, profileLoaded]);
+
+  const attempt = state.status === "loading" ? null : state.attempt;
+
+  useEffect(() => {
+    if (!attempt) return;
+    window.localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(attempt));
+  }, [attempt]);
+
+  const trimmedGuess = currentGuess.trim();
+  const guessIsNumber =
+    trimmedGuess.length > 0 && isValidGuess(Number(trimmedGuess));
+  const round = attempt?.round ?? initialRound;
+  const finished = isRoundOver(round);
+  const canSubmitGuess =
+    state.status === "ready" && !finished && !submitting && guessIsNumber;
+
+  const handleSubmitGuess = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSubmitGuess || !attempt) return;
+    const value = Number(trimmedGuess);
+    setSubmitting(true);
+
+    try {
+      const result = await requestGuess(attempt.token, value);
+      let nextRound = reduceRound(attempt.round, {
+        type: "guess",
+        value,
+        outcome: result.outcome,
+      });
+      if (result.resolved) {
+        nextRound = reduceRound(nextRound, {
+          type: "resolve",
+          actualScore: result.actualScore,
+        });
+      }
+      setState({
+        status: "ready",
+        attempt: { ...attempt, token: result.token, round: nextRound },
+      });
+      setCurrentGuess("");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : t("round.guessFailed");
+      setState({ status: "error", message, attempt });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const statusLabel = (() => {
+    if (state.status === "loading") return t("daily.loading");
+    if (state.status === "error") return state.message;
+    if (round.phase === "won") return t("daily.won");
+    if (round.phase === "lost") return t("daily.lost");
+    return t("daily.intro");
+  })();
+
+  const guessesUsed = round.guesses.length;
+  const guessCounterLabel = `${Math.min(
+    round.phase === "won" ? guessesUsed : guessesUsed + 1,
+    MAX_GUESSES,
+  )}/${MAX_GUESSES}`;
+
+  return (
+    <>
+      <div className="flex justify-center">
+        {attempt ? <SteamGameCard game={attempt.game} /> : <CardPlaceholder />}
+      </div>
+
+      <div className="flex-shrink-0 text-center">
+        <p className="text-sm font-semibold sm:text-lg">
+          {attempt
+            ? t("daily.number", { number: attempt.daily.number })
+            : t("daily.title")}{" "}
+          · {guessCounterLabel}
+        </p>
+        {finished && round.actualScore !== null ? (
+          <p className="text-[11px] font-bold text-[#0ea5e9] sm:text-sm">
+            {t("round.actual", { value: `${round.actualScore}%` })}
+          </p>
+        ) : (
+          <p className="text-[11px] text-[#4b5563] sm:text-sm">
+            {t("targets.score.tolerance", { threshold: WIN_THRESHOLD })}
+          </p>
+        )}
+      </div>
+
+      <GuessList guesses={round.guesses} maxGuesses={MAX_GUESSES} />
+
+      <GuessForm
+        value={currentGuess}
+        onChange={setCurrentGuess}
+        onSubmit={handleSubmitGuess}
+        inputDisabled={state.status !== "ready" || finished || submitting}
+        canSubmit={canSubmitGuess}
+      />
+
+      {attempt && finished ? (
+        <div className="flex justify-center">
+          <ShareButton
+            title={t("daily.number", { number: attempt.daily.number })}
+            date={attempt.daily.date}
+            guesses={round.guesses}
+            maxGuesses={MAX_GUESSES}
+            actualScore={round.actualScore}
+            won={round.phase === "won"}
+          />
+        </div>
+      ) : null}
+
+      <p className="text-center text-[11px] text-[#0f172a] sm:text-sm">
+        {statusLabel}
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+import type { FormEvent } from "react";
+
+import type { GuessEntry } from "@/lib/game-engine";
+import type { GuessOutcome } from "@/lib/game-rules";
+
+import { useLocale } from "./locale-context";
+
+type GuessListProps = {
+  guesses: GuessEntry[];
+  maxGuesses: number;
+  format?: (value: number) => string;
+};
+
+export function GuessList({
+  guesses,
+  maxGuesses,
+  format = (value) => `${value}%`,
+}: GuessListProps) {
+  return (
+    <ul className="flex w-full max-w-md flex-shrink-0 flex-col gap-2 self-center sm:max-w-lg">
+      {Array.from({ length: maxGuesses }).map((_, index) => {
+        const guess = guesses[index];
+        const { trend, tone } = getTrendData(guess?.outcome);
+        return (
+          <li
+            key={index}
+            className={`flex items-center justify-between rounded-full border-2 border-[#050a12] px-3 py-1 text-sm font-black tracking-wide text-white transition sm:px-4 sm:py-2 sm:text-lg ${tone.bg}`}
+          >
+            <span className={`${tone.text} transition`}>
+              {guess ? format(guess.value) : "\u00A0"}
+            </span>
+            <span className={`text-base font-semibold sm:text-xl ${tone.text}`}>
+              {trend}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+type GuessFormProps = {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (event: FormEvent<HTMLFormElement>) => void;
+  inputDisabled: boolean;
+  canSubmit: boolean;
+  placeholder?: string;
+};
+
+export function GuessForm({
+  value,
+  onChange,
+  onSubmit,
+  inputDisabled,
+  canSubmit,
+  placeholder,
+}: GuessFormProps) {
+  const { t } = useLocale();
+  return (
+    <form
+      className="flex w-full max-w-md flex-shrink-0 flex-wrap items-center gap-3 self-center sm:max-w-lg"
+      onSubmit={onSubmit}
+    >
+      <label className="flex flex-1 items-center rounded-full border-2 border-[#050a12] bg-white px-3 py-1.5 text-[11px] text-[#0b1420] sm:py-2 sm:text-sm">
+        <span className="mr-2 text-[#0ea5e9]">★</span>
+        <input
+          type="text"
+          className="w-full bg-transparent text-base font-semibold uppercase tracking-wide text-[#0b1420] placeholder:text-[#94a3b8] focus:outline-none sm:text-lg"
+          placeholder={placeholder ?? t("targets.score.placeholder")}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          disabled={inputDisabled}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className="rounded-full border-2 border-[#050a12] bg-[#0ea5e9] px-3 py-2 text-[11px] font-black uppercase tracking-widest text-white transition hover:bg-[#0284c7] disabled:cursor-not-allowed disabled:opacity-60 sm:px-6 sm:text-sm"
+      >
+        {t("guess.submit")}
+      </button>
+    </form>
+  );
+}
+
+export function CardPlaceholder() {
+  return (
+    <div className="h-32 w-full max-w-[200px] animate-pulse rounded-[24px] border-4 border-dashed border-[#7c8899] bg-[#e2e8f0] sm:h-64 sm:max-w-xs sm:rounded-[32px]" />
+  );
+}
+
+export function getTrendData(outcome?: GuessOutcome) {
+  if (!outcome) {
+    return {
+      trend: "",
+      tone: { bg: "bg-[#7c8899]", text: "text-white" },
+    };
+  }
+
+  if (outcome === "win") {
+    return {
+      trend: "✔",
+      tone: {
+        bg: "bg-emerald-600 animate-pulse",
+        text: "text-white",
+      },
+    };
+  }
+
+  if (outcome === "lower") {
+    return {
+      trend: "▼",
+      tone: {
+        bg: "bg-amber-500/80",
+        text: "text-[#0b1420]",
+      },
+    };
+  }
+
+  return {
+    trend: "▲",
+    tone: {
+      bg: "bg-rose-600/80",
+      text: "text-white",
+    },
+  };
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+
+import {
+  DEFAULT_GUESS_TARGET,
+  GUESS_TARGETS,
+  GUESS_TARGET_RULES,
+  isGuessTarget,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+import {
+  LEADERBOARDS,
+  LEADERBOARD_PERIODS,
+  MIN_RANKED_ROUNDS,
+  isLeaderboard,
+  isLeaderboardPeriod,
+  type Leaderboard,
+  type LeaderboardPeriod,
+  type LeaderboardView,
+} from "@/lib/leaderboard";
+import {
+  requestDisplayName,
+  requestLeaderboard,
+} from "@/lib/leaderboard-client";
+import type { DeviceCredentials } from "@/lib/profiles";
+
+import { useLocale } from "./locale-context";
+
+const DISPLAY_NAME_KEY = "steamcodleDisplayName";
+
+type BoardState =
+  | { status: "loading" }
+  | { status: "ready"; view: LeaderboardView }
+  | { status: "error"; message: string };
+
+const selectClassName =
+  "rounded-2xl border-2 border-[#050a12] bg-white px-2 py-1 text-[10px] font-semibold text-[#0b1420] sm:text-xs";
+
+function formatValue(board: Leaderboard, target: GuessTarget, value: number) {
+  if (board === "streak") return String(value);
+  if (board === "winRate") return `${Math.round(value * 100)}%`;
+  return `±${GUESS_TARGET_RULES[target].format(Math.round(value))}`;
+}
+
+/** Rankings from server-checked rounds; joining needs a synced profile. */
+export function LeaderboardPanel({
+  profile,
+}: {
+  profile: DeviceCredentials | null;
+}) {
+  const { t } = useLocale();
+  const [board, setBoard] = useState<Leaderboard>("streak");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("week");
+  const [target, setTarget] = useState<GuessTarget>(DEFAULT_GUESS_TARGET);
+  const [state, setState] = useState<BoardState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const view = await requestLeaderboard(board, period, target);
+        if (!cancelled) setState({ status: "ready", view });
+      } catch (error) {
+        if (cancelled) return;
+        const message =
+          error instanceof Error ? error.message : t("leaders.loadFailed");
+        setState({ status: "error", message });
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [board, period, target, t]);
+
+  const select = (update: () => void) => {
+    setState({ status: "loading" });
+    update();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border-2 border-[#050a12] bg-white p-3 text-xs sm:p-4 sm:text-sm">
+      <div className="flex flex-wrap justify-center gap-2">
+        <select
+          aria-label={t("leaders.board")}
+          value={board}
+          onChange={(event) => {
+            const next = event.target.value;
+            if (isLeaderboard(next)) select(() => setBoard(next));
+          }}
+          className={selectClassName}
+        >
+          {LEADERBOARDS.map((option) => (
+            <option key={option} value={option}>
+              {t(`leaders.${option}`)}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={t("leaders.period")}
+          value={period}
+          onChange={(event) => {
+            const next = event.target.value;
+            if (isLeaderboardPeriod(next)) select(() => setPeriod(next));
+          }}
+          className={selectClassName}
+        >
+          {LEADERBOARD_PERIODS.map((option) => (
+            <option key={option} value={option}>
+              {t(`leaders.period.${option}`)}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={t("stats.target")}
+          value={target}
+          onChange={(event) => {
+            const next = event.target.value;
+            if (isGuessTarget(next)) select(() => setTarget(next));
+          }}
+          className={selectClassName}
+        >
+          {GUESS_TARGETS.map((option) => (
+            <option key={option} value={option}>
+              {t(`targets.${option}.label`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {state.status === "loading" ? (
+        <p className="text-center text-[#475569]">{t("leaders.loading")}</p>
+      ) : state.status === "error" ? (
+        <p className="text-center text-rose-600">{state.message}</p>
+      ) : state.view.entries.length === 0 ? (
+        <p className="text-center text-[#475569]">{t("leaders.empty")}</p>
+      ) : (
+        <table className="w-full text-left">
+          <thead>
+            <tr className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
+              <th className="font-normal">#</th>
+              <th className="font-normal">{t("leaders.player")}</th>
+              <th className="text-right font-normal">
+                {t(`leaders.${state.view.board}`)}
+              </th>
+              <th className="text-right font-normal">{t("leaders.rounds")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {state.view.entries.map((entry, index) => (
+              <tr key={index} className="font-bold text-[#0b1420]">
+                <td className="pt-1">{entry.rank}</td>
+                <td className="pt-1">{entry.displayName}</td>
+                <td className="pt-1 text-right">
+                  {formatValue(
+                    state.view.board,
+                    state.view.target,
+                    entry.value,
+                  )}
+                </td>
+                <td className="pt-1 text-right">{entry.rounds}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {board !== "streak" ? (
+        <p className="text-center text-[11px] text-[#475569]">
+          {t("leaders.minRounds", { count: MIN_RANKED_ROUNDS[period] })}
+        </p>
+      ) : null}
+
+      {period !== "all" ? (
+        <p className="text-center text-[11px] text-[#475569]">
+          {t("leaders.resetsUtc")}
+        </p>
+      ) : null}
+
+      {profile ? (
+        <DisplayNameForm profile={profile} />
+      ) : (
+        <p className="text-center text-[11px] text-[#475569]">
+          {t("leaders.join")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function DisplayNameForm({ profile }: { profile: DeviceCredentials }) {
+  const { t } = useLocale();
+  // Only rendered after the player opens this tab, never on the server.
+  const [saved, setSaved] = useState(
+    () => window.localStorage.getItem(DISPLAY_NAME_KEY) ?? "",
+  );
+  const [name, setName] = useState(saved);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      const { displayName } = await requestDisplayName(profile, name);
+      window.localStorage.setItem(DISPLAY_NAME_KEY, displayName);
+      setSaved(displayName);
+      setName(displayName);
+      setMessage(t("leaders.nameSaved"));
+    } catch (error) {
+      setMessage(
+        error instanceof Error ? error.message : t("leaders.nameFailed"),
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-col gap-1 border-t-2 border-[#e2e8f0] pt-2 text-[11px]"
+    >
+      <label
+        htmlFor="leaderboard-name"
+        className="uppercase tracking-[0.2em] text-[#94a3b8]"
+      >
+        {t("leaders.displayName")}
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="leaderboard-name"
+          value={name}
+          maxLength={20}
+          onChange={(event) => setName(event.target.value)}
+          className="min-w-0 flex-1 rounded-xl border-2 border-[#050a12] px-2 py-1"
+        />
+        <button
+          type="submit"
+          disabled={saving || !name.trim() || name.trim() === saved}
+          className="rounded-xl border-2 border-[#050a12] bg-[#0ea5e9] px-2 py-1 font-bold uppercase text-white disabled:opacity-50"
+        >
+          {t("leaders.saveName")}
+        </button>
+      </div>
+      {message ? <p className="text-[#475569]">{message}</p> : null}
+      {!saved ? (
+        <p className="text-[#475569]">{t("leaders.nameHint")}</p>
+      ) : null}
+    </form>
+  );
+}
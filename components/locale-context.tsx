@@ -0,0 +1,25 @@
+"use client";
+
+import { createContext, useContext } from "react";
+
+import {
+  DEFAULT_LOCALE,
+  createTranslator,
+  type Locale,
+  type Translator,
+} from "@/lib/i18n";
+
+type LocaleContextValue = {
+  locale: Locale;
+  t: Translator;
+};
+
+/** Provided by `SteamGameViewer`, which owns the player's locale setting. */
+export const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  t: createTranslator(DEFAULT_LOCALE),
+});
+
+export function useLocale() {
+  return useContext(LocaleContext);
+}
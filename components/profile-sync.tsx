@@ -0,0 +1,280 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type FormEvent,
+} from "react";
+
+import type { StatsSnapshot } from "@/lib/game-engine";
+import {
+  requestProfile,
+  requestRecovery,
+  requestSync,
+} from "@/lib/profile-client";
+import type { DeviceCredentials } from "@/lib/profiles";
+import { mergeRecentAppIds, mergeStats } from "@/lib/stats-sync";
+
+import { useLocale } from "./locale-context";
+
+const PROFILE_KEY = "steamcodleProfile";
+// Lets a burst of stat changes (guess, resolve, next round) go up as one sync.
+const SYNC_DELAY_MS = 1500;
+
+type StoredProfile = DeviceCredentials & { recoveryCode: string };
+
+type SyncStatus =
+  | { status: "off" }
+  | { status: "syncing" }
+  | { status: "synced"; at: string }
+  | { status: "error"; message: string };
+
+type ProfileSyncOptions = {
+  stats: StatsSnapshot;
+  recentAppIds: number[];
+  today: string;
+  /** False until local stats have been read, so defaults never get uploaded. */
+  ready: boolean;
+  onMerged: (stats: StatsSnapshot, recentAppIds: number[]) => void;
+};
+
+export type ProfileSync = {
+  profile: StoredProfile | null;
+  /** False until the stored profile, if any, has been read. */
+  loaded: boolean;
+  sync: SyncStatus;
+  enable: () => Promise<void>;
+  restore: (recoveryCode: string) => Promise<void>;
+  syncNow: () => Promise<void>;
+  unlink: () => void;
+};
+
+function parseStoredProfile(raw: unknown): StoredProfile | null {
+  const parsed = raw as Partial<StoredProfile> | null;
+  if (
+    typeof parsed?.profileId === "string" &&
+    typeof parsed.deviceId === "string" &&
+    typeof parsed.deviceToken === "string" &&
+    typeof parsed.recoveryCode === "string"
+  ) {
+    return parsed as StoredProfile;
+  }
+  return null;
+}
+
+/**
+ * Keeps this browser's stats in step with its server-side profile. Syncs once
+ * stats are loaded and again whenever they change, then adopts the merged copy.
+ */
+export function useProfileSync({
+  stats,
+  recentAppIds,
+  today,
+  ready,
+  onMerged,
+}: ProfileSyncOptions): ProfileSync {
+  const [profile, setProfile] = useState<StoredProfile | null>(null);
+  const [profileLoaded, setProfileLoaded] = useState(false);
+  const [sync, setSync] = useState<SyncStatus>({ status: "off" });
+  const latest = useRef({ stats, recentAppIds, today, onMerged });
+  // Set while the merged stats are handed back, so adopting them is not
+  // mistaken for a new change that needs syncing.
+  const adoptingRef = useRef(false);
+
+  useEffect(() => {
+    try {
+      setProfile(
+        parseStoredProfile(
+          JSON.parse(window.localStorage.getItem(PROFILE_KEY) ?? "null"),
+        ),
+      );
+    } catch {
+      // A corrupt entry is treated as no profile; the player can restore it.
+    } finally {
+      setProfileLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    latest.current = { stats, recentAppIds, today, onMerged };
+  });
+
+  const runSync = useCallback(async (credentials: DeviceCredentials) => {
+    const sent = latest.current;
+    setSync({ status: "syncing" });
+    try {
+      const result = await requestSync(
+        credentials,
+        sent.stats,
+        sent.recentAppIds,
+        sent.today,
+      );
+      // Rounds finished while the request was in flight are merged on top of
+      // the server's answer rather than dropped.
+      const current = latest.current;
+      adoptingRef.current = true;
+      current.onMerged(
+        mergeStats(result.stats, current.stats, sent.stats, current.today),
+        mergeRecentAppIds(current.recentAppIds, result.recentAppIds),
+      );
+      setSync({ status: "synced", at: result.syncedAt });
+    } catch (error) {
+      setSync({
+        status: "error",
+        message: error instanceof Error ? error.message : "",
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!ready || !profile) return;
+    if (adoptingRef.current) {
+      adoptingRef.current = false;
+      return;
+    }
+    const timer = window.setTimeout(() => runSync(profile), SYNC_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [ready, profile, stats, runSync]);
+
+  const adopt = (next: StoredProfile) => {
+    window.localStorage.setItem(PROFILE_KEY, JSON.stringify(next));
+    setProfile(next);
+  };
+
+  const enable = async () => {
+    setSync({ status: "syncing" });
+    try {
+      adopt(await requestProfile());
+    } catch (error) {
+      setSync({
+        status: "error",
+        message: error instanceof Error ? error.message : "",
+      });
+    }
+  };
+
+  const restore = async (recoveryCode: string) => {
+    setSync({ status: "syncing" });
+    try {
+      const credentials = await requestRecovery(recoveryCode);
+      adopt({ ...credentials, recoveryCode: recoveryCode.toUpperCase() });
+    } catch (error) {
+      setSync({
+        status: "error",
+        message: error instanceof Error ? error.message : "",
+      });
+    }
+  };
+
+  const syncNow = async () => {
+    if (profile) await runSync(profile);
+  };
+
+  const unlink = () => {
+    window.localStorage.removeItem(PROFILE_KEY);
+    setProfile(null);
+    setSync({ status: "off" });
+  };
+
+  return {
+    profile,
+    loaded: profileLoaded,
+    sync,
+    enable,
+    restore,
+    syncNow,
+    unlink,
+  };
+}
+
+export function ProfilePanel({ sync }: { sync: ProfileSync }) {
+  const { t, locale } = useLocale();
+  const [code, setCode] = useState("");
+  const busy = sync.sync.status === "syncing";
+
+  const handleRestore = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (code.trim()) sync.restore(code.trim());
+  };
+
+  const statusText =
+    sync.sync.status === "syncing"
+      ? t("profile.syncing")
+      : sync.sync.status === "synced"
+        ? t("profile.synced", {
+            time: new Date(sync.sync.at).toLocaleTimeString(locale, {
+              hour: "2-digit",
+              minute: "2-digit",
+            }),
+          })
+        : sync.sync.status === "error"
+          ? sync.sync.message || t("profile.failed")
+          : null;
+
+  return (
+    <div className="mt-3 space-y-2 border-t-2 border-[#e2e8f0] pt-2 text-[11px]">
+      <div className="uppercase tracking-[0.2em] text-[#94a3b8]">
+        {t("profile.title")}
+      </div>
+      {sync.profile ? (
+        <>
+          <div>
+            <div className="text-[#94a3b8]">{t("profile.code")}</div>
+            <div className="font-mono text-sm font-bold tracking-widest text-[#0b1420]">
+              {sync.profile.recoveryCode}
+            </div>
+            <p className="text-[#475569]">{t("profile.codeHint")}</p>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <button
+              type="button"
+              onClick={sync.syncNow}
+              disabled={busy}
+              className="rounded-xl border-2 border-[#050a12] bg-[#0ea5e9] px-2 py-1 font-bold uppercase text-white disabled:opacity-50"
+            >
+              {t("profile.syncNow")}
+            </button>
+            <button
+              type="button"
+              onClick={sync.unlink}
+              className="font-semibold uppercase text-[#475569] hover:text-[#0b1420]"
+            >
+              {t("profile.unlink")}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-[#475569]">{t("profile.intro")}</p>
+          <button
+            type="button"
+            onClick={sync.enable}
+            disabled={busy}
+            className="w-full rounded-xl border-2 border-[#050a12] bg-[#0ea5e9] px-2 py-1 font-bold uppercase text-white disabled:opacity-50"
+          >
+            {t("profile.enable")}
+          </button>
+          <form onSubmit={handleRestore} className="flex gap-2">
+            <input
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              placeholder={t("profile.restorePlaceholder")}
+              aria-label={t("profile.code")}
+              className="min-w-0 flex-1 rounded-xl border-2 border-[#050a12] px-2 py-1 font-mono uppercase"
+            />
+            <button
+              type="submit"
+              disabled={busy || !code.trim()}
+              className="rounded-xl border-2 border-[#050a12] bg-white px-2 py-1 font-bold uppercase disabled:opacity-50"
+            >
+              {t("profile.restore")}
+            </button>
+          </form>
+        </>
+      )}
+      {statusText ? <p className="text-[#475569]">{statusText}</p> : null}
+    </div>
+  );
+}
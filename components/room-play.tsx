@@ -0,0 +1,501 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+
+import { MAX_GUESSES } from "@/lib/game-rules";
+import {
+  DEFAULT_GUESS_TARGET,
+  GUESS_TARGETS,
+  GUESS_TARGET_RULES,
+  isGuessTarget,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+import {
+  openRoomEvents,
+  requestJoinRoom,
+  requestNextRound,
+  requestRoom,
+  requestRoomGuess,
+} from "@/lib/room-client";
+import type { RoomCredentials, RoomPlayerView, RoomView } from "@/lib/rooms";
+
+import { CardPlaceholder, GuessForm, GuessList } from "./guess-board";
+import { useLocale } from "./locale-context";
+import { SteamGameCard } from "./steam-game-card";
+
+const ROOM_KEY = "steamcodleRoom";
+const DISPLAY_NAME_KEY = "steamcodleDisplayName";
+const ROUND_CHOICES = [3, 5, 10] as const;
+const SECONDS_CHOICES = [60, 90, 120] as const;
+
+const pillClassName =
+  "rounded-full border-2 border-[#050a12] bg-[#0ea5e9] px-4 py-2 text-xs font-black uppercase tracking-widest text-white transition hover:bg-[#0284c7] disabled:cursor-not-allowed disabled:opacity-60 sm:text-sm";
+const selectClassName =
+  "rounded-2xl border-2 border-[#050a12] bg-white px-2 py-1 text-[10px] font-semibold text-[#0b1420] sm:text-xs";
+
+/** A tab reload rejoins the same seat; a new tab is a new player. */
+function readStoredRoom(): RoomCredentials | null {
+  try {
+    const parsed = JSON.parse(
+      window.sessionStorage.getItem(ROOM_KEY) ?? "null",
+    ) as Partial<RoomCredentials> | null;
+    if (
+      typeof parsed?.code === "string" &&
+      typeof parsed.playerId === "string" &&
+      typeof parsed.playerToken === "string"
+    ) {
+      return parsed as RoomCredentials;
+    }
+  } catch {
+    // Fall through to the lobby.
+  }
+  return null;
+}
+
+/** Head-to-head play: everyone in a room guesses the same games live. */
+export function RoomPlay() {
+  const { t } = useLocale();
+  // Only rendered once the player picks the Versus tab, never on the server.
+  const [credentials, setCredentials] = useState(readStoredRoom);
+  const [view, setView] = useState<RoomView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!credentials) return;
+    const source = openRoomEvents(credentials, (next) => {
+      setView(next);
+      setError(null);
+    });
+    source.onerror = () => {
+      // EventSource retries on its own; it only gives up when the server
+      // turns the stream down, which means the room or the seat is gone.
+      if (source.readyState === EventSource.CLOSED) {
+        window.sessionStorage.removeItem(ROOM_KEY);
+        setCredentials(null);
+        setView(null);
+        setError(t("room.lost"));
+      }
+    };
+    return () => source.close();
+  }, [credentials, t]);
+
+  const enter = (next: RoomCredentials) => {
+    window.sessionStorage.setItem(ROOM_KEY, JSON.stringify(next));
+    setError(null);
+    setCredentials(next);
+  };
+
+  const leave = () => {
+    window.sessionStorage.removeItem(ROOM_KEY);
+    setCredentials(null);
+    setView(null);
+  };
+
+  if (!credentials) {
+    return <RoomLobby onEnter={enter} error={error} />;
+  }
+
+  if (!view) {
+    return (
+      <p className="text-center text-[11px] text-[#0f172a] sm:text-sm">
+        {t("room.connecting")}
+      </p>
+    );
+  }
+
+  return (
+    <RoomBoard
+      view={view}
+      credentials={credentials}
+      onLeave={leave}
+      error={error}
+      onError={setError}
+    />
+  );
+}
+
+function RoomLobby({
+  onEnter,
+  error,
+}: {
+  onEnter: (credentials: RoomCredentials) => void;
+  error: string | null;
+}) {
+  const { t, locale } = useLocale();
+  const [name, setName] = useState(
+    () => window.localStorage.getItem(DISPLAY_NAME_KEY) ?? "",
+  );
+  const [code, setCode] = useState("");
+  const [target, setTarget] = useState<GuessTarget>(DEFAULT_GUESS_TARGET);
+  const [rounds, setRounds] = useState<number>(5);
+  const [roundSeconds, setRoundSeconds] = useState<number>(90);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(error);
+
+  const run = async (action: () => Promise<RoomCredentials>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const credentials = await action();
+      window.localStorage.setItem(DISPLAY_NAME_KEY, name.trim());
+      onEnter(credentials);
+    } catch (caught) {
+      setMessage(caught instanceof Error ? caught.message : t("room.failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(() => requestRoom(name, { target, rounds, roundSeconds, locale }));
+  };
+
+  const handleJoin = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    run(() => requestJoinRoom(code.trim(), name));
+  };
+
+  const hasName = name.trim().length >= 2;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border-2 border-[#050a12] bg-white p-3 text-xs sm:p-4 sm:text-sm">
+      <p className="text-center text-[#475569]">{t("room.intro")}</p>
+      <label className="flex flex-col gap-1 text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
+        {t("room.name")}
+        <input
+          value={name}
+          maxLength={20}
+          onChange={(event) => setName(event.target.value)}
+          className="rounded-xl border-2 border-[#050a12] px-2 py-1 text-sm normal-case tracking-normal text-[#0b1420]"
+        />
+      </label>
+
+      <form
+        onSubmit={handleCreate}
+        className="flex flex-col gap-2 border-t-2 border-[#e2e8f0] pt-2"
+      >
+        <div className="flex flex-wrap justify-center gap-2">
+          <select
+            aria-label={t("stats.target")}
+            value={target}
+            onChange={(event) => {
+              if (isGuessTarget(event.target.value)) {
+                setTarget(event.target.value);
+              }
+            }}
+            className={selectClassName}
+          >
+            {GUESS_TARGETS.map((option) => (
+              <option key={option} value={option}>
+                {t(`targets.${option}.label`)}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label={t("room.rounds")}
+            value={rounds}
+            onChange={(event) => setRounds(Number(event.target.value))}
+            className={selectClassName}
+          >
+            {ROUND_CHOICES.map((option) => (
+              <option key={option} value={option}>
+                {t("room.roundsOption", { count: option })}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label={t("room.timer")}
+            value={roundSeconds}
+            onChange={(event) => setRoundSeconds(Number(event.target.value))}
+            className={selectClassName}
+          >
+            {SECONDS_CHOICES.map((option) => (
+              <option key={option} value={option}>
+                {t("room.secondsOption", { count: option })}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={busy || !hasName}
+          className={pillClassName}
+        >
+          {t("room.create")}
+        </button>
+      </form>
+
+      <form
+        onSubmit={handleJoin}
+        className="flex gap-2 border-t-2 border-[#e2e8f0] pt-2"
+      >
+        <input
+          value={code}
+          maxLength={8}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder={t("room.codePlaceholder")}
+          aria-label={t("room.code")}
+          className="min-w-0 flex-1 rounded-xl border-2 border-[#050a12] px-2 py-1 font-mono uppercase tracking-widest"
+        />
+        <button
+          type="submit"
+          disabled={busy || !hasName || !code.trim()}
+          className={pillClassName}
+        >
+          {t("room.join")}
+        </button>
+      </form>
+
+      {message ? <p className="text-center text-rose-600">{message}</p> : null}
+    </div>
+  );
+}
+
+function useSecondsLeft(endsAt: number | null) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (endsAt === null) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(timer);
+  }, [endsAt]);
+  return endsAt === null ? null : Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
+
+function RoomBoard({
+  view,
+  credentials,
+  onLeave,
+  error,
+  onError,
+}: {
+  view: RoomView;
+  credentials: RoomCredentials;
+  onLeave: () => void;
+  error: string | null;
+  onError: (message: string | null) => void;
+}) {
+  const { t } = useLocale();
+  const [currentGuess, setCurrentGuess] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const secondsLeft = useSecondsLeft(view.roundEndsAt);
+
+  const me = view.players.find((player) => player.id === view.you);
+  const isHost = me?.isHost ?? false;
+  const rules = GUESS_TARGET_RULES[view.options.target];
+  const parsedGuess = rules.parse(currentGuess);
+  const canSubmit =
+    view.phase === "playing" &&
+    me?.phase === "playing" &&
+    !submitting &&
+    parsedGuess !== null &&
+    rules.isValid(parsedGuess);
+
+  const handleGuess = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSubmit || parsedGuess === null) return;
+    setSubmitting(true);
+    try {
+      await requestRoomGuess(credentials, parsedGuess);
+      setCurrentGuess("");
+      onError(null);
+    } catch (caught) {
+      onError(
+        caught instanceof Error ? caught.message : t("round.guessFailed"),
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleNextRound = async () => {
+    setSubmitting(true);
+    try {
+      await requestNextRound(credentials);
+      onError(null);
+    } catch (caught) {
+      onError(caught instanceof Error ? caught.message : t("room.failed"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const status =
+    view.phase === "lobby"
+      ? isHost
+        ? t("room.lobbyHost")
+        : t("room.lobbyGuest")
+      : view.phase === "finished"
+        ? t("room.finished")
+        : view.phase === "results"
+          ? t("room.results")
+          : me?.phase === "won"
+            ? t("round.won", {
+                target: t(`targets.${view.options.target}.label`),
+              })
+            : me?.phase === "lost"
+              ? t("room.waiting")
+              : me?.phase === "idle"
+                ? t("room.sittingOut")
+                : t(`targets.${view.options.target}.prompt`, {
+                    language: t(`language.${view.game?.reviewLocale ?? "en"}`),
+                  });
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between rounded-2xl border-2 border-[#050a12] bg-white px-3 py-2 text-[11px] font-semibold uppercase tracking-[0.2em] text-[#0b1420] sm:text-xs">
+        <span>
+          {t("room.code")} ·{" "}
+          <span className="font-mono text-sm tracking-widest text-[#0ea5e9]">
+            {view.code}
+          </span>
+        </span>
+        <span>
+          {t("room.roundCounter", {
+            current: view.roundNumber,
+            total: view.options.rounds,
+          })}
+        </span>
+        <span
+          className={
+            secondsLeft !== null && secondsLeft <= 10 ? "text-rose-600" : ""
+          }
+        >
+          {secondsLeft !== null ? `⏱ ${secondsLeft}s` : "⏱ —"}
+        </span>
+      </div>
+
+      {view.phase !== "lobby" ? (
+        <div className="flex flex-col items-center gap-3">
+          {view.game ? <SteamGameCard game={view.game} /> : <CardPlaceholder />}
+          {view.answer !== null ? (
+            <p className="text-sm font-black uppercase tracking-widest text-[#0b1420]">
+              {t("round.actual", { value: rules.format(view.answer) })}
+            </p>
+          ) : null}
+          {view.phase === "playing" && me?.phase !== "idle" ? (
+            <>
+              <GuessList
+                guesses={me?.guesses ?? []}
+                maxGuesses={MAX_GUESSES}
+                format={rules.format}
+              />
+              <GuessForm
+                value={currentGuess}
+                onChange={setCurrentGuess}
+                onSubmit={handleGuess}
+                inputDisabled={me?.phase !== "playing" || submitting}
+                canSubmit={canSubmit}
+                placeholder={t(`targets.${view.options.target}.placeholder`)}
+              />
+            </>
+          ) : null}
+        </div>
+      ) : null}
+
+      <p className="text-center text-[11px] text-[#0f172a] sm:text-sm">
+        {status}
+      </p>
+      {error ? (
+        <p className="text-center text-[11px] text-rose-600 sm:text-sm">
+          {error}
+        </p>
+      ) : null}
+
+      <Scoreboard view={view} format={rules.format} />
+
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        {isHost && (view.phase === "lobby" || view.phase === "results") ? (
+          <button
+            type="button"
+            onClick={handleNextRound}
+            disabled={submitting}
+            className={pillClassName}
+          >
+            {view.phase === "lobby" ? t("room.start") : t("room.next")}
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={onLeave}
+          className="rounded-full border-2 border-[#050a12] bg-[#0f172a] px-4 py-2 text-xs text-white transition hover:bg-[#1d283a] sm:text-sm"
+        >
+          {t("room.leave")}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PlayerStatus({ player }: { player: RoomPlayerView }) {
+  if (player.phase === "won")
+    return <span className="text-emerald-600">✔</span>;
+  if (player.phase === "lost") return <span className="text-rose-600">✖</span>;
+  if (player.phase === "idle") return <span>—</span>;
+  return (
+    <span>
+      {player.guessesUsed}/{MAX_GUESSES}
+    </span>
+  );
+}
+
+function Scoreboard({
+  view,
+  format,
+}: {
+  view: RoomView;
+  format: (value: number) => string;
+}) {
+  const { t } = useLocale();
+  const standings = [...view.players].sort(
+    (a, b) => b.score - a.score || b.wins - a.wins,
+  );
+  const showGuesses = view.phase === "results" || view.phase === "finished";
+
+  return (
+    <table className="w-full rounded-2xl border-2 border-[#050a12] bg-white text-left text-[11px] sm:text-xs">
+      <thead>
+        <tr className="uppercase tracking-[0.2em] text-[#94a3b8]">
+          <th className="px-3 pt-2 font-normal">{t("leaders.player")}</th>
+          <th className="pt-2 text-right font-normal">{t("room.round")}</th>
+          <th className="pt-2 text-right font-normal">{t("stats.correct")}</th>
+          <th className="px-3 pt-2 text-right font-normal">
+            {t("room.points")}
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map((player) => (
+          <tr
+            key={player.id}
+            className={`align-top font-bold ${
+              player.id === view.you ? "text-[#0ea5e9]" : "text-[#0b1420]"
+            }`}
+          >
+            <td className="px-3 py-1">
+              <span
+                className={`mr-1 inline-block h-2 w-2 rounded-full ${
+                  player.connected ? "bg-emerald-500" : "bg-[#94a3b8]"
+                }`}
+              />
+              {player.name}
+              {player.isHost ? " ★" : ""}
+              {showGuesses && player.guesses && player.guesses.length > 0 ? (
+                <div className="font-normal text-[#475569]">
+                  {player.guesses
+                    .map((guess) => format(guess.value))
+                    .join(" · ")}
+                </div>
+              ) : null}
+            </td>
+            <td className="py-1 text-right">
+              <PlayerStatus player={player} />
+            </td>
+            <td className="py-1 text-right">{player.wins}</td>
+            <td className="px-3 py-1 text-right">{player.score}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
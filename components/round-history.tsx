@@ -0,0 +1,219 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { GUESS_TARGETS, GUESS_TARGET_RULES } from "@/lib/guess-targets";
+import {
+  DEFAULT_HISTORY_LIMIT,
+  HISTORY_LIMITS,
+  appendRoundRecord,
+  getAverageErrors,
+  getGuessDistribution,
+  getRecordError,
+  getRecordMaxGuesses,
+  isHistoryLimit,
+  parseRoundHistory,
+  type HistoryLimit,
+  type RoundRecord,
+} from "@/lib/history";
+
+import { useLocale } from "./locale-context";
+
+const HISTORY_KEY = "steamcodleHistory";
+const HISTORY_LIMIT_KEY = "steamcodleHistoryLimit";
+
+export type RoundHistory = {
+  history: RoundRecord[];
+  limit: HistoryLimit;
+  record: (record: RoundRecord) => void;
+  replace: (history: RoundRecord[]) => void;
+  setLimit: (limit: HistoryLimit) => void;
+};
+
+function readStoredLimit(): HistoryLimit {
+  const stored = Number(window.localStorage.getItem(HISTORY_LIMIT_KEY));
+  return isHistoryLimit(stored) ? stored : DEFAULT_HISTORY_LIMIT;
+}
+
+/** The finished-round log, kept in localStorage and pruned to `limit`. */
+export function useRoundHistory(): RoundHistory {
+  const [limit, setLimitState] = useState<HistoryLimit>(DEFAULT_HISTORY_LIMIT);
+  const [history, setHistory] = useState<RoundRecord[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+
+  useEffect(() => {
+    const storedLimit = readStoredLimit();
+    try {
+      setHistory(
+        parseRoundHistory(
+          JSON.parse(window.localStorage.getItem(HISTORY_KEY) ?? "[]"),
+          storedLimit,
+        ),
+      );
+    } catch {
+      // A log that is not even JSON starts over.
+    } finally {
+      setLimitState(storedLimit);
+      setHistoryLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!historyLoaded) return;
+    window.localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  }, [history, historyLoaded]);
+
+  const record = useCallback(
+    (entry: RoundRecord) => {
+      setHistory((prev) => appendRoundRecord(prev, entry, limit));
+    },
+    [limit],
+  );
+
+  const replace = useCallback(
+    (next: RoundRecord[]) => setHistory(next.slice(0, limit)),
+    [limit],
+  );
+
+  const setLimit = useCallback((next: HistoryLimit) => {
+    window.localStorage.setItem(HISTORY_LIMIT_KEY, String(next));
+    setLimitState(next);
+    setHistory((prev) => prev.slice(0, next));
+  }, []);
+
+  return { history, limit, record, replace, setLimit };
+}
+
+export function RoundHistoryPanel({ history }: { history: RoundHistory }) {
+  const { t } = useLocale();
+  const records = history.history;
+  const distribution = getGuessDistribution(records);
+  const averageErrors = getAverageErrors(records);
+  const tallest = Math.max(1, distribution.losses, ...distribution.wins);
+  const bars = [
+    ...distribution.wins.map((count, index) => ({
+      label: String(index + 1),
+      count,
+      won: true,
+    })),
+    { label: "X", count: distribution.losses, won: false },
+  ];
+
+  return (
+    <div className="mt-3 flex flex-col gap-2 border-t-2 border-[#e2e8f0] pt-2 text-[11px]">
+      <div className="flex items-center justify-between">
+        <span className="uppercase tracking-[0.2em] text-[#94a3b8]">
+          {t("history.title")}
+        </span>
+        <select
+          aria-label={t("history.keep")}
+          value={history.limit}
+          onChange={(event) => {
+            const next = Number(event.target.value);
+            if (isHistoryLimit(next)) history.setLimit(next);
+          }}
+          className="rounded-xl border-2 border-[#050a12] bg-white px-1 text-[10px] font-semibold"
+        >
+          {HISTORY_LIMITS.map((option) => (
+            <option key={option} value={option}>
+              {t("history.keepCount", { count: option })}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {records.length === 0 ? (
+        <p className="text-[#475569]">{t("history.empty")}</p>
+      ) : (
+        <>
+          <div
+            className="flex flex-col gap-0.5"
+            aria-label={t("history.distribution")}
+          >
+            {bars.map((bar) => (
+              <div key={bar.label} className="flex items-center gap-1">
+                <span className="w-3 font-bold text-[#0b1420]">
+                  {bar.label}
+                </span>
+                <span
+                  className={`rounded-sm px-1 text-right font-bold text-white ${
+                    bar.won ? "bg-emerald-600" : "bg-rose-600"
+                  }`}
+                  style={{
+                    width: `${Math.max(8, (bar.count / tallest) * 100)}%`,
+                  }}
+                >
+                  {bar.count}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <dl className="space-y-0.5">
+            {GUESS_TARGETS.filter(
+              (target) => averageErrors[target] !== undefined,
+            ).map((target) => (
+              <div key={target} className="flex items-center justify-between">
+                <dt className="text-[#475569]">
+                  {t("history.averageError", {
+                    target: t(`targets.${target}.label`),
+                  })}
+                </dt>
+                <dd className="font-bold text-[#0b1420]">
+                  ±
+                  {GUESS_TARGET_RULES[target].format(
+                    Math.round(averageErrors[target] ?? 0),
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+
+          <ol className="max-h-40 space-y-1 overflow-y-auto">
+            {records.map((record, index) => (
+              <HistoryRow key={index} record={record} />
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
+
+function HistoryRow({ record }: { record: RoundRecord }) {
+  const { t } = useLocale();
+  const rules = GUESS_TARGET_RULES[record.target];
+  const error = getRecordError(record);
+  const used = record.guesses.length + record.hintsUsed;
+
+  return (
+    <li className="flex items-start justify-between gap-2">
+      <div className="min-w-0">
+        <p className="truncate font-bold text-[#0b1420]">{record.name}</p>
+        <p className="text-[10px] text-[#475569]">
+          {record.date} · {t(`targets.${record.target}.label`)}
+          {record.actualScore !== null
+            ? ` · ${rules.format(record.actualScore)}`
+            : ""}
+          {error !== null && record.result === "loss"
+            ? ` · ${t("history.off", { value: rules.format(error) })}`
+            : ""}
+          {record.points
+            ? ` · ${t("history.points", { points: record.points })}`
+            : ""}
+        </p>
+      </div>
+      <span
+        className={`shrink-0 font-bold ${
+          record.result === "win" ? "text-emerald-600" : "text-rose-600"
+        }`}
+      >
+        {record.result === "win"
+          ? `${used}/${getRecordMaxGuesses(record)}`
+          : record.actualScore === null
+            ? t("history.skipped")
+            : "X"}
+      </span>
+    </li>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useState } from "react";
+
+import type { MessageKey } from "@/lib/i18n";
+import {
+  buildShareText,
+  shareResult,
+  type ShareInput,
+  type ShareOutcome,
+} from "@/lib/share";
+
+import { useLocale } from "./locale-context";
+
+const FEEDBACK_LABELS: Record<ShareOutcome, MessageKey> = {
+  shared: "share.shared",
+  copied: "share.copied",
+  failed: "share.failed",
+};
+
+export function ShareButton(props: ShareInput) {
+  const { t } = useLocale();
+  const [feedback, setFeedback] = useState<ShareOutcome | null>(null);
+
+  const handleShare = async () => {
+    const outcome = await shareResult(buildShareText(props));
+    setFeedback(outcome);
+    window.setTimeout(() => setFeedback(null), 2000);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleShare}
+      className="rounded-full border-2 border-[#050a12] bg-[#facc15] px-4 py-2 text-xs font-black uppercase tracking-widest text-[#0b1420] transition hover:bg-[#eab308] sm:text-sm"
+    >
+      {feedback ? t(FEEDBACK_LABELS[feedback]) : t("share.button")}
+    </button>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent } from "react";
+
+import type { StatsBackup } from "@/lib/stats-storage";
+
+import { useLocale } from "./locale-context";
+
+type StatsBackupPanelProps = {
+  exportBackup: () => StatsBackup;
+  /** Replaces this browser's data; false when the file is not a backup. */
+  importBackup: (raw: unknown) => boolean;
+};
+
+export function StatsBackupPanel({
+  exportBackup,
+  importBackup,
+}: StatsBackupPanelProps) {
+  const { t } = useLocale();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const backup = exportBackup();
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(backup, null, 2)], {
+        type: "application/json",
+      }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `steamcodle-backup-${backup.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !window.confirm(t("backup.confirm"))) return;
+
+    try {
+      const imported = importBackup(JSON.parse(await file.text()));
+      setMessage(imported ? t("backup.imported") : t("backup.invalid"));
+    } catch {
+      setMessage(t("backup.invalid"));
+    }
+  };
+
+  return (
+    <div className="mt-3 flex flex-col gap-1 border-t-2 border-[#e2e8f0] pt-2 text-[11px]">
+      <span className="uppercase tracking-[0.2em] text-[#94a3b8]">
+        {t("backup.title")}
+      </span>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleExport}
+          className="flex-1 rounded-xl border-2 border-[#050a12] bg-white px-2 py-1 font-bold uppercase text-[#0b1420] hover:bg-[#e2e8f0]"
+        >
+          {t("backup.export")}
+        </button>
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          className="flex-1 rounded-xl border-2 border-[#050a12] bg-white px-2 py-1 font-bold uppercase text-[#0b1420] hover:bg-[#e2e8f0]"
+        >
+          {t("backup.import")}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+      {message ? <p className="text-[#475569]">{message}</p> : null}
+    </div>
+  );
+}
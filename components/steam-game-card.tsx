@@ -1,12 +1,15 @@
 import Image from "next/image";
 
-import type { SteamGame } from "@/lib/steam";
+import type { PublicSteamGame } from "@/lib/round";
+
+import { useLocale } from "./locale-context";
 
 type SteamGameCardProps = {
-  game: SteamGame;
+  game: PublicSteamGame;
 };
 
 export function SteamGameCard({ game }: SteamGameCardProps) {
+  const { t } = useLocale();
   return (
     <article className="flex w-full max-w-md flex-col items-center gap-2 rounded-[24px] border-4 border-[#111b2b] bg-[#f4f7fb] p-2 text-center shadow-[6px_6px_0px_#050a12] sm:mx-auto sm:gap-4 sm:p-5">
       <div className="relative h-40 w-full overflow-hidden rounded-[18px] border-2 border-[#0f1b2b] bg-[#0c121c] sm:h-64 sm:rounded-[24px]">
@@ -30,7 +33,7 @@ export function SteamGameCard({ game }: SteamGameCardProps) {
         </p>
       ) : (
         <p className="text-[9px] uppercase tracking-[0.3em] text-[#0ea5e9] sm:text-xs">
-          Steam Featured
+          {t("card.featured")}
         </p>
       )}
     </article>
@@ -4,102 +4,247 @@ import {
   useCallback,
   useEffect,
   useMemo,
+  useReducer,
   useRef,
   useState,
   type FormEvent,
 } from "react";
 
-import type { SteamGame } from "@/lib/steam";
+import { getLocalDailyDate } from "@/lib/daily";
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTIES,
+  isDifficulty,
+  type Difficulty,
+} from "@/lib/difficulty";
+import { MAX_GENRE_FILTERS, STEAM_GENRES } from "@/lib/genres";
+import {
+  createGameState,
+  getHintError,
+  getMaxGuesses,
+  getSlotsUsed,
+  isDailyLossLimitReached,
+  isRoundOver,
+  reduceGame,
+  reduceRound,
+  type RoundState,
+  type StatsSnapshot,
+  type StreakStats,
+} from "@/lib/game-engine";
+import {
+  DAILY_LOSS_LIMIT,
+  DEFAULT_RULE_SET,
+  RULE_SETS,
+  isRuleSet,
+  type RuleSetId,
+} from "@/lib/game-rules";
+import {
+  DEFAULT_GUESS_TARGET,
+  GUESS_TARGETS,
+  getGuessTargetRules,
+  isGuessTarget,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+import type { Hint } from "@/lib/hints";
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  LOCALE_SETTINGS,
+  createTranslator,
+  isLocale,
+  translate,
+  type Locale,
+} from "@/lib/i18n";
+import { createRoundRecord } from "@/lib/history";
+import { getDeviceHeaders } from "@/lib/profile-client";
+import type { DeviceCredentials } from "@/lib/profiles";
+import type { PublicSteamGame, RoundStart } from "@/lib/round";
+import {
+  ApiError,
+  PREFETCHED_ROUND_TTL_MS,
+  requestGuess,
+  requestHint,
+  requestRound,
+  requestRoundStart,
+} from "@/lib/round-client";
+import {
+  RECENT_APPS_LIMIT,
+  createBackup,
+  parseBackup,
+  parseRecentAppIds,
+  readStoredStats,
+  serializeStats,
+  type StatsBackup,
+} from "@/lib/stats-storage";
 
+import { DailyPuzzle } from "./daily-puzzle";
+import { CardPlaceholder, GuessForm, GuessList } from "./guess-board";
+import { LeaderboardPanel } from "./leaderboard";
+import { LocaleContext, useLocale } from "./locale-context";
+import { ProfilePanel, useProfileSync, type ProfileSync } from "./profile-sync";
+import { RoomPlay } from "./room-play";
+import {
+  RoundHistoryPanel,
+  useRoundHistory,
+  type RoundHistory,
+} from "./round-history";
+import { ShareButton } from "./share-button";
+import { StatsBackupPanel } from "./stats-backup";
 import { SteamGameCard } from "./steam-game-card";
+import { TimeAttack } from "./time-attack";
 
-const MAX_GUESSES = 5;
-const WIN_THRESHOLD = 2; // percentage points difference allowed
-const DAILY_LOSS_LIMIT = 3;
 const STORAGE_KEY = "steamcodleStats";
 const RECENT_APPS_KEY = "steamcodleRecentAppIds";
-const RECENT_APPS_LIMIT = 25;
-
-type StatsSnapshot = {
-  totalGuesses: number;
-  correctGames: number;
-  incorrectGames: number;
-  currentStreak: number;
-  bestStreak: number;
-  lastPlayedDate: string;
-  lossesToday: number;
+const DIFFICULTY_KEY = "steamcodleDifficulty";
+const GENRES_KEY = "steamcodleGenres";
+const TARGET_KEY = "steamcodleTarget";
+const RULES_KEY = "steamcodleRules";
+const MATURE_KEY = "steamcodleMature";
+const LOCALE_KEY = "steamcodleLocale";
+
+// The player's own date, matching the day the server counts losses in.
+const getToday = () => getLocalDailyDate();
+
+/** The next round, dealt while the current one is played. */
+type PrefetchedRound = {
+  filters: string;
+  fetchedAt: number;
+  round: Promise<RoundStart | null>;
 };
 
-const getToday = () => new Date().toISOString().slice(0, 10);
-
-const getDefaultStats = (): StatsSnapshot => ({
-  totalGuesses: 0,
-  correctGames: 0,
-  incorrectGames: 0,
-  currentStreak: 0,
-  bestStreak: 0,
-  lastPlayedDate: getToday(),
-  lossesToday: 0,
-});
-
-function normalizeStats(stats: StatsSnapshot): StatsSnapshot {
-  const today = getToday();
-  const currentLosses =
-    typeof stats.lossesToday === "number" && Number.isFinite(stats.lossesToday)
-      ? stats.lossesToday
-      : 0;
-  if (stats.lastPlayedDate === today) {
-    return { ...stats, lossesToday: currentLosses };
-  }
+/** Round filters as query parameters; defaults are left out. */
+function getRoundFilters(
+  difficulty: Difficulty,
+  target: GuessTarget,
+  ruleSet: RuleSetId,
+  genres: string[],
+  locale: Locale,
+  mature: boolean,
+) {
+  const params = new URLSearchParams();
+  if (difficulty !== DEFAULT_DIFFICULTY) params.set("difficulty", difficulty);
+  if (target !== DEFAULT_GUESS_TARGET) params.set("target", target);
+  if (ruleSet !== DEFAULT_RULE_SET) params.set("rules", ruleSet);
+  if (genres.length > 0) params.set("genres", genres.join(","));
+  if (locale !== DEFAULT_LOCALE) params.set("locale", locale);
+  if (mature) params.set("mature", "1");
+  return params.toString();
+}
 
-  return {
-    ...stats,
-    lastPlayedDate: today,
-    lossesToday: 0,
-  };
+function getRoundUrl(filters: string, excludeList: number[]) {
+  const params = new URLSearchParams(filters);
+  if (excludeList.length > 0) {
+    params.set("exclude", excludeList.slice(0, 15).join(","));
+  }
+  params.set("tz", Intl.DateTimeFormat().resolvedOptions().timeZone);
+  return `/api/game?${params.toString()}`;
 }
 
 type SteamGameState =
-  | { status: "idle"; game: SteamGame }
-  | { status: "loading"; game: SteamGame | null }
-  | { status: "error"; game: SteamGame | null; message: string };
+  | { status: "idle"; game: PublicSteamGame }
+  | { status: "loading"; game: PublicSteamGame | null }
+  | { status: "error"; game: PublicSteamGame | null; message: string };
+
+const PLAY_MODES = [
+  "endless",
+  "daily",
+  "timeAttack",
+  "versus",
+  "leaders",
+] as const;
+
+type PlayMode = (typeof PLAY_MODES)[number];
+
+/** A saved choice wins; otherwise the browser language, if we have it. */
+function readStoredLocale(): Locale {
+  const stored = window.localStorage.getItem(LOCALE_KEY);
+  if (isLocale(stored)) return stored;
+  const browser = navigator.language.slice(0, 2).toLowerCase();
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+}
 
 export function SteamGameViewer() {
+  const [mode, setMode] = useState<PlayMode>("endless");
   const [state, setState] = useState<SteamGameState>({
     status: "loading",
     game: null,
   });
-  const [guesses, setGuesses] = useState<number[]>([]);
+  const [roundToken, setRoundToken] = useState<string | null>(null);
+  const [hintsLeft, setHintsLeft] = useState(0);
   const [currentGuess, setCurrentGuess] = useState("");
-  const [didWin, setDidWin] = useState(false);
-  const [gameResolved, setGameResolved] = useState(false);
-  const gameResolvedRef = useRef(false);
-  const [stats, setStats] = useState<StatsSnapshot>(() => getDefaultStats());
+  const [submitting, setSubmitting] = useState(false);
+  const [game, dispatch] = useReducer(reduceGame, getToday(), createGameState);
+  const { round, stats } = game;
   const [statsLoaded, setStatsLoaded] = useState(false);
   const [showStats, setShowStats] = useState(false);
   const [recentAppIds, setRecentAppIds] = useState<number[]>([]);
   const recentAppIdsRef = useRef<number[]>([]);
+  const prefetchRef = useRef<PrefetchedRound | null>(null);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const difficultyRef = useRef<Difficulty>(DEFAULT_DIFFICULTY);
+  const [genres, setGenres] = useState<string[]>([]);
+  const genresRef = useRef<string[]>([]);
+  const [target, setTarget] = useState<GuessTarget>(DEFAULT_GUESS_TARGET);
+  const targetRef = useRef<GuessTarget>(DEFAULT_GUESS_TARGET);
+  const [ruleSet, setRuleSet] = useState<RuleSetId>(DEFAULT_RULE_SET);
+  const ruleSetRef = useRef<RuleSetId>(DEFAULT_RULE_SET);
+  const [mature, setMature] = useState(false);
+  const matureRef = useRef(false);
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const localeRef = useRef<Locale>(DEFAULT_LOCALE);
+  const localeValue = useMemo(
+    () => ({ locale, t: createTranslator(locale) }),
+    [locale],
+  );
+  const { t } = localeValue;
   const isDevMode = process.env.NEXT_PUBLIC_DEV_MODE === "true";
 
   useEffect(() => {
     if (typeof window === "undefined") return;
     try {
+      const storedLocale = readStoredLocale();
+      localeRef.current = storedLocale;
+      setLocale(storedLocale);
+      document.documentElement.lang = storedLocale;
+      const storedDifficulty = window.localStorage.getItem(DIFFICULTY_KEY);
+      if (isDifficulty(storedDifficulty)) {
+        difficultyRef.current = storedDifficulty;
+        setDifficulty(storedDifficulty);
+      }
+      const storedTarget = window.localStorage.getItem(TARGET_KEY);
+      if (isGuessTarget(storedTarget)) {
+        targetRef.current = storedTarget;
+        setTarget(storedTarget);
+      }
+      const storedRuleSet = window.localStorage.getItem(RULES_KEY);
+      if (isRuleSet(storedRuleSet)) {
+        ruleSetRef.current = storedRuleSet;
+        setRuleSet(storedRuleSet);
+      }
+      if (window.localStorage.getItem(MATURE_KEY) === "true") {
+        matureRef.current = true;
+        setMature(true);
+      }
+      const storedGenres = JSON.parse(
+        window.localStorage.getItem(GENRES_KEY) ?? "[]",
+      ) as unknown;
+      if (Array.isArray(storedGenres)) {
+        const known = storedGenres.filter((genre): genre is string =>
+          (STEAM_GENRES as readonly unknown[]).includes(genre),
+        );
+        genresRef.current = known;
+        setGenres(known);
+      }
       const stored = window.localStorage.getItem(STORAGE_KEY);
       if (stored) {
-        const parsed = JSON.parse(stored) as StatsSnapshot & {
-          gamesPlayedToday?: number;
-        };
-        if (
-          typeof parsed.lossesToday !== "number" &&
-          typeof parsed.gamesPlayedToday === "number"
-        ) {
-          parsed.lossesToday = parsed.gamesPlayedToday;
-          delete parsed.gamesPlayedToday;
-        }
-        setStats(normalizeStats(parsed));
+        dispatch({
+          type: "hydrate",
+          stats: readStoredStats(JSON.parse(stored), getToday()),
+          today: getToday(),
+        });
       }
     } catch {
-      setStats(getDefaultStats());
+      // Stats that are not even JSON fall back to the reducer's defaults.
     } finally {
       setStatsLoaded(true);
     }
@@ -107,16 +252,29 @@ export function SteamGameViewer() {
 
   useEffect(() => {
     if (!statsLoaded || typeof window === "undefined") return;
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(serializeStats(stats)),
+    );
   }, [stats, statsLoaded]);
 
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") {
+        dispatch({ type: "day-rollover", today: getToday() });
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibility);
+  }, []);
+
   useEffect(() => {
     if (typeof window === "undefined") return;
     try {
       const stored = window.localStorage.getItem(RECENT_APPS_KEY);
       if (stored) {
-        const parsed = JSON.parse(stored) as number[];
-        setRecentAppIds(parsed.filter((id) => Number.isFinite(id)));
+        setRecentAppIds(parseRecentAppIds(JSON.parse(stored)) ?? []);
       }
     } catch {
       setRecentAppIds([]);
@@ -133,420 +291,992 @@ export function SteamGameViewer() {
     recentAppIdsRef.current = recentAppIds;
   }, [recentAppIds]);
 
-  const dailyLossLimitReached =
-    !isDevMode && stats.lossesToday >= DAILY_LOSS_LIMIT;
+  const profileSync = useProfileSync({
+    stats,
+    recentAppIds,
+    today: getToday(),
+    ready: statsLoaded,
+    onMerged: (merged, mergedAppIds) => {
+      dispatch({ type: "hydrate", stats: merged, today: getToday() });
+      recentAppIdsRef.current = mergedAppIds;
+      setRecentAppIds(mergedAppIds);
+    },
+  });
 
-  const fetchGame = useCallback(async () => {
-    if (!statsLoaded) return;
-    if (dailyLossLimitReached) {
-      setState((prev) => ({
-        status: "error",
-        game: prev.game,
-        message: "Daily loss limit reached. Come back tomorrow.",
-      }));
-      return;
-    }
+  // Deals carry the profile so the server can put rounds on the leaderboard
+  // before the player sees them.
+  const profileRef = useRef<DeviceCredentials | null>(null);
+  useEffect(() => {
+    profileRef.current = profileSync.profile;
+  }, [profileSync.profile]);
 
-    setState((prev) => ({
-      status: "loading",
-      game: prev.game,
-    }));
+  const roundHistory = useRoundHistory();
 
-    try {
-      const params = new URLSearchParams();
-      const excludeList = recentAppIdsRef.current;
-      if (excludeList.length > 0) {
-        params.set("exclude", excludeList.slice(0, 15).join(","));
-      }
-      const response = await fetch(
-        params.toString() ? `/api/game?${params.toString()}` : "/api/game",
-        {
-        method: "GET",
-        cache: "no-store",
-        },
-      );
+  const dailyLossLimitReached = !isDevMode && isDailyLossLimitReached(stats);
 
-      if (!response.ok) {
-        const details = (await response.json().catch(() => null)) as
-          | { error?: string }
-          | null;
-        throw new Error(
-          details?.error ??
-            `Steam API returned an error (status ${response.status})`,
-        );
+  const fetchGame = useCallback(
+    async (skipped?: boolean) => {
+      if (!statsLoaded) return;
+      if (dailyLossLimitReached) {
+        setState((prev) => ({
+          status: "error",
+          game: prev.game,
+          message: translate(localeRef.current, "round.lossLimit"),
+        }));
+        return;
       }
 
-      const game = (await response.json()) as SteamGame;
-      setState({ status: "idle", game });
-      setGuesses([]);
-      setCurrentGuess("");
-      setDidWin(false);
-      setGameResolved(false);
-      gameResolvedRef.current = false;
-      setRecentAppIds((prev) => {
-        const filtered = prev.filter((id) => id !== game.appId);
-        const next = [game.appId, ...filtered].slice(0, RECENT_APPS_LIMIT);
-        recentAppIdsRef.current = next;
-        return next;
-      });
-    } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "Unable to fetch game";
       setState((prev) => ({
-        status: "error",
+        status: "loading",
         game: prev.game,
-        message,
       }));
-    }
-  }, [dailyLossLimitReached, statsLoaded]);
 
+      try {
+        const roundDifficulty = difficultyRef.current;
+        const roundTarget = targetRef.current;
+        const roundRuleSet = ruleSetRef.current;
+        const filters = getRoundFilters(
+          roundDifficulty,
+          roundTarget,
+          roundRuleSet,
+          genresRef.current,
+          localeRef.current,
+          matureRef.current,
+        );
+
+        // A prefetched round for the same filters only needs starting; one
+        // that failed or went stale falls back to dealing a fresh round.
+        const prefetched = prefetchRef.current;
+        prefetchRef.current = null;
+        const ready =
+          prefetched?.filters === filters &&
+          Date.now() - prefetched.fetchedAt < PREFETCHED_ROUND_TTL_MS
+            ? await prefetched.round
+            : null;
+        const profileHeaders = profileRef.current
+          ? getDeviceHeaders(profileRef.current)
+          : undefined;
+        let start: RoundStart;
+        if (ready) {
+          await requestRoundStart(
+            ready.token,
+            Intl.DateTimeFormat().resolvedOptions().timeZone,
+            skipped === true,
+          );
+          start = ready;
+        } else {
+          const url = getRoundUrl(filters, recentAppIdsRef.current);
+          start = await requestRound(
+            skipped ? `${url}&skip=1` : url,
+            profileHeaders,
+          );
+        }
+
+        const { token, game, hintCount } = start;
+        const nextExclude = [
+          game.appId,
+          ...recentAppIdsRef.current.filter((id) => id !== game.appId),
+        ];
+        prefetchRef.current = {
+          filters,
+          fetchedAt: Date.now(),
+          round: requestRound(
+            `${getRoundUrl(filters, nextExclude)}&prefetch=1`,
+            profileHeaders,
+          ).catch(() => null),
+        };
+        setState({ status: "idle", game });
+        setRoundToken(token);
+        setHintsLeft(hintCount);
+        setCurrentGuess("");
+        dispatch({
+          type: "start",
+          appId: game.appId,
+          difficulty: roundDifficulty,
+          target: roundTarget,
+          ruleSet: roundRuleSet,
+          today: getToday(),
+        });
+        setRecentAppIds((prev) => {
+          const filtered = prev.filter((id) => id !== game.appId);
+          const next = [game.appId, ...filtered].slice(0, RECENT_APPS_LIMIT);
+          recentAppIdsRef.current = next;
+          return next;
+        });
+      } catch (error) {
+        const message =
+          error instanceof ApiError && error.code === "loss-limit"
+            ? translate(localeRef.current, "round.lossLimit")
+            : error instanceof ApiError && error.code === "steam-throttled"
+              ? translate(localeRef.current, "round.steamThrottled")
+              : error instanceof Error
+                ? error.message
+                : translate(localeRef.current, "round.fetchFailed");
+        setState((prev) => ({
+          status: "error",
+          game: prev.game,
+          message,
+        }));
+      }
+    },
+    [dailyLossLimitReached, statsLoaded],
+  );
+
+  // The first deal waits for the profile too, so it can count on the board.
   useEffect(() => {
-    if (!statsLoaded) return;
+    if (!statsLoaded || !profileSync.loaded) return;
     fetchGame();
-  }, [fetchGame, statsLoaded]);
+  }, [fetchGame, statsLoaded, profileSync.loaded]);
+
+  const guesses = round.guesses;
+  const slotsUsed = getSlotsUsed(round);
+  const didWin = round.phase === "won";
+  const gameResolved = isRoundOver(round);
+  const actualScore = round.actualScore;
+  const rules = getGuessTargetRules(round.target, round.ruleSet);
+  const maxGuesses = getMaxGuesses(round);
 
-  const trimmedGuess = currentGuess.trim();
-  const numericGuess = Number(trimmedGuess);
-  const guessIsNumber =
-    trimmedGuess.length > 0 &&
-    Number.isFinite(numericGuess) &&
-    numericGuess >= 0 &&
-    numericGuess <= 100;
+  const parsedGuess = rules.parse(currentGuess);
+  const guessIsNumber = parsedGuess !== null && rules.isValid(parsedGuess);
 
   const canSubmitGuess =
     state.status === "idle" &&
     Boolean(state.game) &&
-    guesses.length < MAX_GUESSES &&
-    !gameResolved &&
-    !didWin &&
+    Boolean(roundToken) &&
+    !submitting &&
+    round.phase === "playing" &&
     guessIsNumber;
 
-  const finalizeGame = useCallback(
-    (result: "win" | "loss") => {
-      if (gameResolvedRef.current) return;
-      gameResolvedRef.current = true;
-      setGameResolved(true);
-
-      setStats((prev) => {
-        const normalized = normalizeStats(prev);
-        const today = getToday();
-        const updated: StatsSnapshot = {
-          ...normalized,
-          lastPlayedDate: today,
-          lossesToday:
-            result === "loss"
-              ? normalized.lossesToday + 1
-              : normalized.lossesToday,
-        };
+  const exportBackup = () =>
+    createBackup(stats, recentAppIds, roundHistory.history);
 
-        if (result === "win") {
-          updated.correctGames += 1;
-          updated.currentStreak += 1;
-          updated.bestStreak = Math.max(
-            updated.bestStreak,
-            updated.currentStreak,
-          );
-        } else {
-          updated.incorrectGames += 1;
-          updated.currentStreak = 0;
-        }
+  const importBackup = (raw: unknown) => {
+    const backup = parseBackup(raw, getToday(), roundHistory.limit);
+    if (!backup) return false;
+    dispatch({ type: "hydrate", stats: backup.stats, today: getToday() });
+    recentAppIdsRef.current = backup.recentAppIds;
+    setRecentAppIds(backup.recentAppIds);
+    roundHistory.replace(backup.history);
+    return true;
+  };
 
-        return updated;
-      });
-    },
-    [],
-  );
+  const recordHistory = (finished: RoundState) => {
+    if (!state.game) return;
+    const entry = createRoundRecord(finished, state.game.name, getToday());
+    if (entry) roundHistory.record(entry);
+  };
 
-  const handleSubmitGuess = (event: FormEvent<HTMLFormElement>) => {
+  const handleSubmitGuess = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!canSubmitGuess) return;
-    const value = Number(currentGuess.trim());
-
-    setStats((prev) => {
-      const normalized = normalizeStats(prev);
-      return {
-        ...normalized,
-        totalGuesses: normalized.totalGuesses + 1,
-      };
-    });
+    if (!canSubmitGuess || !roundToken || parsedGuess === null) return;
+    const value = parsedGuess;
+    setSubmitting(true);
 
-    const reviewScore = state.game?.reviewScore;
-    const nextGuesses = [...guesses, value];
-    setGuesses(nextGuesses);
-
-    if (typeof reviewScore === "number") {
-      const diff = Math.abs(value - reviewScore);
-      if (diff <= WIN_THRESHOLD) {
-        setDidWin(true);
-        finalizeGame("win");
-      } else if (nextGuesses.length >= MAX_GUESSES) {
-        finalizeGame("loss");
+    try {
+      const result = await requestGuess(roundToken, value);
+      const today = getToday();
+      setRoundToken(result.token);
+      dispatch({ type: "guess", value, outcome: result.outcome, today });
+      setCurrentGuess("");
+
+      if (result.resolved) {
+        dispatch({ type: "resolve", actualScore: result.actualScore, today });
+        recordHistory(
+          reduceRound(
+            reduceRound(round, {
+              type: "guess",
+              value,
+              outcome: result.outcome,
+            }),
+            { type: "resolve", actualScore: result.actualScore },
+          ),
+        );
       }
-    } else if (nextGuesses.length >= MAX_GUESSES) {
-      finalizeGame("loss");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : t("round.guessFailed");
+      setState((prev) => ({
+        status: "error",
+        game: prev.game,
+        message,
+      }));
+    } finally {
+      setSubmitting(false);
     }
+  };
+
+  const handleBuyHint = async () => {
+    if (!roundToken || submitting || getHintError(round)) return;
+    setSubmitting(true);
 
-    setCurrentGuess("");
+    try {
+      const result = await requestHint(roundToken);
+      setRoundToken(result.token);
+      setHintsLeft(result.hintsLeft);
+      dispatch({ type: "hint", hint: result.hint, today: getToday() });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : t("round.hintFailed");
+      setState((prev) => ({
+        status: "error",
+        game: prev.game,
+        message,
+      }));
+    } finally {
+      setSubmitting(false);
+    }
   };
 
   const guessCounterLabel = useMemo(() => {
-    const current = Math.min(
-      didWin ? guesses.length : guesses.length + 1,
-      MAX_GUESSES,
-    );
-    return `${current}/${MAX_GUESSES}`;
-  }, [didWin, guesses.length]);
+    const current = Math.min(didWin ? slotsUsed : slotsUsed + 1, maxGuesses);
+    return `${current}/${maxGuesses}`;
+  }, [didWin, slotsUsed, maxGuesses]);
+
+  const targetLabel = t(`targets.${round.target}.label`);
+  const reviewLocale = state.game?.reviewLocale ?? locale;
+  const usedReviewFallback =
+    round.target === "score" && reviewLocale !== locale;
 
   const statusLabel = useMemo(() => {
-    if (state.status === "loading") return "Booting Steam servers…";
+    if (state.status === "loading") return t("round.loading");
     if (state.status === "error") return state.message;
-    if (dailyLossLimitReached) {
-      return "Daily loss limit reached. Come back tomorrow.";
-    }
-    if (didWin) return "Nice! You nailed the English review percentage.";
-    if (guesses.length >= MAX_GUESSES) {
-      return "Out of guesses. Hit New Game to try another title.";
-    }
-    return "Guess the English Steam review % (0 — 100).";
-  }, [state, didWin, guesses.length, dailyLossLimitReached]);
+    if (dailyLossLimitReached) return t("round.lossLimit");
+    if (didWin) return t("round.won", { target: targetLabel });
+    if (slotsUsed >= maxGuesses) return t("round.outOfGuesses");
+    return t(`targets.${round.target}.prompt`, {
+      language: t(`language.${reviewLocale}`),
+    });
+  }, [
+    state,
+    didWin,
+    slotsUsed,
+    maxGuesses,
+    dailyLossLimitReached,
+    round.target,
+    reviewLocale,
+    targetLabel,
+    t,
+  ]);
 
-  const actualScore = state.game?.reviewScore ?? null;
   const revealAnswer = gameResolved && actualScore !== null;
 
+  // An untouched round (no guesses or hints, or a failed fetch) is replaced
+  // right away when the filters change; otherwise they apply from the next
+  // game so switching never costs a loss. The server draws the same line.
+  const refetchIfUntouched = () => {
+    const untouched = round.phase === "playing" && getSlotsUsed(round) === 0;
+    if (untouched || state.status === "error") {
+      fetchGame();
+    }
+  };
+
+  const handleDifficultyChange = (next: Difficulty) => {
+    difficultyRef.current = next;
+    setDifficulty(next);
+    window.localStorage.setItem(DIFFICULTY_KEY, next);
+    refetchIfUntouched();
+  };
+
+  const handleLocaleChange = (next: Locale) => {
+    localeRef.current = next;
+    setLocale(next);
+    window.localStorage.setItem(LOCALE_KEY, next);
+    document.documentElement.lang = next;
+    refetchIfUntouched();
+  };
+
+  const handleTargetChange = (next: GuessTarget) => {
+    targetRef.current = next;
+    setTarget(next);
+    window.localStorage.setItem(TARGET_KEY, next);
+    refetchIfUntouched();
+  };
+
+  const handleRuleSetChange = (next: RuleSetId) => {
+    ruleSetRef.current = next;
+    setRuleSet(next);
+    window.localStorage.setItem(RULES_KEY, next);
+    refetchIfUntouched();
+  };
+
+  const handleGenresChange = (next: string[]) => {
+    genresRef.current = next;
+    setGenres(next);
+    window.localStorage.setItem(GENRES_KEY, JSON.stringify(next));
+    refetchIfUntouched();
+  };
+
+  const handleMatureChange = (next: boolean) => {
+    matureRef.current = next;
+    setMature(next);
+    window.localStorage.setItem(MATURE_KEY, String(next));
+    refetchIfUntouched();
+  };
+
   const handleNewGame = () => {
     if (!statsLoaded) return;
-    if (state.status === "idle" && state.game && !gameResolved) {
-      finalizeGame("loss");
+    const skipped =
+      state.status === "idle" &&
+      Boolean(state.game) &&
+      round.phase === "playing";
+    if (state.status === "idle" && state.game) {
+      dispatch({ type: "skip", today: getToday() });
+      if (skipped) recordHistory(reduceRound(round, { type: "skip" }));
     }
-    fetchGame();
+    fetchGame(skipped);
   };
 
   return (
-    <section className="mx-auto flex w-full max-w-[420px] flex-col gap-2 bg-[#cfd5e0] p-2 text-xs text-[#0b1420] sm:max-w-2xl sm:rounded-[32px] sm:border-4 sm:border-[#050a12] sm:p-6 sm:text-base sm:shadow-[18px_18px_0_#050a12]">
-      <header className="relative flex items-center justify-between border-b-2 border-[#050a12] pb-2 sm:border-b-4 sm:pb-3">
-        <div className="flex items-center gap-1 text-lg font-black tracking-widest text-[#0ea5e9] sm:gap-2 sm:text-2xl">
-          <span className="text-[#facc15]">?</span>
-          STEAMCODLE
-        </div>
-        <button
-          type="button"
-          aria-label="Toggle stats"
-          onClick={() => setShowStats((prev) => !prev)}
-          className="rounded-2xl border-2 border-[#050a12] bg-[#0f172a] px-2.5 py-1.5 text-[10px] font-semibold text-white transition hover:bg-[#1d283a] sm:text-xs"
-        >
-          <div className="flex items-center gap-1 sm:gap-2">
-            <SignalDot filled />
-            <SignalDot filled />
-            <SignalDot filled={state.status === "idle"} />
+    <LocaleContext value={localeValue}>
+      <section className="mx-auto flex w-full max-w-[420px] flex-col gap-2 bg-[#cfd5e0] p-2 text-xs text-[#0b1420] sm:max-w-2xl sm:rounded-[32px] sm:border-4 sm:border-[#050a12] sm:p-6 sm:text-base sm:shadow-[18px_18px_0_#050a12]">
+        <header className="relative flex items-center justify-between border-b-2 border-[#050a12] pb-2 sm:border-b-4 sm:pb-3">
+          <div className="flex items-center gap-1 text-lg font-black tracking-widest text-[#0ea5e9] sm:gap-2 sm:text-2xl">
+            <span className="text-[#facc15]">?</span>
+            STEAMCODLE
           </div>
-        </button>
-        {showStats ? (
-          <StatsPanel
-            stats={stats}
-            isDevMode={isDevMode}
-            onClose={() => setShowStats(false)}
-          />
-        ) : null}
-      </header>
+          <div className="flex items-center gap-2">
+            <LocalePicker locale={locale} onChange={handleLocaleChange} />
+            <button
+              type="button"
+              aria-label={t("stats.toggle")}
+              onClick={() => setShowStats((prev) => !prev)}
+              className="rounded-2xl border-2 border-[#050a12] bg-[#0f172a] px-2.5 py-1.5 text-[10px] font-semibold text-white transition hover:bg-[#1d283a] sm:text-xs"
+            >
+              <div className="flex items-center gap-1 sm:gap-2">
+                <SignalDot filled />
+                <SignalDot filled />
+                <SignalDot filled={state.status === "idle"} />
+              </div>
+            </button>
+          </div>
+          {showStats ? (
+            <StatsPanel
+              stats={stats}
+              isDevMode={isDevMode}
+              roundHistory={roundHistory}
+              profileSync={profileSync}
+              exportBackup={exportBackup}
+              importBackup={importBackup}
+              onClose={() => setShowStats(false)}
+            />
+          ) : null}
+        </header>
 
-      <div className="flex justify-center">
-        {state.game ? <SteamGameCard game={state.game} /> : <CardPlaceholder />}
-      </div>
+        <ModeTabs mode={mode} onChange={setMode} />
 
-      <div className="flex-shrink-0 text-center">
-        <p className="text-sm font-semibold sm:text-lg">
-          Review Guess: {guessCounterLabel}
-        </p>
-        {revealAnswer ? (
-          <p className="text-[11px] font-bold text-[#0ea5e9] sm:text-sm">
-            Actual: {actualScore}%
-          </p>
+        {mode === "daily" ? (
+          <DailyPuzzle
+            profile={profileSync.profile}
+            profileLoaded={profileSync.loaded}
+          />
+        ) : mode === "timeAttack" ? (
+          <TimeAttack />
+        ) : mode === "versus" ? (
+          <RoomPlay />
+        ) : mode === "leaders" ? (
+          <LeaderboardPanel profile={profileSync.profile} />
         ) : (
-          <p className="text-[11px] text-[#4b5563] sm:text-sm">
-            Hit within ±2% of the English Steam score
-          </p>
+          <>
+            <TargetPicker
+              target={target}
+              onChange={handleTargetChange}
+              disabled={state.status === "loading" || submitting}
+            />
+
+            <RuleSetPicker
+              ruleSet={ruleSet}
+              onChange={handleRuleSetChange}
+              disabled={state.status === "loading" || submitting}
+            />
+
+            <DifficultyPicker
+              difficulty={difficulty}
+              onChange={handleDifficultyChange}
+              disabled={state.status === "loading" || submitting}
+            />
+
+            <GenrePicker
+              genres={genres}
+              onChange={handleGenresChange}
+              disabled={state.status === "loading" || submitting}
+            />
+
+            <MatureToggle
+              mature={mature}
+              onChange={handleMatureChange}
+              disabled={state.status === "loading" || submitting}
+            />
+
+            <div className="flex justify-center">
+              {state.game ? (
+                <SteamGameCard game={state.game} />
+              ) : (
+                <CardPlaceholder />
+              )}
+            </div>
+
+            <div className="flex-shrink-0 text-center">
+              <p className="text-sm font-semibold sm:text-lg">
+                {t("round.counter", {
+                  target: targetLabel,
+                  counter: guessCounterLabel,
+                })}
+              </p>
+              {revealAnswer ? (
+                <p className="text-[11px] font-bold text-[#0ea5e9] sm:text-sm">
+                  {t("round.actual", { value: rules.format(actualScore) })}
+                  {round.points !== null
+                    ? ` · ${t("round.points", { points: round.points })}`
+                    : ""}
+                </p>
+              ) : (
+                <p className="text-[11px] text-[#4b5563] sm:text-sm">
+                  {t(`targets.${round.target}.tolerance`, rules.messageValues)}
+                </p>
+              )}
+              {usedReviewFallback ? (
+                <p className="text-[10px] italic text-[#4b5563] sm:text-xs">
+                  {t("locale.reviewFallback", {
+                    language: t(`language.${locale}`),
+                  })}
+                </p>
+              ) : null}
+            </div>
+
+            <HintPanel
+              hints={round.hints}
+              hintsLeft={hintsLeft}
+              onBuy={handleBuyHint}
+              disabled={
+                state.status !== "idle" ||
+                submitting ||
+                getHintError(round) !== null
+              }
+            />
+
+            <GuessList
+              guesses={guesses}
+              maxGuesses={maxGuesses - round.hints.length}
+              format={rules.format}
+            />
+
+            <GuessForm
+              value={currentGuess}
+              onChange={setCurrentGuess}
+              onSubmit={handleSubmitGuess}
+              inputDisabled={
+                slotsUsed >= maxGuesses ||
+                state.status !== "idle" ||
+                submitting ||
+                didWin
+              }
+              canSubmit={canSubmitGuess}
+              placeholder={t(`targets.${round.target}.placeholder`)}
+            />
+
+            <div className="flex flex-shrink-0 flex-wrap items-center justify-between gap-2 border-t-2 border-[#050a12] pt-2 text-[9px] font-semibold uppercase tracking-[0.4em] text-[#4b5563] sm:border-t-4 sm:pt-3 sm:text-xs">
+              <button
+                type="button"
+                onClick={handleNewGame}
+                className="rounded-full border-2 border-[#050a12] bg-[#0f172a] px-4 py-2 text-xs text-white transition hover:bg-[#1d283a] disabled:cursor-not-allowed disabled:opacity-60 sm:text-sm"
+                disabled={state.status === "loading" || dailyLossLimitReached}
+              >
+                {didWin || gameResolved ? t("round.newGame") : t("round.skip")}
+              </button>
+              {revealAnswer && state.game ? (
+                <ShareButton
+                  title={
+                    round.target === DEFAULT_GUESS_TARGET
+                      ? t("round.endlessTitle", { name: state.game.name })
+                      : t("round.endlessTargetTitle", {
+                          target: targetLabel,
+                          name: state.game.name,
+                        })
+                  }
+                  date={getToday()}
+                  guesses={guesses}
+                  maxGuesses={maxGuesses}
+                  actualScore={actualScore}
+                  won={didWin}
+                  target={round.target}
+                  ruleSet={round.ruleSet}
+                  hintsUsed={round.hints.length}
+                />
+              ) : null}
+              <span className="text-[#0b1420]">{t("round.tagline")}</span>
+            </div>
+
+            <p className="text-center text-[11px] text-[#0f172a] sm:text-sm">
+              {statusLabel}
+            </p>
+          </>
         )}
-      </div>
+      </section>
+    </LocaleContext>
+  );
+}
 
-      <ul className="flex w-full max-w-md flex-shrink-0 flex-col gap-2 self-center sm:max-w-lg">
-        {Array.from({ length: MAX_GUESSES }).map((_, index) => {
-          const guess = guesses[index];
-          const { trend, tone } = getTrendData(guess, actualScore);
-          return (
-            <li
-              key={index}
-              className={`flex items-center justify-between rounded-full border-2 border-[#050a12] px-3 py-1 text-sm font-black tracking-wide text-white transition sm:px-4 sm:py-2 sm:text-lg ${tone.bg}`}
-            >
-              <span className={`${tone.text} transition`}>{typeof guess === "number" ? `${guess}%` : "\u00A0"}</span>
-              <span className={`text-base font-semibold sm:text-xl ${tone.text}`}>{trend}</span>
-            </li>
-          );
-        })}
-      </ul>
-
-      <form
-        className="flex w-full max-w-md flex-shrink-0 flex-wrap items-center gap-3 self-center sm:max-w-lg"
-        onSubmit={handleSubmitGuess}
-      >
-        <label className="flex flex-1 items-center rounded-full border-2 border-[#050a12] bg-white px-3 py-1.5 text-[11px] text-[#0b1420] sm:py-2 sm:text-sm">
-          <span className="mr-2 text-[#0ea5e9]">★</span>
-          <input
-            type="text"
-            className="w-full bg-transparent text-base font-semibold uppercase tracking-wide text-[#0b1420] placeholder:text-[#94a3b8] focus:outline-none sm:text-lg"
-            placeholder="Enter a % from 0-100"
-            value={currentGuess}
-            onChange={(event) => setCurrentGuess(event.target.value)}
-            disabled={
-              guesses.length >= MAX_GUESSES ||
-              state.status !== "idle" ||
-              didWin
-            }
-          />
-        </label>
+function ModeTabs({
+  mode,
+  onChange,
+}: {
+  mode: PlayMode;
+  onChange: (mode: PlayMode) => void;
+}) {
+  const { t } = useLocale();
+  return (
+    <div className="flex justify-center gap-2" role="tablist">
+      {PLAY_MODES.map((option) => (
         <button
-          type="submit"
-          disabled={!canSubmitGuess}
-          className="rounded-full border-2 border-[#050a12] bg-[#0ea5e9] px-3 py-2 text-[11px] font-black uppercase tracking-widest text-white transition hover:bg-[#0284c7] disabled:cursor-not-allowed disabled:opacity-60 sm:px-6 sm:text-sm"
+          key={option}
+          type="button"
+          role="tab"
+          aria-selected={mode === option}
+          onClick={() => onChange(option)}
+          className={`rounded-full border-2 border-[#050a12] px-4 py-1 text-[10px] font-black uppercase tracking-[0.3em] transition sm:text-xs ${
+            mode === option
+              ? "bg-[#0ea5e9] text-white"
+              : "bg-white text-[#0b1420] hover:bg-[#e2e8f0]"
+          }`}
         >
-          Submit
+          {t(`mode.${option}`)}
         </button>
-      </form>
+      ))}
+    </div>
+  );
+}
+
+function LocalePicker({
+  locale,
+  onChange,
+}: {
+  locale: Locale;
+  onChange: (locale: Locale) => void;
+}) {
+  const { t } = useLocale();
+  return (
+    <select
+      aria-label={t("locale.picker")}
+      value={locale}
+      onChange={(event) => {
+        if (isLocale(event.target.value)) onChange(event.target.value);
+      }}
+      className="rounded-2xl border-2 border-[#050a12] bg-white px-2 py-1 text-[10px] font-semibold text-[#0b1420] sm:text-xs"
+    >
+      {LOCALES.map((option) => (
+        <option key={option} value={option}>
+          {LOCALE_SETTINGS[option].nativeName}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function HintPanel({
+  hints,
+  hintsLeft,
+  onBuy,
+  disabled,
+}: {
+  hints: Hint[];
+  hintsLeft: number;
+  onBuy: () => void;
+  disabled: boolean;
+}) {
+  const { t } = useLocale();
+  if (hints.length === 0 && hintsLeft === 0) return null;
 
-      <div className="flex flex-shrink-0 flex-wrap items-center justify-between gap-2 border-t-2 border-[#050a12] pt-2 text-[9px] font-semibold uppercase tracking-[0.4em] text-[#4b5563] sm:border-t-4 sm:pt-3 sm:text-xs">
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-1 text-[10px] sm:text-xs">
+      {hints.map((hint) => (
+        <span
+          key={hint.kind}
+          className="rounded-full border-2 border-[#050a12] bg-[#fef9c3] px-2 py-0.5 font-semibold text-[#0b1420]"
+        >
+          {hint.label}: {hint.value}
+        </span>
+      ))}
+      {hintsLeft > 0 ? (
         <button
           type="button"
-          onClick={handleNewGame}
-          className="rounded-full border-2 border-[#050a12] bg-[#0f172a] px-4 py-2 text-xs text-white transition hover:bg-[#1d283a] disabled:cursor-not-allowed disabled:opacity-60 sm:text-sm"
-          disabled={state.status === "loading" || dailyLossLimitReached}
+          onClick={onBuy}
+          disabled={disabled}
+          className="rounded-full border-2 border-dashed border-[#050a12] bg-white px-2 py-0.5 font-bold uppercase tracking-wide text-[#0b1420] transition hover:bg-[#e2e8f0] disabled:cursor-not-allowed disabled:opacity-60"
         >
-          {didWin || gameResolved ? "New Game" : "Skip"}
+          {t("hints.buy")}
         </button>
-        <span className="text-[#0b1420]">Community Score Challenge</span>
-      </div>
+      ) : null}
+    </div>
+  );
+}
 
-      <p className="text-center text-[11px] text-[#0f172a] sm:text-sm">
-        {statusLabel}
-      </p>
-    </section>
+function TargetPicker({
+  target,
+  onChange,
+  disabled,
+}: {
+  target: GuessTarget;
+  onChange: (target: GuessTarget) => void;
+  disabled: boolean;
+}) {
+  const { t } = useLocale();
+  return (
+    <div className="flex flex-wrap justify-center gap-1" role="radiogroup">
+      {GUESS_TARGETS.map((option) => (
+        <button
+          key={option}
+          type="button"
+          role="radio"
+          aria-checked={target === option}
+          disabled={disabled}
+          onClick={() => onChange(option)}
+          className={`rounded-full border-2 border-[#050a12] px-3 py-0.5 text-[9px] font-bold uppercase tracking-[0.2em] transition disabled:cursor-not-allowed disabled:opacity-60 sm:text-[11px] ${
+            target === option
+              ? "bg-[#facc15] text-[#0b1420]"
+              : "bg-white text-[#0b1420] hover:bg-[#e2e8f0]"
+          }`}
+        >
+          {t(`targets.${option}.label`)}
+        </button>
+      ))}
+    </div>
   );
 }
 
-function SignalDot({ filled }: { filled: boolean }) {
+function RuleSetPicker({
+  ruleSet,
+  onChange,
+  disabled,
+}: {
+  ruleSet: RuleSetId;
+  onChange: (ruleSet: RuleSetId) => void;
+  disabled: boolean;
+}) {
+  const { t } = useLocale();
   return (
-    <span
-      className={`h-2 w-6 rounded-[8px] border-2 border-[#050a12] ${
-        filled ? "bg-[#0ea5e9]" : "bg-transparent"
-      }`}
-    />
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex justify-center gap-1" role="radiogroup">
+        {RULE_SETS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={ruleSet === option}
+            disabled={disabled}
+            onClick={() => onChange(option)}
+            className={`rounded-full border-2 border-[#050a12] px-3 py-0.5 text-[9px] font-bold uppercase tracking-[0.2em] transition disabled:cursor-not-allowed disabled:opacity-60 sm:text-[11px] ${
+              ruleSet === option
+                ? "bg-[#0ea5e9] text-white"
+                : "bg-white text-[#0b1420] hover:bg-[#e2e8f0]"
+            }`}
+          >
+            {t(`rules.${option}.label`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-[#4b5563] sm:text-xs">
+        {t(`rules.${ruleSet}.description`)}
+        {ruleSet === DEFAULT_RULE_SET ? "" : ` · ${t("rules.leaderboardNote")}`}
+      </p>
+    </div>
   );
 }
 
-function CardPlaceholder() {
+function DifficultyPicker({
+  difficulty,
+  onChange,
+  disabled,
+}: {
+  difficulty: Difficulty;
+  onChange: (difficulty: Difficulty) => void;
+  disabled: boolean;
+}) {
+  const { t } = useLocale();
   return (
-    <div className="h-32 w-full max-w-[200px] animate-pulse rounded-[24px] border-4 border-dashed border-[#7c8899] bg-[#e2e8f0] sm:h-64 sm:max-w-xs sm:rounded-[32px]" />
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex justify-center gap-1" role="radiogroup">
+        {DIFFICULTIES.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={difficulty === option}
+            disabled={disabled}
+            onClick={() => onChange(option)}
+            className={`rounded-full border-2 border-[#050a12] px-3 py-0.5 text-[9px] font-bold uppercase tracking-[0.2em] transition disabled:cursor-not-allowed disabled:opacity-60 sm:text-[11px] ${
+              difficulty === option
+                ? "bg-[#0f172a] text-white"
+                : "bg-white text-[#0b1420] hover:bg-[#e2e8f0]"
+            }`}
+          >
+            {t(`difficulty.${option}.label`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-[#4b5563] sm:text-xs">
+        {t(`difficulty.${difficulty}.description`)}
+      </p>
+    </div>
   );
 }
 
-function getTrendData(guess?: number, actual?: number | null) {
-  if (typeof guess !== "number" || typeof actual !== "number") {
-    return {
-      trend: "",
-      tone: { bg: "bg-[#7c8899]", text: "text-white" },
-    };
-  }
+function GenrePicker({
+  genres,
+  onChange,
+  disabled,
+}: {
+  genres: string[];
+  onChange: (genres: string[]) => void;
+  disabled: boolean;
+}) {
+  const { t } = useLocale();
+  const toggle = (genre: string) => {
+    onChange(
+      genres.includes(genre)
+        ? genres.filter((selected) => selected !== genre)
+        : [...genres, genre],
+    );
+  };
 
-  if (Math.abs(guess - actual) <= WIN_THRESHOLD) {
-    return {
-      trend: "✔",
-      tone: {
-        bg: "bg-emerald-600 animate-pulse",
-        text: "text-white",
-      },
-    };
-  }
+  return (
+    <details className="self-center text-center text-[10px] sm:text-xs">
+      <summary className="cursor-pointer font-semibold uppercase tracking-[0.2em] text-[#0b1420]">
+        {genres.length > 0
+          ? t("genres.selected", { genres: genres.join(", ") })
+          : t("genres.any")}
+      </summary>
+      <div className="mt-2 flex max-w-md flex-wrap justify-center gap-1">
+        {STEAM_GENRES.map((genre) => {
+          const selected = genres.includes(genre);
+          return (
+            <button
+              key={genre}
+              type="button"
+              aria-pressed={selected}
+              disabled={
+                disabled || (!selected && genres.length >= MAX_GENRE_FILTERS)
+              }
+              onClick={() => toggle(genre)}
+              className={`rounded-full border-2 border-[#050a12] px-2 py-0.5 text-[9px] font-bold uppercase tracking-wide transition disabled:cursor-not-allowed disabled:opacity-60 sm:text-[11px] ${
+                selected
+                  ? "bg-[#0ea5e9] text-white"
+                  : "bg-white text-[#0b1420] hover:bg-[#e2e8f0]"
+              }`}
+            >
+              {genre}
+            </button>
+          );
+        })}
+        {genres.length > 0 ? (
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange([])}
+            className="px-2 py-0.5 text-[9px] font-semibold uppercase text-[#475569] underline hover:text-[#0b1420] sm:text-[11px]"
+          >
+            {t("genres.clear")}
+          </button>
+        ) : null}
+      </div>
+    </details>
+  );
+}
 
-  if (guess > actual) {
-    return {
-      trend: "▼",
-      tone: {
-        bg: "bg-amber-500/80",
-        text: "text-[#0b1420]",
-      },
-    };
-  }
+function MatureToggle({
+  mature,
+  onChange,
+  disabled,
+}: {
+  mature: boolean;
+  onChange: (mature: boolean) => void;
+  disabled: boolean;
+}) {
+  const { t } = useLocale();
+  return (
+    <label
+      title={t("mature.hint")}
+      className="flex items-center justify-center gap-1 text-[10px] font-semibold uppercase tracking-[0.2em] text-[#0b1420] sm:text-xs"
+    >
+      <input
+        type="checkbox"
+        checked={mature}
+        disabled={disabled}
+        onChange={(event) => onChange(event.target.checked)}
+        className="accent-[#0ea5e9]"
+      />
+      {t("mature.label")}
+    </label>
+  );
+}
 
-  return {
-    trend: "▲",
-    tone: {
-      bg: "bg-rose-600/80",
-      text: "text-white",
-    },
-  };
+function SignalDot({ filled }: { filled: boolean }) {
+  return (
+    <span
+      className={`h-2 w-6 rounded-[8px] border-2 border-[#050a12] ${
+        filled ? "bg-[#0ea5e9]" : "bg-transparent"
+      }`}
+    />
+  );
 }
 
 type StatsPanelProps = {
   stats: StatsSnapshot;
   isDevMode: boolean;
+  roundHistory: RoundHistory;
+  profileSync: ProfileSync;
+  exportBackup: () => StatsBackup;
+  importBackup: (raw: unknown) => boolean;
   onClose: () => void;
 };
 
-function StatsPanel({ stats, isDevMode, onClose }: StatsPanelProps) {
+function StatsPanel({
+  stats,
+  isDevMode,
+  roundHistory,
+  profileSync,
+  exportBackup,
+  importBackup,
+  onClose,
+}: StatsPanelProps) {
+  const { t } = useLocale();
   return (
     <div className="absolute right-0 top-full z-20 mt-3 w-64 rounded-2xl border-2 border-[#050a12] bg-white p-4 text-sm text-[#0b1420] shadow-[12px_12px_0_#050a12]">
       <div className="mb-3 flex items-center justify-between">
         <span className="text-xs font-black uppercase tracking-[0.3em] text-[#0ea5e9]">
-          {isDevMode ? "Stats · Dev" : "Stats"}
+          {isDevMode ? t("stats.titleDev") : t("stats.title")}
         </span>
         <button
           type="button"
           onClick={onClose}
           className="text-xs font-semibold uppercase text-[#475569] hover:text-[#0b1420]"
         >
-          Close
+          {t("stats.close")}
         </button>
       </div>
       <dl className="space-y-2">
         <div className="flex items-center justify-between">
           <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
-            Losses Today
+            {t("stats.lossesToday")}
           </dt>
           <dd className="font-bold text-[#0b1420]">
             {isDevMode
-              ? `${stats.lossesToday} (dev)`
+              ? t("stats.dev", { count: stats.lossesToday })
               : `${Math.min(stats.lossesToday, DAILY_LOSS_LIMIT)}/${DAILY_LOSS_LIMIT}`}
           </dd>
         </div>
         <div className="flex items-center justify-between">
           <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
-            Total Guesses
+            {t("stats.totalGuesses")}
           </dt>
           <dd className="font-bold text-[#0b1420]">{stats.totalGuesses}</dd>
         </div>
         <div className="flex items-center justify-between">
           <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
-            Correct
+            {t("stats.hintsUsed")}
+          </dt>
+          <dd className="font-bold text-[#0b1420]">{stats.totalHints}</dd>
+        </div>
+        <div className="flex items-center justify-between">
+          <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
+            {t("stats.correct")}
           </dt>
           <dd className="font-bold text-emerald-600">{stats.correctGames}</dd>
         </div>
         <div className="flex items-center justify-between">
           <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
-            Incorrect
+            {t("stats.incorrect")}
           </dt>
           <dd className="font-bold text-rose-600">{stats.incorrectGames}</dd>
         </div>
         <div className="flex items-center justify-between">
           <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
-            Current Streak
+            {t("stats.currentStreak")}
           </dt>
           <dd className="font-bold text-[#0b1420]">{stats.currentStreak}</dd>
         </div>
         <div className="flex items-center justify-between">
           <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
-            Best Streak
+            {t("stats.bestStreak")}
           </dt>
           <dd className="font-bold text-[#0b1420]">{stats.bestStreak}</dd>
         </div>
+        <div className="flex items-center justify-between">
+          <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
+            {t("stats.totalPoints")}
+          </dt>
+          <dd className="font-bold text-[#0b1420]">{stats.totalPoints}</dd>
+        </div>
+        <div className="flex items-center justify-between">
+          <dt className="text-[11px] uppercase tracking-[0.2em] text-[#94a3b8]">
+            {t("stats.bestRoundPoints")}
+          </dt>
+          <dd className="font-bold text-[#0b1420]">{stats.bestRoundPoints}</dd>
+        </div>
       </dl>
+      <StreakTable
+        heading={t("stats.rules")}
+        rows={RULE_SETS.map((option) => ({
+          key: option,
+          label: t(`rules.${option}.label`),
+          stats: stats.byRuleSet[option],
+        }))}
+      />
+      <StreakTable
+        heading={t("stats.tier")}
+        rows={DIFFICULTIES.map((difficulty) => ({
+          key: difficulty,
+          label: t(`difficulty.${difficulty}.label`),
+          stats: stats.byDifficulty[difficulty],
+        }))}
+      />
+      <StreakTable
+        heading={t("stats.target")}
+        rows={GUESS_TARGETS.map((target) => ({
+          key: target,
+          label: t(`targets.${target}.label`),
+          stats: stats.byTarget[target],
+        }))}
+      />
+      <RoundHistoryPanel history={roundHistory} />
+      <StatsBackupPanel
+        exportBackup={exportBackup}
+        importBackup={importBackup}
+      />
+      <ProfilePanel sync={profileSync} />
     </div>
   );
 }
+
+function StreakTable({
+  heading,
+  rows,
+}: {
+  heading: string;
+  rows: { key: string; label: string; stats: StreakStats }[];
+}) {
+  const { t } = useLocale();
+  return (
+    <table className="mt-3 w-full border-t-2 border-[#e2e8f0] pt-2 text-left text-[11px]">
+      <thead>
+        <tr className="uppercase tracking-[0.2em] text-[#94a3b8]">
+          <th className="pt-2 font-normal">{heading}</th>
+          <th className="pt-2 text-right font-normal">{t("stats.record")}</th>
+          <th className="pt-2 text-right font-normal">{t("stats.streak")}</th>
+          <th className="pt-2 text-right font-normal">{t("stats.best")}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(({ key, label, stats }) => (
+          <tr key={key} className="font-bold text-[#0b1420]">
+            <td className="pt-1">{label}</td>
+            <td className="pt-1 text-right">
+              {stats.correctGames}–{stats.incorrectGames}
+            </td>
+            <td className="pt-1 text-right">{stats.currentStreak}</td>
+            <td className="pt-1 text-right">{stats.bestStreak}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,339 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useReducer,
+  useRef,
+  useState,
+  type FormEvent,
+} from "react";
+
+import { GUESS_TARGET_RULES } from "@/lib/guess-targets";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n";
+import type { PublicSteamGame, RoundStart } from "@/lib/round";
+import {
+  PREFETCHED_ROUND_TTL_MS,
+  requestGuess,
+  requestRound,
+} from "@/lib/round-client";
+import {
+  TIME_ATTACK_MS,
+  TIME_ATTACK_PREFETCH,
+  createTimeAttackState,
+  getRemainingMs,
+  parseTimeAttackBests,
+  reduceRun,
+  reduceTimeAttack,
+  type TimeAttackEvent,
+} from "@/lib/time-attack";
+
+import { CardPlaceholder, GuessForm } from "./guess-board";
+import { useLocale } from "./locale-context";
+import { SteamGameCard } from "./steam-game-card";
+
+const BESTS_KEY = "steamcodleTimeAttack";
+
+/** Queued rounds tried for a fresh game before the deal gives up. */
+const MAX_DEAL_ATTEMPTS = 6;
+
+type QueuedRound = {
+  filters: string;
+  fetchedAt: number;
+  round: Promise<RoundStart | null>;
+};
+
+type Card = {
+  game: PublicSteamGame;
+  token: string;
+};
+
+function getQueueFilters(locale: Locale) {
+  const params = new URLSearchParams({ mode: "time-attack" });
+  if (locale !== DEFAULT_LOCALE) params.set("locale", locale);
+  return params.toString();
+}
+
+function formatClock(ms: number) {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function TimeAttack() {
+  const { locale, t } = useLocale();
+  const [state, dispatch] = useReducer(
+    reduceTimeAttack,
+    undefined,
+    createTimeAttackState,
+  );
+  const { run, bests } = state;
+  const [bestsLoaded, setBestsLoaded] = useState(false);
+  const [previousBest, setPreviousBest] = useState(0);
+  const [card, setCard] = useState<Card | null>(null);
+  const [dealFailed, setDealFailed] = useState(false);
+  const [currentGuess, setCurrentGuess] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const queueRef = useRef<QueuedRound[]>([]);
+  const seenRef = useRef<number[]>([]);
+  // Bumped by every new run, so deals still in flight for an old one are
+  // dropped.
+  const runIdRef = useRef(0);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(BESTS_KEY);
+      if (stored) {
+        dispatch({
+          type: "hydrate",
+          bests: parseTimeAttackBests(JSON.parse(stored)),
+        });
+      }
+    } catch {
+      // Bests that are not even JSON start over.
+    } finally {
+      setBestsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!bestsLoaded) return;
+    window.localStorage.setItem(BESTS_KEY, JSON.stringify(bests));
+  }, [bests, bestsLoaded]);
+
+  useEffect(
+    () => () => {
+      runIdRef.current += 1;
+    },
+    [],
+  );
+
+  // Keeps TIME_ATTACK_PREFETCH rounds in flight, so a game is ready the
+  // moment the last one is guessed.
+  const fillQueue = useCallback(() => {
+    const filters = getQueueFilters(locale);
+    queueRef.current = queueRef.current.filter(
+      (queued) =>
+        queued.filters === filters &&
+        Date.now() - queued.fetchedAt < PREFETCHED_ROUND_TTL_MS,
+    );
+    while (queueRef.current.length < TIME_ATTACK_PREFETCH) {
+      const params = new URLSearchParams(filters);
+      if (seenRef.current.length > 0) {
+        params.set("exclude", seenRef.current.slice(-15).join(","));
+      }
+      queueRef.current.push({
+        filters,
+        fetchedAt: Date.now(),
+        round: requestRound(`/api/game?${params.toString()}`).catch(() => null),
+      });
+    }
+  }, [locale]);
+
+  useEffect(() => {
+    fillQueue();
+  }, [fillQueue]);
+
+  useEffect(() => {
+    if (run.phase !== "running") return;
+    const timer = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      dispatch({ type: "tick", now: current });
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [run.phase]);
+
+  /** Puts the next unseen queued game on screen and restarts the clock. */
+  const dealNext = async (runId: number) => {
+    setCard(null);
+    setDealFailed(false);
+    for (let attempt = 0; attempt < MAX_DEAL_ATTEMPTS; attempt += 1) {
+      fillQueue();
+      const queued = queueRef.current.shift();
+      fillQueue();
+      const round = await queued?.round;
+      if (runIdRef.current !== runId) return;
+      // Rounds requested side by side can repeat a game.
+      if (!round || seenRef.current.includes(round.game.appId)) continue;
+
+      seenRef.current.push(round.game.appId);
+      setCard({ game: round.game, token: round.token });
+      setCurrentGuess("");
+      dispatch({ type: "resume", now: Date.now() });
+      return;
+    }
+    setDealFailed(true);
+  };
+
+  const handleStart = () => {
+    runIdRef.current += 1;
+    seenRef.current = [];
+    setPreviousBest(bests.bestScore);
+    setError(null);
+    setNow(Date.now());
+    dispatch({ type: "start" });
+    dealNext(runIdRef.current);
+  };
+
+  const rules = GUESS_TARGET_RULES.score;
+  const parsedGuess = rules.parse(currentGuess);
+  const canSubmitGuess =
+    run.phase === "running" &&
+    card !== null &&
+    !submitting &&
+    parsedGuess !== null &&
+    rules.isValid(parsedGuess);
+
+  const handleSubmitGuess = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSubmitGuess || !card || parsedGuess === null) return;
+    const runId = runIdRef.current;
+
+    // Checking the guess is on the house, like dealing the next game.
+    const pause: TimeAttackEvent = { type: "pause", now: Date.now() };
+    const paused = reduceRun(run, pause);
+    dispatch(pause);
+    if (paused.phase !== "running") return;
+    setSubmitting(true);
+
+    try {
+      const result = await requestGuess(card.token, parsedGuess);
+      if (runIdRef.current !== runId || result.actualScore === null) return;
+      const guess: TimeAttackEvent = {
+        type: "guess",
+        appId: card.game.appId,
+        name: card.game.name,
+        value: parsedGuess,
+        actual: result.actualScore,
+        now: Date.now(),
+      };
+      dispatch(guess);
+      if (reduceRun(paused, guess).phase === "running") {
+        dealNext(runId);
+      } else {
+        setCard(null);
+      }
+    } catch (caught) {
+      setError(
+        caught instanceof Error ? caught.message : t("round.guessFailed"),
+      );
+      dispatch({ type: "resume", now: Date.now() });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const remainingMs = getRemainingMs(run, now);
+  const lastGuess = run.guesses.at(-1);
+
+  return (
+    <>
+      <div className="flex items-center justify-center gap-4 text-center font-black uppercase tracking-[0.2em]">
+        <Counter
+          label={t("timeAttack.clock")}
+          value={formatClock(remainingMs)}
+        />
+        <Counter label={t("timeAttack.score")} value={String(run.score)} />
+        <Counter
+          label={t("timeAttack.games")}
+          value={String(run.guesses.length)}
+        />
+      </div>
+
+      {run.phase === "running" ? (
+        <>
+          <div className="flex justify-center">
+            {card ? <SteamGameCard game={card.game} /> : <CardPlaceholder />}
+          </div>
+
+          <GuessForm
+            value={currentGuess}
+            onChange={setCurrentGuess}
+            onSubmit={handleSubmitGuess}
+            inputDisabled={!card || submitting}
+            canSubmit={canSubmitGuess}
+          />
+
+          {dealFailed ? (
+            <div className="flex items-center justify-center gap-2 text-[11px] sm:text-sm">
+              <span>{t("timeAttack.dealFailed")}</span>
+              <button
+                type="button"
+                onClick={() => dealNext(runIdRef.current)}
+                className="rounded-full border-2 border-[#050a12] bg-white px-3 py-0.5 font-bold uppercase"
+              >
+                {t("timeAttack.retry")}
+              </button>
+            </div>
+          ) : null}
+        </>
+      ) : (
+        <div className="flex flex-col items-center gap-2 text-center text-[11px] sm:text-sm">
+          {run.phase === "over" ? (
+            <p className="text-sm font-black uppercase tracking-[0.2em] sm:text-lg">
+              {run.score > previousBest
+                ? t("timeAttack.newBest")
+                : t("timeAttack.over")}
+            </p>
+          ) : (
+            <p className="max-w-sm text-[#4b5563]">
+              {t("timeAttack.intro", {
+                minutes: TIME_ATTACK_MS / 1000 / 60,
+              })}
+            </p>
+          )}
+          <p className="text-[#4b5563]">
+            {t("timeAttack.bests", {
+              score: bests.bestScore,
+              games: bests.mostGames,
+              runs: bests.runs,
+            })}
+          </p>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={!bestsLoaded}
+            className="rounded-full border-2 border-[#050a12] bg-[#0f172a] px-4 py-2 text-xs font-semibold uppercase tracking-[0.4em] text-white transition hover:bg-[#1d283a] disabled:cursor-not-allowed disabled:opacity-60 sm:text-sm"
+          >
+            {run.phase === "over"
+              ? t("timeAttack.again")
+              : t("timeAttack.start")}
+          </button>
+        </div>
+      )}
+
+      {lastGuess ? (
+        <p className="text-center text-[11px] text-[#0f172a] sm:text-sm">
+          {t("timeAttack.last", {
+            name: lastGuess.name,
+            actual: rules.format(lastGuess.actual),
+            value: rules.format(lastGuess.value),
+            points: lastGuess.points,
+          })}
+          {lastGuess.penaltyMs > 0
+            ? ` · ${t("timeAttack.penalty", { seconds: lastGuess.penaltyMs / 1000 })}`
+            : ""}
+        </p>
+      ) : null}
+
+      {error ? (
+        <p className="text-center text-[11px] text-rose-600 sm:text-sm">
+          {error}
+        </p>
+      ) : null}
+    </>
+  );
+}
+
+function Counter({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col">
+      <span className="text-[9px] font-semibold text-[#4b5563] sm:text-[11px]">
+        {label}
+      </span>
+      <span className="text-lg text-[#0b1420] sm:text-2xl">{value}</span>
+    </div>
+  );
+}
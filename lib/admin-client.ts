@@ -0,0 +1,94 @@
+import type { CurationEntry, CurationList, ServedEntry } from "@/lib/curation";
+import type { Difficulty } from "@/lib/difficulty";
+import type { GuessTarget } from "@/lib/guess-targets";
+import type { PublicSteamGame } from "@/lib/round";
+import { readJson } from "@/lib/round-client";
+import type { IneligibleReason, SteamGame } from "@/lib/steam";
+
+export type AdminStatus = {
+  enabled: boolean;
+  signedIn: boolean;
+};
+
+export type CurationOverview = {
+  entries: CurationEntry[];
+  served: ServedEntry[];
+};
+
+export type AdminPreview = {
+  card: PublicSteamGame;
+  game: SteamGame;
+  curation: CurationEntry | null;
+  /**
+   * Why the base rules turn the app down for players who did not opt in to
+   * mature games, ignoring any pin.
+   */
+  ineligibleReason: IneligibleReason | null;
+  mature: boolean;
+  knownIneligible: boolean;
+  difficulties: Difficulty[];
+  targets: GuessTarget[];
+  recentlyServed: boolean;
+  served: ServedEntry[];
+};
+
+export async function requestAdminStatus() {
+  const response = await fetch("/api/admin/session", {
+    method: "GET",
+    cache: "no-store",
+  });
+  return readJson<AdminStatus>(response, "Admin status request failed");
+}
+
+export async function signInAdmin(password: string) {
+  const response = await fetch("/api/admin/session", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ password }),
+  });
+  return readJson<{ ok: true }>(response, "Sign in failed");
+}
+
+export async function signOutAdmin() {
+  const response = await fetch("/api/admin/session", {
+    method: "DELETE",
+    cache: "no-store",
+  });
+  return readJson<{ ok: true }>(response, "Sign out failed");
+}
+
+export async function requestCuration() {
+  const response = await fetch("/api/admin/curation", {
+    method: "GET",
+    cache: "no-store",
+  });
+  return readJson<CurationOverview>(response, "Curation request failed");
+}
+
+/** Blocks or pins an app, or clears it from both lists when `list` is null. */
+export async function updateCuration(
+  appId: number,
+  list: CurationList | null,
+  note = "",
+) {
+  const response = await fetch("/api/admin/curation", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ appId, list, note }),
+  });
+  return readJson<{ entry: CurationEntry | null }>(
+    response,
+    "Curation update failed",
+  );
+}
+
+export async function requestAdminPreview(appId: number) {
+  const params = new URLSearchParams({ appId: String(appId) });
+  const response = await fetch(`/api/admin/preview?${params.toString()}`, {
+    method: "GET",
+    cache: "no-store",
+  });
+  return readJson<AdminPreview>(response, "Preview request failed");
+}
@@ -0,0 +1,73 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * The admin console is switched on by setting `STEAMCODLE_ADMIN_PASSWORD`.
+ * Signing in trades the password for a session cookie signed with it, so
+ * changing the password signs every admin out.
+ */
+
+export const ADMIN_SESSION_COOKIE = "steamcodle_admin";
+export const ADMIN_SESSION_SECONDS = 60 * 60 * 12;
+
+export class AdminError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AdminError";
+    this.status = status;
+  }
+}
+
+function getAdminPassword() {
+  return process.env.STEAMCODLE_ADMIN_PASSWORD || null;
+}
+
+export function isAdminEnabled() {
+  return getAdminPassword() !== null;
+}
+
+function safeEqual(a: string, b: string) {
+  // Hashing first gives equal lengths without revealing the real one.
+  return timingSafeEqual(
+    createHash("sha256").update(a).digest(),
+    createHash("sha256").update(b).digest(),
+  );
+}
+
+function signSession(password: string, expiresAt: number) {
+  return createHmac("sha256", password)
+    .update(`admin-session:${expiresAt}`)
+    .digest("base64url");
+}
+
+/** Returns a session cookie value, or throws a 401 for a wrong password. */
+export function createAdminSession(password: unknown) {
+  const expected = getAdminPassword();
+  if (!expected) {
+    throw new AdminError("The admin console is not enabled.", 404);
+  }
+  if (typeof password !== "string" || !safeEqual(password, expected)) {
+    throw new AdminError("Wrong admin password.", 401);
+  }
+  const expiresAt = Date.now() + ADMIN_SESSION_SECONDS * 1000;
+  return `${expiresAt}.${signSession(expected, expiresAt)}`;
+}
+
+/** Throws unless `session` is a current cookie from `createAdminSession`. */
+export function assertAdminSession(session: string | undefined) {
+  const password = getAdminPassword();
+  if (!password) {
+    throw new AdminError("The admin console is not enabled.", 404);
+  }
+  const [expiresAt, signature] = session?.split(".") ?? [];
+  const expiry = Number(expiresAt);
+  if (
+    !signature ||
+    !Number.isSafeInteger(expiry) ||
+    expiry < Date.now() ||
+    !safeEqual(signature, signSession(password, expiry))
+  ) {
+    throw new AdminError("Sign in to the admin console first.", 401);
+  }
+}
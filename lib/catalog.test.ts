@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import committedSnapshot from "@/data/catalog-snapshot.json";
+import { getCatalogGames, parseCatalogSnapshot } from "@/lib/catalog";
+
+describe("catalog snapshot", () => {
+  it("ships with games to deal from", () => {
+    assert.ok(getCatalogGames().length > 0);
+  });
+
+  it("has no entry the parser drops", () => {
+    assert.equal(
+      parseCatalogSnapshot(committedSnapshot).games.length,
+      committedSnapshot.games.length,
+    );
+  });
+});
+
+describe("parseCatalogSnapshot", () => {
+  it("keeps well-formed entries and drops the rest", () => {
+    const [entry] = committedSnapshot.games;
+    const parsed = parseCatalogSnapshot({
+      generatedAt: "2026-03-02T00:00:00.000Z",
+      games: [entry, { ...entry, appId: "570" }, null],
+    });
+    assert.deepEqual(parsed.games, [entry]);
+  });
+
+  it("reads anything else as an empty snapshot", () => {
+    assert.deepEqual(parseCatalogSnapshot("nope"), {
+      generatedAt: null,
+      games: [],
+    });
+  });
+});
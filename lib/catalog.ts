@@ -0,0 +1,66 @@
+import catalogSnapshot from "@/data/catalog-snapshot.json";
+
+/**
+ * One pre-vetted game in `data/catalog-snapshot.json`. Only apps that passed
+ * the eligibility rules when `npm run index:catalog` last checked them are
+ * listed; the live review score is still fetched when a round starts.
+ */
+export type CatalogEntry = {
+  appId: number;
+  name: string;
+  type: string;
+  genres: string[];
+  totalReviews: number;
+  positive: number;
+  negative: number;
+  /**
+   * What `isMatureGame` said at indexing time. Older snapshots lack it, and
+   * the live check still applies when a round starts.
+   */
+  mature?: boolean;
+  fetchedAt: string;
+};
+
+export type CatalogSnapshot = {
+  generatedAt: string | null;
+  games: CatalogEntry[];
+};
+
+export const CATALOG_SNAPSHOT_PATH = "data/catalog-snapshot.json";
+
+function isCatalogEntry(value: unknown): value is CatalogEntry {
+  const entry = value as Partial<CatalogEntry> | null;
+  return (
+    Number.isInteger(entry?.appId) &&
+    typeof entry?.name === "string" &&
+    typeof entry.type === "string" &&
+    Array.isArray(entry.genres) &&
+    entry.genres.every((genre) => typeof genre === "string") &&
+    Number.isInteger(entry.totalReviews) &&
+    Number.isInteger(entry.positive) &&
+    Number.isInteger(entry.negative) &&
+    (entry.mature === undefined || typeof entry.mature === "boolean") &&
+    typeof entry.fetchedAt === "string"
+  );
+}
+
+/** Keeps the well-formed entries of a snapshot file; anything else is empty. */
+export function parseCatalogSnapshot(raw: unknown): CatalogSnapshot {
+  const snapshot = raw as Partial<
+    Record<keyof CatalogSnapshot, unknown>
+  > | null;
+  return {
+    generatedAt:
+      typeof snapshot?.generatedAt === "string" ? snapshot.generatedAt : null,
+    games: Array.isArray(snapshot?.games)
+      ? snapshot.games.filter(isCatalogEntry)
+      : [],
+  };
+}
+
+// Bundled at build time: a new snapshot needs a rebuild to be dealt from.
+const snapshot = parseCatalogSnapshot(catalogSnapshot);
+
+export function getCatalogGames() {
+  return snapshot.games;
+}
@@ -0,0 +1,197 @@
+import { readRecord, withRecordLock, writeRecord } from "@/lib/data-store";
+import type { Difficulty } from "@/lib/difficulty";
+import type { GuessTarget } from "@/lib/guess-targets";
+import type { Locale } from "@/lib/i18n";
+
+/**
+ * App IDs curated by hand from the admin console. Blocked apps are never
+ * dealt; pinned apps join the first pool random picks draw from and skip the
+ * eligibility rules and difficulty bands, though a round's genre filter and
+ * guess target still apply. The lists live in the data store and are re-read every
+ * CURATION_RELOAD_MS, so every server follows an edit without a redeploy.
+ */
+
+export type CurationList = "blocked" | "pinned";
+
+export type CurationEntry = {
+  appId: number;
+  list: CurationList;
+  note: string;
+  updatedAt: string;
+};
+
+/** Which pool a served game came out of. */
+export type ServeSource =
+  | "pinned"
+  | "snapshot"
+  | "featured"
+  | "app-list"
+  | "cache";
+
+export type ServeReason = {
+  appId: number;
+  name: string;
+  source: ServeSource;
+  /** Candidates looked up before this one was accepted. */
+  attempts: number;
+  difficulty: Difficulty;
+  target: GuessTarget;
+  genres: string[];
+  locale: Locale;
+  mature: boolean;
+  pickedAt: string;
+};
+
+export type ServedEntry = ServeReason & {
+  /** Later than `pickedAt` when the game waited in the warm pool. */
+  servedAt: string;
+};
+
+type StoredCuration = {
+  entries: Record<string, CurationEntry>;
+};
+
+const CURATION = "curation";
+const CURATION_KEY = "lists";
+const CURATION_RELOAD_MS = 1000 * 10;
+const NOTE_MAX_LENGTH = 200;
+const PICK_REASON_LIMIT = 200;
+const SERVED_LOG_LIMIT = 100;
+
+let cachedLists: {
+  blocked: Set<number>;
+  pinned: Set<number>;
+  loadedAt: number;
+} | null = null;
+let listsLoad: Promise<StoredCuration> | null = null;
+const pickReasons = new Map<number, ServeReason>();
+const servedLog: ServedEntry[] = [];
+
+export class CurationError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "CurationError";
+    this.status = status;
+  }
+}
+
+export function isCurationList(value: unknown): value is CurationList {
+  return value === "blocked" || value === "pinned";
+}
+
+export function isAppId(value: unknown): value is number {
+  return typeof value === "number" && Number.isSafeInteger(value) && value > 0;
+}
+
+async function readCuration() {
+  return (
+    (await readRecord<StoredCuration>(CURATION, CURATION_KEY)) ?? {
+      entries: {},
+    }
+  );
+}
+
+function cacheLists(stored: StoredCuration) {
+  const entries = Object.values(stored.entries);
+  cachedLists = {
+    blocked: new Set(
+      entries
+        .filter((entry) => entry.list === "blocked")
+        .map((entry) => entry.appId),
+    ),
+    pinned: new Set(
+      entries
+        .filter((entry) => entry.list === "pinned")
+        .map((entry) => entry.appId),
+    ),
+    loadedAt: Date.now(),
+  };
+  return cachedLists;
+}
+
+/** The blocked and pinned app IDs, at most CURATION_RELOAD_MS old. */
+export async function getCuratedAppIds() {
+  if (cachedLists && Date.now() - cachedLists.loadedAt < CURATION_RELOAD_MS) {
+    return cachedLists;
+  }
+  listsLoad ??= readCuration().finally(() => {
+    listsLoad = null;
+  });
+  return cacheLists(await listsLoad);
+}
+
+/** Every curated app, most recently edited first. */
+export async function listCurationEntries() {
+  const stored = await readCuration();
+  cacheLists(stored);
+  return Object.values(stored.entries).sort((a, b) =>
+    b.updatedAt.localeCompare(a.updatedAt),
+  );
+}
+
+/**
+ * Puts `appId` on `list`, replacing whichever list it was on, or takes it off
+ * both when `list` is null. Returns the new entry, if any.
+ */
+export function setCuration(
+  appId: number,
+  list: CurationList | null,
+  note = "",
+): Promise<CurationEntry | null> {
+  if (!isAppId(appId)) {
+    throw new CurationError("Expected a Steam app ID.", 400);
+  }
+
+  return withRecordLock(CURATION, CURATION_KEY, async () => {
+    const stored = await readCuration();
+    const key = String(appId);
+    let entry: CurationEntry | null = null;
+    if (list === null) {
+      delete stored.entries[key];
+    } else {
+      entry = {
+        appId,
+        list,
+        note: note.trim().slice(0, NOTE_MAX_LENGTH),
+        updatedAt: new Date().toISOString(),
+      };
+      stored.entries[key] = entry;
+    }
+    await writeRecord(CURATION, CURATION_KEY, stored);
+    cacheLists(stored);
+    return entry;
+  });
+}
+
+/**
+ * Notes how a random pick arrived at `reason.appId`, for the served log once
+ * the game is actually dealt.
+ */
+export function recordPickReason(reason: ServeReason) {
+  pickReasons.delete(reason.appId);
+  pickReasons.set(reason.appId, reason);
+  if (pickReasons.size > PICK_REASON_LIMIT) {
+    const [oldest] = pickReasons.keys();
+    pickReasons.delete(oldest);
+  }
+}
+
+export function recordServed(appId: number) {
+  const reason = pickReasons.get(appId);
+  if (!reason) return;
+  pickReasons.delete(appId);
+  servedLog.unshift({ ...reason, servedAt: new Date().toISOString() });
+  if (servedLog.length > SERVED_LOG_LIMIT) servedLog.pop();
+}
+
+/**
+ * Games this process dealt through random picks, newest first, optionally
+ * only those for `appId`.
+ */
+export function getServedLog(appId?: number) {
+  return appId === undefined
+    ? [...servedLog]
+    : servedLog.filter((entry) => entry.appId === appId);
+}
@@ -0,0 +1,97 @@
+import {
+  getDailyExpiry,
+  type DailyRound,
+  type DailyRoundStart,
+} from "@/lib/daily";
+import {
+  readRecord,
+  sweepRecords,
+  withRecordLock,
+  writeRecord,
+} from "@/lib/data-store";
+import { readRoundDeal, readRoundState, rebindRound } from "@/lib/round";
+
+/**
+ * One daily attempt per player: the server keeps the round it dealt and hands
+ * it back as it stands instead of dealing again. Rounds are filed under the
+ * browser session and, for players who have one, the profile, so neither a
+ * new cookie nor a second device starts the puzzle over.
+ */
+
+type DailyRecord = {
+  start: DailyRoundStart;
+  expiresAt: number;
+};
+
+type DailyPlayer = {
+  sessionId: string;
+  profileId: string | null;
+};
+
+const DAILY_ROUNDS = "daily-rounds";
+
+/** The profile's key first: it follows the player to other browsers. */
+function getDailyKeys(date: string, player: DailyPlayer) {
+  return [player.profileId, player.sessionId]
+    .filter((id): id is string => id !== null)
+    .map((id) => `${date}-${id}`);
+}
+
+function isDailyExpired(record: DailyRecord) {
+  return record.expiresAt < Date.now();
+}
+
+async function saveDailyRound(keys: string[], start: DailyRoundStart) {
+  const record: DailyRecord = {
+    start,
+    expiresAt: getDailyExpiry(start.daily.date),
+  };
+  await Promise.all(keys.map((key) => writeRecord(DAILY_ROUNDS, key, record)));
+  void sweepRecords(DAILY_ROUNDS, isDailyExpired);
+}
+
+/**
+ * The player's round for `date`, dealt with `deal` the first time and handed
+ * back with its guesses on every later call.
+ */
+export function takeDailyRound(
+  date: string,
+  player: DailyPlayer,
+  deal: () => Promise<DailyRoundStart>,
+): Promise<DailyRound> {
+  const keys = getDailyKeys(date, player);
+  return withRecordLock(DAILY_ROUNDS, keys[0], async () => {
+    let start: DailyRoundStart | null = null;
+    for (const key of keys) {
+      const stored = await readRecord<DailyRecord>(DAILY_ROUNDS, key);
+      if (!stored) continue;
+      // Guesses are only taken from the session the token names, and this
+      // may be the player's other browser.
+      start = {
+        ...stored.start,
+        token: rebindRound(stored.start.token, {
+          sessionId: player.sessionId,
+          profileId: player.profileId ?? undefined,
+        }),
+      };
+      break;
+    }
+    start ??= await deal();
+    await saveDailyRound(keys, start);
+    return { ...start, round: readRoundState(start.token) };
+  });
+}
+
+/** Keeps the stored daily round at the token its latest guess issued. */
+export async function saveDailyToken(token: string) {
+  const deal = readRoundDeal(token);
+  if (!deal.daily || !deal.sessionId) return;
+  const keys = getDailyKeys(deal.daily, {
+    sessionId: deal.sessionId,
+    profileId: deal.profileId,
+  });
+  await withRecordLock(DAILY_ROUNDS, keys[0], async () => {
+    const stored = await readRecord<DailyRecord>(DAILY_ROUNDS, keys[0]);
+    if (stored) await saveDailyRound(keys, { ...stored.start, token });
+  });
+}
@@ -0,0 +1,88 @@
+import type { RoundState } from "@/lib/game-engine";
+import type { RoundStart } from "@/lib/round";
+
+const DAILY_EPOCH = Date.UTC(2025, 0, 1);
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type DailyPuzzle = {
+  date: string;
+  number: number;
+};
+
+export function isDailyDate(value: string) {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = Date.parse(`${value}T00:00:00Z`);
+  return (
+    Number.isFinite(parsed) && new Date(parsed).toISOString().startsWith(value)
+  );
+}
+
+/**
+ * Puzzle #1 is the first day of 2025; every calendar day after that gets the
+ * next number so shared results can be compared at a glance.
+ */
+export function getDailyNumber(date: string) {
+  const parsed = Date.parse(`${date}T00:00:00Z`);
+  return Math.floor((parsed - DAILY_EPOCH) / DAY_MS) + 1;
+}
+
+/**
+ * Players ask for their own calendar date, which can sit one day either side
+ * of the server's UTC date. Anything further out would let people peek ahead.
+ */
+export function isPlayableDailyDate(date: string, now = Date.now()) {
+  if (!isDailyDate(date)) return false;
+  const offset =
+    Date.parse(`${date}T00:00:00Z`) -
+    Date.parse(`${new Date(now).toISOString().slice(0, 10)}T00:00:00Z`);
+  return Math.abs(offset) <= DAY_MS && getDailyNumber(date) >= 1;
+}
+
+/**
+ * When a daily puzzle stops being playable anywhere: the end of the UTC day
+ * after its date, the last moment `isPlayableDailyDate` accepts it.
+ */
+export function getDailyExpiry(date: string) {
+  return Date.parse(`${date}T00:00:00Z`) + 2 * DAY_MS;
+}
+
+export type DailyRoundStart = RoundStart & {
+  daily: DailyPuzzle;
+};
+
+/** The player's daily round as the server hands it back, guesses and all. */
+export type DailyRound = DailyRoundStart & {
+  round: RoundState;
+};
+
+/** The player's own calendar date, which is what decides "today's" puzzle. */
+export function getLocalDailyDate(now = new Date()) {
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+export function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar date in an IANA time zone, so the server can count a player's
+ * day from their midnight the way `getLocalDailyDate` does in the browser.
+ */
+export function getDateInTimeZone(timeZone: string, now = new Date()) {
+  // en-CA formats dates as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
@@ -0,0 +1,126 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+import { logEvent } from "@/lib/logger";
+
+/**
+ * Small JSON-file store for data the server owns (profiles, leaderboards),
+ * kept apart from the disposable Steam cache. One file per record, written
+ * through a temp file so a crash never leaves half a document behind.
+ */
+
+const SWEEP_INTERVAL_MS = 1000 * 60 * 10; // 10 minutes
+
+const locks = new Map<string, Promise<unknown>>();
+const lastSweeps = new Map<string, number>();
+
+function getDataDir() {
+  return path.resolve(
+    process.env.STEAMCODLE_DATA_DIR ??
+      path.join(process.cwd(), ".steamcodle-data"),
+  );
+}
+
+function recordPath(collection: string, key: string) {
+  return path.join(getDataDir(), collection, `${key}.json`);
+}
+
+export async function readRecord<T>(
+  collection: string,
+  key: string,
+): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(recordPath(collection, key), "utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Every record in `collection`, in no particular order. */
+export async function listRecords<T>(collection: string): Promise<T[]> {
+  const files = await readdir(path.join(getDataDir(), collection)).catch(
+    () => [] as string[],
+  );
+  const records = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => readRecord<T>(collection, file.slice(0, -".json".length))),
+  );
+  return records.filter((record): record is Awaited<T> => record !== null);
+}
+
+export async function writeRecord(
+  collection: string,
+  key: string,
+  value: unknown,
+) {
+  const file = recordPath(collection, key);
+  await mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(value), "utf8");
+  await rename(temp, file);
+}
+
+export async function deleteRecord(collection: string, key: string) {
+  await rm(recordPath(collection, key), { force: true });
+}
+
+/**
+ * Deletes the records in `collection` that `isExpired` says have outlived
+ * their use. Runs at most every ten minutes per collection and never throws,
+ * so callers can start it on every write without awaiting it.
+ */
+export async function sweepRecords<T>(
+  collection: string,
+  isExpired: (record: T) => boolean,
+) {
+  const now = Date.now();
+  if (now - (lastSweeps.get(collection) ?? 0) < SWEEP_INTERVAL_MS) return;
+  lastSweeps.set(collection, now);
+
+  try {
+    const files = await readdir(path.join(getDataDir(), collection)).catch(
+      () => [] as string[],
+    );
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const key = file.slice(0, -".json".length);
+      await withRecordLock(collection, key, async () => {
+        const record = await readRecord<T>(collection, key);
+        if (record !== null && isExpired(record)) {
+          await deleteRecord(collection, key);
+        }
+      });
+    }
+  } catch (error) {
+    logEvent("warn", "data-store.sweep-failed", { collection, error });
+  }
+}
+
+/**
+ * Runs `update` after any earlier update of the same record has finished, so
+ * read-modify-write cycles in one process never overwrite each other.
+ */
+export function withRecordLock<T>(
+  collection: string,
+  key: string,
+  update: () => Promise<T>,
+): Promise<T> {
+  const lockKey = `${collection}/${key}`;
+  const previous = locks.get(lockKey) ?? Promise.resolve();
+  const next = previous.then(update);
+  const tail = next
+    .catch(() => undefined)
+    .finally(() => {
+      if (locks.get(lockKey) === tail) locks.delete(lockKey);
+    });
+  locks.set(lockKey, tail);
+  return next;
+}
@@ -0,0 +1,60 @@
+export const DIFFICULTIES = ["easy", "normal", "hard"] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+/** Tier names and blurbs live in the message catalog under `difficulty.*`. */
+export type DifficultyTier = {
+  minReviews: number;
+  maxReviews: number | null;
+  /** Draw from the featured categories (top sellers, specials, …). */
+  useFeatured: boolean;
+  /** Draw from the long tail of the full app list. */
+  useAppList: boolean;
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = "normal";
+
+/**
+ * Popularity bands for each tier. Normal is the original game: any base game
+ * with at least 100 reviews from either pool. Easy sticks to featured hits,
+ * Hard to the long tail that never shows up on the storefront.
+ */
+export const DIFFICULTY_TIERS: Record<Difficulty, DifficultyTier> = {
+  easy: {
+    minReviews: 20_000,
+    maxReviews: null,
+    useFeatured: true,
+    useAppList: false,
+  },
+  normal: {
+    minReviews: 100,
+    maxReviews: null,
+    useFeatured: true,
+    useAppList: true,
+  },
+  hard: {
+    minReviews: 100,
+    maxReviews: 5_000,
+    useFeatured: false,
+    useAppList: true,
+  },
+};
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return (
+    typeof value === "string" &&
+    (DIFFICULTIES as readonly string[]).includes(value)
+  );
+}
+
+export function matchesDifficulty(
+  totalReviews: number | null,
+  difficulty: Difficulty,
+) {
+  const tier = DIFFICULTY_TIERS[difficulty];
+  const reviews = totalReviews ?? 0;
+  return (
+    reviews >= tier.minReviews &&
+    (tier.maxReviews === null || reviews <= tier.maxReviews)
+  );
+}
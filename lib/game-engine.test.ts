@@ -0,0 +1,189 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  createGameState,
+  initialRound,
+  reduceGame,
+  reduceRound,
+  type GameEvent,
+  type GameState,
+  type RoundState,
+} from "@/lib/game-engine";
+import {
+  GUESS_LEFT_POINTS,
+  LOSS_POINTS_BY_BAND,
+  MAX_GUESSES,
+  WIN_POINTS,
+  WIN_THRESHOLD,
+  judgeGuess,
+  type RuleSetId,
+} from "@/lib/game-rules";
+import { getGuessTargetRules } from "@/lib/guess-targets";
+import type { Hint } from "@/lib/hints";
+
+const TODAY = "2026-03-02";
+const TOMORROW = "2026-03-03";
+const ACTUAL = 80;
+const HINT: Hint = { kind: "release", label: "Released", value: "2015" };
+
+function startRound(ruleSet?: RuleSetId) {
+  return reduceRound(initialRound, { type: "start", appId: 10, ruleSet });
+}
+
+function guess(round: RoundState, value: number) {
+  return reduceRound(round, {
+    type: "guess",
+    value,
+    outcome: judgeGuess(value, ACTUAL),
+  });
+}
+
+function play(state: GameState, events: GameEvent[]) {
+  return events.reduce(reduceGame, state);
+}
+
+function guessEvent(value: number, today = TODAY): GameEvent {
+  return { type: "guess", value, outcome: judgeGuess(value, ACTUAL), today };
+}
+
+const startEvent: GameEvent = { type: "start", appId: 10, today: TODAY };
+const resolveEvent: GameEvent = {
+  type: "resolve",
+  actualScore: ACTUAL,
+  today: TODAY,
+};
+
+describe("reduceRound", () => {
+  it("wins on a guess within the threshold", () => {
+    const round = guess(startRound(), ACTUAL + WIN_THRESHOLD);
+    assert.equal(round.phase, "won");
+  });
+
+  it("keeps playing on a guess just outside the threshold", () => {
+    const round = guess(startRound(), ACTUAL - WIN_THRESHOLD - 1);
+    assert.equal(round.phase, "playing");
+    assert.equal(round.guesses[0].outcome, "higher");
+  });
+
+  it("loses once every guess is used up", () => {
+    let round = startRound();
+    for (let index = 0; index < MAX_GUESSES; index += 1) {
+      assert.equal(round.phase, "playing");
+      round = guess(round, 10);
+    }
+    assert.equal(round.phase, "lost");
+    assert.equal(guess(round, ACTUAL), round);
+  });
+
+  it("counts bought hints against the guesses", () => {
+    let round = reduceRound(startRound(), { type: "hint", hint: HINT });
+    for (let index = 1; index < MAX_GUESSES; index += 1) {
+      round = guess(round, 10);
+    }
+    assert.equal(round.phase, "lost");
+  });
+
+  it("skips a round in play as a loss and leaves a finished one alone", () => {
+    assert.equal(reduceRound(startRound(), { type: "skip" }).phase, "lost");
+    const won = guess(startRound(), ACTUAL);
+    assert.equal(reduceRound(won, { type: "skip" }), won);
+  });
+
+  it("scores a win for every guess it left unused", () => {
+    const round = reduceRound(guess(startRound(), ACTUAL), {
+      type: "resolve",
+      actualScore: ACTUAL,
+    });
+    assert.equal(
+      round.points,
+      WIN_POINTS + GUESS_LEFT_POINTS * (MAX_GUESSES - 1),
+    );
+  });
+
+  it("scores a loss by its closest guess", () => {
+    let round = startRound();
+    const values = [10, 20, 30, 40, ACTUAL - WIN_THRESHOLD - 1];
+    for (const value of values) round = guess(round, value);
+    round = reduceRound(round, { type: "resolve", actualScore: ACTUAL });
+
+    const { distance } = getGuessTargetRules("score");
+    const band = Math.min(...values.map((value) => distance(value, ACTUAL)));
+    assert.equal(round.points, LOSS_POINTS_BY_BAND[band]);
+  });
+
+  it("scales points by the rule set", () => {
+    const round = reduceRound(guess(startRound("hardcore"), ACTUAL), {
+      type: "resolve",
+      actualScore: ACTUAL,
+    });
+    assert.equal(round.points, (WIN_POINTS + GUESS_LEFT_POINTS * 2) * 2);
+  });
+
+  it("gives a round resolved without an answer no points", () => {
+    const skipped = reduceRound(startRound(), { type: "skip" });
+    const round = reduceRound(skipped, { type: "resolve", actualScore: null });
+    assert.equal(round.points, 0);
+  });
+});
+
+describe("reduceGame", () => {
+  it("settles a win once, with its points", () => {
+    const state = play(createGameState(TODAY), [
+      startEvent,
+      guessEvent(ACTUAL),
+      resolveEvent,
+      resolveEvent,
+    ]);
+    const points = WIN_POINTS + GUESS_LEFT_POINTS * (MAX_GUESSES - 1);
+    assert.equal(state.stats.correctGames, 1);
+    assert.equal(state.stats.currentStreak, 1);
+    assert.equal(state.stats.totalGuesses, 1);
+    assert.equal(state.stats.totalPoints, points);
+    assert.equal(state.stats.byRuleSet.classic.points, points);
+  });
+
+  it("counts a skipped round as today's loss and ends the streak", () => {
+    const won = play(createGameState(TODAY), [
+      startEvent,
+      guessEvent(ACTUAL),
+      resolveEvent,
+    ]);
+    const state = play(won, [
+      startEvent,
+      { type: "skip", today: TODAY },
+      { type: "resolve", actualScore: null, today: TODAY },
+    ]);
+    assert.equal(state.stats.incorrectGames, 1);
+    assert.equal(state.stats.lossesToday, 1);
+    assert.equal(state.stats.currentStreak, 0);
+    assert.equal(state.stats.bestStreak, 1);
+  });
+
+  it("resets today's losses when the day rolls over", () => {
+    const lost = play(createGameState(TODAY), [
+      startEvent,
+      { type: "skip", today: TODAY },
+    ]);
+    assert.equal(lost.stats.lossesToday, 1);
+
+    const sameDay = reduceGame(lost, { type: "day-rollover", today: TODAY });
+    assert.equal(sameDay.stats.lossesToday, 1);
+
+    const nextDay = reduceGame(lost, { type: "day-rollover", today: TOMORROW });
+    assert.equal(nextDay.stats.lossesToday, 0);
+    assert.equal(nextDay.stats.lastPlayedDate, TOMORROW);
+    assert.equal(nextDay.stats.incorrectGames, 1);
+  });
+
+  it("rolls the day over on the first guess of a new day", () => {
+    const lost = play(createGameState(TODAY), [
+      startEvent,
+      { type: "skip", today: TODAY },
+      { ...startEvent, today: TOMORROW },
+    ]);
+    const state = reduceGame(lost, guessEvent(10, TOMORROW));
+    assert.equal(state.stats.lossesToday, 0);
+    assert.equal(state.stats.lastPlayedDate, TOMORROW);
+  });
+});
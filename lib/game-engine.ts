@@ -0,0 +1,411 @@
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTIES,
+  type Difficulty,
+} from "@/lib/difficulty";
+import {
+  DAILY_LOSS_LIMIT,
+  DEFAULT_RULE_SET,
+  GUESS_LEFT_POINTS,
+  LOSS_POINTS_BY_BAND,
+  RULE_SETS,
+  RULE_SET_PRESETS,
+  WIN_POINTS,
+  type GuessOutcome,
+  type RuleSetId,
+} from "@/lib/game-rules";
+import {
+  DEFAULT_GUESS_TARGET,
+  GUESS_TARGETS,
+  getGuessTargetRules,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+import type { Hint } from "@/lib/hints";
+import { DEFAULT_LOCALE, translate } from "@/lib/i18n";
+
+/**
+ * Headless Steamcodle rules. Everything here is pure: dates come in on the
+ * events instead of being read from the clock, and the answer (review score,
+ * release year, …) is only known to whoever judged the guess (the server) or
+ * after the round resolves.
+ */
+
+export type GuessEntry = {
+  value: number;
+  outcome: GuessOutcome;
+};
+
+export type RoundPhase = "idle" | "playing" | "won" | "lost";
+
+export type RoundState = {
+  appId: number | null;
+  difficulty: Difficulty;
+  target: GuessTarget;
+  ruleSet: RuleSetId;
+  phase: RoundPhase;
+  guesses: GuessEntry[];
+  /** Bought clues; each one used up a guess. */
+  hints: Hint[];
+  actualScore: number | null;
+  /** Set once the answer is revealed; a skipped round never earns any. */
+  points: number | null;
+};
+
+export type StreakStats = {
+  correctGames: number;
+  incorrectGames: number;
+  currentStreak: number;
+  bestStreak: number;
+};
+
+export type RuleSetStats = StreakStats & {
+  points: number;
+};
+
+export type StatsSnapshot = {
+  totalGuesses: number;
+  totalHints: number;
+  totalPoints: number;
+  bestRoundPoints: number;
+  correctGames: number;
+  incorrectGames: number;
+  currentStreak: number;
+  bestStreak: number;
+  lastPlayedDate: string;
+  lossesToday: number;
+  byDifficulty: Record<Difficulty, StreakStats>;
+  byTarget: Record<GuessTarget, StreakStats>;
+  byRuleSet: Record<RuleSetId, RuleSetStats>;
+};
+
+export type GameState = {
+  round: RoundState;
+  stats: StatsSnapshot;
+};
+
+export type RoundEvent =
+  | {
+      type: "start";
+      appId: number;
+      difficulty?: Difficulty;
+      target?: GuessTarget;
+      ruleSet?: RuleSetId;
+    }
+  | { type: "guess"; value: number; outcome: GuessOutcome }
+  | { type: "hint"; hint: Hint }
+  | { type: "skip" }
+  | { type: "resolve"; actualScore: number | null };
+
+export type GameEvent =
+  | { type: "hydrate"; stats: StatsSnapshot; today: string }
+  | { type: "day-rollover"; today: string }
+  | (RoundEvent & { today: string });
+
+export const initialRound: RoundState = {
+  appId: null,
+  difficulty: DEFAULT_DIFFICULTY,
+  target: DEFAULT_GUESS_TARGET,
+  ruleSet: DEFAULT_RULE_SET,
+  phase: "idle",
+  guesses: [],
+  hints: [],
+  actualScore: null,
+  points: null,
+};
+
+function getDefaultStreakStats(): StreakStats {
+  return {
+    correctGames: 0,
+    incorrectGames: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+  };
+}
+
+function getDefaultDifficultyRecord() {
+  return Object.fromEntries(
+    DIFFICULTIES.map((difficulty) => [difficulty, getDefaultStreakStats()]),
+  ) as Record<Difficulty, StreakStats>;
+}
+
+function getDefaultTargetRecord() {
+  return Object.fromEntries(
+    GUESS_TARGETS.map((target) => [target, getDefaultStreakStats()]),
+  ) as Record<GuessTarget, StreakStats>;
+}
+
+function getDefaultRuleSetRecord() {
+  return Object.fromEntries(
+    RULE_SETS.map((ruleSet) => [
+      ruleSet,
+      { ...getDefaultStreakStats(), points: 0 },
+    ]),
+  ) as Record<RuleSetId, RuleSetStats>;
+}
+
+export function getDefaultStats(today: string): StatsSnapshot {
+  return {
+    totalGuesses: 0,
+    totalHints: 0,
+    totalPoints: 0,
+    bestRoundPoints: 0,
+    correctGames: 0,
+    incorrectGames: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+    lastPlayedDate: today,
+    lossesToday: 0,
+    byDifficulty: getDefaultDifficultyRecord(),
+    byTarget: getDefaultTargetRecord(),
+    byRuleSet: getDefaultRuleSetRecord(),
+  };
+}
+
+export function createGameState(today: string): GameState {
+  return { round: initialRound, stats: getDefaultStats(today) };
+}
+
+/** Resets the per-day loss counter once the calendar date moves on. */
+export function normalizeStats(
+  stats: StatsSnapshot,
+  today: string,
+): StatsSnapshot {
+  const currentLosses =
+    typeof stats.lossesToday === "number" && Number.isFinite(stats.lossesToday)
+      ? stats.lossesToday
+      : 0;
+  if (stats.lastPlayedDate === today) {
+    return { ...stats, lossesToday: currentLosses };
+  }
+
+  return {
+    ...stats,
+    lastPlayedDate: today,
+    lossesToday: 0,
+  };
+}
+
+export function isDailyLossLimitReached(stats: StatsSnapshot) {
+  return stats.lossesToday >= DAILY_LOSS_LIMIT;
+}
+
+export function isRoundOver(round: RoundState) {
+  return round.phase === "won" || round.phase === "lost";
+}
+
+export function getMaxGuesses(round: RoundState) {
+  return RULE_SET_PRESETS[round.ruleSet].maxGuesses;
+}
+
+/** Guesses plus bought hints, out of `getMaxGuesses`. */
+export function getSlotsUsed(round: RoundState) {
+  return round.guesses.length + round.hints.length;
+}
+
+/** Why a guess would be rejected, or null when it can be played. */
+export function getGuessError(round: RoundState, value: number) {
+  if (round.phase !== "playing") return "This round is already over.";
+  if (getSlotsUsed(round) >= getMaxGuesses(round)) return "No guesses left.";
+  const rules = getGuessTargetRules(round.target, round.ruleSet);
+  if (!rules.isValid(value)) {
+    return translate(
+      DEFAULT_LOCALE,
+      `targets.${round.target}.invalid`,
+      rules.messageValues,
+    );
+  }
+  return null;
+}
+
+/** Why a hint cannot be bought, or null when it can. */
+export function getHintError(round: RoundState) {
+  if (round.phase !== "playing") return "This round is already over.";
+  if (!RULE_SET_PRESETS[round.ruleSet].hints) {
+    return "This rule set has no hints.";
+  }
+  if (getSlotsUsed(round) >= getMaxGuesses(round) - 1) {
+    return "Your last guess cannot be traded for a hint.";
+  }
+  return null;
+}
+
+/**
+ * What a finished round earns: a win scores for every guess it left unused,
+ * a loss only for how close its nearest guess came to `actual`. Both are
+ * scaled by the round's rule set.
+ */
+export function getRoundPoints(round: RoundState, actual: number) {
+  const preset = RULE_SET_PRESETS[round.ruleSet];
+  let points = 0;
+  if (round.phase === "won") {
+    points =
+      WIN_POINTS +
+      GUESS_LEFT_POINTS * (preset.maxGuesses - getSlotsUsed(round));
+  } else if (round.phase === "lost" && round.guesses.length > 0) {
+    const { distance } = getGuessTargetRules(round.target, round.ruleSet);
+    const band = Math.min(
+      ...round.guesses.map((guess) => distance(guess.value, actual)),
+    );
+    points = LOSS_POINTS_BY_BAND[band];
+  }
+  return Math.round(points * preset.pointsScale);
+}
+
+export function reduceRound(round: RoundState, event: RoundEvent): RoundState {
+  switch (event.type) {
+    case "start":
+      return {
+        ...initialRound,
+        appId: event.appId,
+        difficulty: event.difficulty ?? DEFAULT_DIFFICULTY,
+        target: event.target ?? DEFAULT_GUESS_TARGET,
+        ruleSet: event.ruleSet ?? DEFAULT_RULE_SET,
+        phase: "playing",
+      };
+    case "guess": {
+      if (getGuessError(round, event.value)) return round;
+      const guesses = [
+        ...round.guesses,
+        { value: event.value, outcome: event.outcome },
+      ];
+      const phase =
+        event.outcome === "win"
+          ? "won"
+          : guesses.length + round.hints.length >= getMaxGuesses(round)
+            ? "lost"
+            : "playing";
+      return { ...round, guesses, phase };
+    }
+    case "hint":
+      if (getHintError(round)) return round;
+      return { ...round, hints: [...round.hints, event.hint] };
+    case "skip":
+      return round.phase === "playing" ? { ...round, phase: "lost" } : round;
+    case "resolve": {
+      if (round.phase === "idle") return round;
+      const won = round.guesses.at(-1)?.outcome === "win";
+      const resolved: RoundState = {
+        ...round,
+        phase: won ? "won" : "lost",
+        actualScore: event.actualScore,
+      };
+      return {
+        ...resolved,
+        points:
+          round.points ??
+          (event.actualScore === null
+            ? 0
+            : getRoundPoints(resolved, event.actualScore)),
+      };
+    }
+  }
+}
+
+function recordStreak(stats: StreakStats, result: "win" | "loss"): StreakStats {
+  if (result === "win") {
+    const currentStreak = stats.currentStreak + 1;
+    return {
+      ...stats,
+      correctGames: stats.correctGames + 1,
+      currentStreak,
+      bestStreak: Math.max(stats.bestStreak, currentStreak),
+    };
+  }
+
+  return {
+    ...stats,
+    incorrectGames: stats.incorrectGames + 1,
+    currentStreak: 0,
+  };
+}
+
+function recordResult(
+  stats: StatsSnapshot,
+  result: "win" | "loss",
+  today: string,
+  round: RoundState,
+): StatsSnapshot {
+  const normalized = normalizeStats(stats, today);
+  return {
+    ...normalized,
+    ...recordStreak(normalized, result),
+    lastPlayedDate: today,
+    lossesToday:
+      result === "loss" ? normalized.lossesToday + 1 : normalized.lossesToday,
+    byDifficulty: {
+      ...normalized.byDifficulty,
+      [round.difficulty]: recordStreak(
+        normalized.byDifficulty[round.difficulty],
+        result,
+      ),
+    },
+    byTarget: {
+      ...normalized.byTarget,
+      [round.target]: recordStreak(normalized.byTarget[round.target], result),
+    },
+    byRuleSet: {
+      ...normalized.byRuleSet,
+      [round.ruleSet]: {
+        ...normalized.byRuleSet[round.ruleSet],
+        ...recordStreak(normalized.byRuleSet[round.ruleSet], result),
+      },
+    },
+  };
+}
+
+function recordPoints(stats: StatsSnapshot, round: RoundState, points: number) {
+  const ruleSetStats = stats.byRuleSet[round.ruleSet];
+  return {
+    ...stats,
+    totalPoints: stats.totalPoints + points,
+    bestRoundPoints: Math.max(stats.bestRoundPoints, points),
+    byRuleSet: {
+      ...stats.byRuleSet,
+      [round.ruleSet]: {
+        ...ruleSetStats,
+        points: ruleSetStats.points + points,
+      },
+    },
+  };
+}
+
+export function reduceGame(state: GameState, event: GameEvent): GameState {
+  switch (event.type) {
+    case "hydrate":
+      return { ...state, stats: normalizeStats(event.stats, event.today) };
+    case "day-rollover":
+      return { ...state, stats: normalizeStats(state.stats, event.today) };
+    case "start":
+      return { ...state, round: reduceRound(state.round, event) };
+    case "guess":
+    case "hint":
+    case "skip":
+    case "resolve": {
+      const round = reduceRound(state.round, event);
+      if (round === state.round) return state;
+
+      let stats = state.stats;
+      if (event.type === "guess") {
+        const normalized = normalizeStats(stats, event.today);
+        stats = { ...normalized, totalGuesses: normalized.totalGuesses + 1 };
+      }
+      if (event.type === "hint") {
+        stats = { ...stats, totalHints: stats.totalHints + 1 };
+      }
+      // Stats are settled exactly once, on the transition out of "playing";
+      // points follow once the answer is revealed.
+      if (state.round.phase === "playing" && isRoundOver(round)) {
+        stats = recordResult(
+          stats,
+          round.phase === "won" ? "win" : "loss",
+          event.today,
+          round,
+        );
+      }
+      if (state.round.points === null && round.points !== null) {
+        stats = recordPoints(stats, round, round.points);
+      }
+      return { round, stats };
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { getCuratedAppIds } from "@/lib/curation";
+import { DEFAULT_DIFFICULTY } from "@/lib/difficulty";
+import { DEFAULT_GUESS_TARGET } from "@/lib/guess-targets";
+import { DEFAULT_LOCALE } from "@/lib/i18n";
+import { logEvent } from "@/lib/logger";
+import {
+  NoEligibleGameError,
+  SteamThrottledError,
+  fetchRandomSteamGame,
+  findRandomSteamGame,
+  markGameServed,
+  wasServedRecently,
+  type RandomGameOptions,
+  type SteamGame,
+} from "@/lib/steam";
+
+/**
+ * A few games per filter combination that already passed every check, so a
+ * new round does not wait on the random pick probing Steam. Each take is
+ * refilled in the background. Pools live in this process's memory only.
+ */
+
+type PooledGame = {
+  game: SteamGame;
+  addedAt: number;
+};
+
+type GamePool = {
+  options: RandomGameOptions;
+  games: PooledGame[];
+  filling: boolean;
+};
+
+const POOL_SIZE = 3;
+const POOL_LIMIT = 50;
+/** Review counts drift; older games are dropped rather than dealt. */
+const POOLED_GAME_TTL_MS = 1000 * 60 * 30;
+
+const pools = new Map<string, GamePool>();
+
+function getPoolKey({
+  difficulty = DEFAULT_DIFFICULTY,
+  genres = [],
+  target = DEFAULT_GUESS_TARGET,
+  locale = DEFAULT_LOCALE,
+  mature = false,
+}: RandomGameOptions) {
+  return [
+    difficulty,
+    target,
+    locale,
+    [...genres].sort().join(","),
+    mature ? "mature" : "",
+  ].join("|");
+}
+
+function getPool(options: RandomGameOptions) {
+  const key = getPoolKey(options);
+  const pool = pools.get(key) ?? { options, games: [], filling: false };
+  pools.delete(key);
+  pools.set(key, pool);
+  if (pools.size > POOL_LIMIT) {
+    const [oldest] = pools.keys();
+    pools.delete(oldest);
+  }
+  return pool;
+}
+
+async function fillPool(pool: GamePool) {
+  if (pool.filling) return;
+  pool.filling = true;
+  try {
+    while (pool.games.length < POOL_SIZE) {
+      const game = await findRandomSteamGame(
+        pool.games.map((entry) => entry.game.appId),
+        pool.options,
+      );
+      pool.games.push({ game, addedAt: Date.now() });
+    }
+  } catch (error) {
+    // Running dry or being throttled just leaves the pool short until the
+    // next take tries again.
+    if (
+      !(error instanceof NoEligibleGameError) &&
+      !(error instanceof SteamThrottledError)
+    ) {
+      logEvent("warn", "game-pool.refill-failed", {
+        ...pool.options,
+        error,
+      });
+    }
+  } finally {
+    pool.filling = false;
+  }
+}
+
+/**
+ * Deals a random game like `fetchRandomSteamGame`, from the warm pool when it
+ * holds one the player has not excluded and nobody was dealt recently. Games
+ * blocked since they were pooled are dropped.
+ */
+export async function takeRandomSteamGame(
+  excludeIds: number[] = [],
+  options: RandomGameOptions = {},
+) {
+  const pool = getPool(options);
+  const exclude = new Set(excludeIds);
+  const { blocked } = await getCuratedAppIds();
+  const now = Date.now();
+  pool.games = pool.games.filter(
+    (entry) =>
+      now - entry.addedAt <= POOLED_GAME_TTL_MS &&
+      !blocked.has(entry.game.appId),
+  );
+
+  const index = pool.games.findIndex(
+    ({ game }) => !exclude.has(game.appId) && !wasServedRecently(game.appId),
+  );
+  let game: SteamGame;
+  if (index === -1) {
+    game = await fetchRandomSteamGame(excludeIds, options);
+  } else {
+    [{ game }] = pool.games.splice(index, 1);
+    markGameServed(game.appId);
+  }
+
+  fillPool(pool);
+  return game;
+}
@@ -0,0 +1,87 @@
+/**
+ * The game's rules in one place, read by the server and the browser alike.
+ * A rule set is picked per endless round; the daily puzzle and rooms always
+ * play Classic.
+ */
+
+export const RULE_SETS = ["classic", "hardcore", "relaxed"] as const;
+
+export type RuleSetId = (typeof RULE_SETS)[number];
+
+/** Preset names and blurbs live in the message catalog under `rules.*`. */
+export type RuleSet = {
+  /** Guesses per round; every bought hint uses one up. */
+  maxGuesses: number;
+  /** Multiplies each guess target's win tolerance (rounded down). */
+  toleranceScale: number;
+  /** Whether rounds offer hints at all. */
+  hints: boolean;
+  /** Multiplies the points a round earns. */
+  pointsScale: number;
+};
+
+export const DEFAULT_RULE_SET: RuleSetId = "classic";
+
+export const RULE_SET_PRESETS: Record<RuleSetId, RuleSet> = {
+  classic: {
+    maxGuesses: 5,
+    toleranceScale: 1,
+    hints: true,
+    pointsScale: 1,
+  },
+  hardcore: {
+    maxGuesses: 3,
+    toleranceScale: 0.5,
+    hints: false,
+    pointsScale: 2,
+  },
+  relaxed: {
+    maxGuesses: 7,
+    toleranceScale: 2,
+    hints: true,
+    pointsScale: 0.5,
+  },
+};
+
+/** Classic's guess count, which the daily puzzle and rooms play with. */
+export const MAX_GUESSES = RULE_SET_PRESETS.classic.maxGuesses;
+export const WIN_THRESHOLD = 2; // percentage points difference allowed
+/** Losses per day across endless rounds, whatever the rule set. */
+export const DAILY_LOSS_LIMIT = 3;
+/** Steam reviews a game needs before it is dealt at all. */
+export const MIN_TOTAL_REVIEWS = 100;
+
+/**
+ * Points before the rule set's scale: a win earns WIN_POINTS plus
+ * GUESS_LEFT_POINTS for every guess it left unused; a loss earns
+ * LOSS_POINTS_BY_BAND for its closest guess's distance band.
+ */
+export const WIN_POINTS = 100;
+export const GUESS_LEFT_POINTS = 20;
+export const LOSS_POINTS_BY_BAND = [0, 30, 10, 0] as const;
+
+/**
+ * Direction of the real score relative to a guess: "higher" means the actual
+ * percentage is above the guess, "lower" means it is below.
+ */
+export type GuessOutcome = "higher" | "lower" | "win";
+
+export function isRuleSet(value: unknown): value is RuleSetId {
+  return (
+    typeof value === "string" &&
+    (RULE_SETS as readonly string[]).includes(value)
+  );
+}
+
+export function judgeGuess(
+  guess: number,
+  actual: number,
+  threshold = WIN_THRESHOLD,
+): GuessOutcome {
+  if (Math.abs(guess - actual) <= threshold) return "win";
+  return guess > actual ? "lower" : "higher";
+}
+
+export function isValidGuess(value: number) {
+  return Number.isFinite(value) && value >= 0 && value <= 100;
+}
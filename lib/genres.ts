@@ -0,0 +1,39 @@
+/** The store genres players can filter on; names match Steam's English labels. */
+export const STEAM_GENRES = [
+  "Action",
+  "Adventure",
+  "Casual",
+  "Indie",
+  "Massively Multiplayer",
+  "Racing",
+  "RPG",
+  "Simulation",
+  "Sports",
+  "Strategy",
+  "Free To Play",
+] as const;
+
+export const MAX_GENRE_FILTERS = 5;
+
+/**
+ * Parses a comma-separated `genres` query value into known genre names,
+ * ignoring case and anything not in `STEAM_GENRES`.
+ */
+export function parseGenreFilters(value: string | null) {
+  if (!value) return [];
+  const known = new Map<string, string>(
+    STEAM_GENRES.map((genre) => [genre.toLowerCase(), genre]),
+  );
+  const genres = value
+    .split(",")
+    .map((genre) => known.get(genre.trim().toLowerCase()))
+    .filter((genre): genre is string => Boolean(genre));
+  return Array.from(new Set(genres)).slice(0, MAX_GENRE_FILTERS);
+}
+
+/** A game matches when it has at least one of the requested genres. */
+export function matchesGenres(gameGenres: string[], filters: string[]) {
+  if (filters.length === 0) return true;
+  const wanted = new Set(filters.map((genre) => genre.toLowerCase()));
+  return gameGenres.some((genre) => wanted.has(genre.toLowerCase()));
+}
@@ -0,0 +1,214 @@
+import {
+  DEFAULT_RULE_SET,
+  RULE_SETS,
+  RULE_SET_PRESETS,
+  WIN_THRESHOLD,
+  isValidGuess,
+  judgeGuess,
+  type GuessOutcome,
+  type RuleSetId,
+} from "@/lib/game-rules";
+import type { MessageValues } from "@/lib/i18n";
+import type { SteamGame } from "@/lib/steam";
+
+export const GUESS_TARGETS = [
+  "score",
+  "year",
+  "price",
+  "metacritic",
+  "reviews",
+] as const;
+
+export type GuessTarget = (typeof GUESS_TARGETS)[number];
+
+/** How close a guess landed: 0 is a hit, 3 is way off. */
+export type DistanceBand = 0 | 1 | 2 | 3;
+
+/**
+ * How a target is judged. Its wording lives in the message catalog under
+ * `targets.<target>.*` (label, prompt, tolerance, placeholder, invalid).
+ */
+export type GuessTargetRules = {
+  /** Placeholder values for the target's catalog messages. */
+  messageValues: MessageValues;
+  /** The value guesses are judged against, or null when the game lacks it. */
+  getAnswer: (game: SteamGame) => number | null;
+  /** Turns what the player typed into the value sent to the server. */
+  parse: (input: string) => number | null;
+  isValid: (value: number) => boolean;
+  judge: (guess: number, actual: number) => GuessOutcome;
+  format: (value: number) => string;
+  distance: (guess: number, actual: number) => DistanceBand;
+};
+
+export const DEFAULT_GUESS_TARGET: GuessTarget = "score";
+
+const YEAR_TOLERANCE = 1;
+const METACRITIC_TOLERANCE = 3;
+const PRICE_TOLERANCE_SHARE = 0.1;
+const PRICE_FLOOR_CENTS = 100;
+const MIN_YEAR = 1970;
+const MAX_YEAR = 2100;
+const MAX_PRICE_CENTS = 100_000;
+const MAX_REVIEW_COUNT = 1_000_000_000;
+
+const compactNumber = new Intl.NumberFormat("en", {
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+function parseNumber(input: string) {
+  const trimmed = input.trim();
+  if (trimmed.length === 0) return null;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+function judgeWithin(
+  guess: number,
+  actual: number,
+  tolerance: number,
+): GuessOutcome {
+  if (Math.abs(guess - actual) <= tolerance) return "win";
+  return guess > actual ? "lower" : "higher";
+}
+
+function bandFor(distance: number, limits: [number, number, number]) {
+  const index = limits.findIndex((limit) => distance <= limit);
+  return (index === -1 ? 3 : index) as DistanceBand;
+}
+
+/** A share of the real price, but never less than `floorCents`. */
+function priceTolerance(actual: number, share: number, floorCents: number) {
+  return Math.max(floorCents, Math.round(actual * share));
+}
+
+function getMagnitude(count: number) {
+  return Math.floor(Math.log10(Math.max(count, 1)));
+}
+
+/**
+ * What each target asks for and how it is judged, with every win tolerance
+ * multiplied by `scale` and rounded down. The review score is the original
+ * game; the others reuse the same higher/lower loop with their own units and
+ * tolerances. Prices are in US cents, review counts are judged by order of
+ * magnitude (1–9, 10–99, 100–999, …).
+ */
+function createTargetRules(
+  scale: number,
+): Record<GuessTarget, GuessTargetRules> {
+  const scoreTolerance = Math.floor(WIN_THRESHOLD * scale);
+  const yearTolerance = Math.floor(YEAR_TOLERANCE * scale);
+  const metacriticTolerance = Math.floor(METACRITIC_TOLERANCE * scale);
+  const priceWin = (actual: number) =>
+    priceTolerance(
+      actual,
+      PRICE_TOLERANCE_SHARE * scale,
+      PRICE_FLOOR_CENTS * scale,
+    );
+
+  return {
+    score: {
+      messageValues: { threshold: scoreTolerance },
+      getAnswer: (game) => game.reviewScore,
+      parse: parseNumber,
+      isValid: isValidGuess,
+      judge: (guess, actual) => judgeGuess(guess, actual, scoreTolerance),
+      format: (value) => `${value}%`,
+      distance: (guess, actual) =>
+        bandFor(Math.abs(guess - actual), [scoreTolerance, 10, 25]),
+    },
+    year: {
+      messageValues: { threshold: yearTolerance, min: MIN_YEAR, max: MAX_YEAR },
+      getAnswer: (game) => game.releaseYear,
+      parse: parseNumber,
+      isValid: (value) =>
+        Number.isInteger(value) && value >= MIN_YEAR && value <= MAX_YEAR,
+      judge: (guess, actual) => judgeWithin(guess, actual, yearTolerance),
+      format: (value) => String(value),
+      distance: (guess, actual) =>
+        bandFor(Math.abs(guess - actual), [yearTolerance, 3, 8]),
+    },
+    price: {
+      messageValues: {},
+      getAnswer: (game) => game.priceCents,
+      parse: (input) => {
+        const value = parseNumber(input.replace(/[$,]/g, ""));
+        return value === null ? null : Math.round(value * 100);
+      },
+      isValid: (value) =>
+        Number.isInteger(value) && value >= 0 && value <= MAX_PRICE_CENTS,
+      judge: (guess, actual) => judgeWithin(guess, actual, priceWin(actual)),
+      format: (value) => `$${(value / 100).toFixed(2)}`,
+      distance: (guess, actual) =>
+        bandFor(Math.abs(guess - actual), [
+          priceWin(actual),
+          priceTolerance(actual, 0.25, 300),
+          priceTolerance(actual, 0.5, 1000),
+        ]),
+    },
+    metacritic: {
+      messageValues: { threshold: metacriticTolerance },
+      getAnswer: (game) => game.metacriticScore,
+      parse: parseNumber,
+      isValid: isValidGuess,
+      judge: (guess, actual) => judgeWithin(guess, actual, metacriticTolerance),
+      format: (value) => String(value),
+      distance: (guess, actual) =>
+        bandFor(Math.abs(guess - actual), [metacriticTolerance, 8, 15]),
+    },
+    reviews: {
+      messageValues: {},
+      getAnswer: (game) => game.totalReviews,
+      parse: (input) => {
+        const match = input
+          .trim()
+          .replace(/,/g, "")
+          .match(/^(\d+(?:\.\d+)?)\s*([km])?$/i);
+        if (!match) return null;
+        const multiplier =
+          match[2]?.toLowerCase() === "m"
+            ? 1_000_000
+            : match[2]?.toLowerCase() === "k"
+              ? 1_000
+              : 1;
+        return Math.round(Number(match[1]) * multiplier);
+      },
+      isValid: (value) =>
+        Number.isInteger(value) && value >= 0 && value <= MAX_REVIEW_COUNT,
+      judge: (guess, actual) =>
+        judgeWithin(getMagnitude(guess), getMagnitude(actual), 0),
+      format: (value) => compactNumber.format(value),
+      distance: (guess, actual) =>
+        bandFor(
+          Math.abs(getMagnitude(guess) - getMagnitude(actual)),
+          [0, 1, 2],
+        ),
+    },
+  };
+}
+
+const RULES_BY_SET = Object.fromEntries(
+  RULE_SETS.map((ruleSet) => [
+    ruleSet,
+    createTargetRules(RULE_SET_PRESETS[ruleSet].toleranceScale),
+  ]),
+) as Record<RuleSetId, Record<GuessTarget, GuessTargetRules>>;
+
+/** Classic's rules, which the daily puzzle and rooms are judged by. */
+export const GUESS_TARGET_RULES = RULES_BY_SET[DEFAULT_RULE_SET];
+
+/** How `target` is judged under `ruleSet`. */
+export function getGuessTargetRules(
+  target: GuessTarget,
+  ruleSet: RuleSetId = DEFAULT_RULE_SET,
+) {
+  return RULES_BY_SET[ruleSet][target];
+}
+
+export function isGuessTarget(value: unknown): value is GuessTarget {
+  return (
+    typeof value === "string" &&
+    (GUESS_TARGETS as readonly string[]).includes(value)
+  );
+}
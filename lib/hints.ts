@@ -0,0 +1,81 @@
+import type { GuessTarget } from "@/lib/guess-targets";
+import { translate, type Locale, type MessageKey } from "@/lib/i18n";
+import type { SteamGame } from "@/lib/steam";
+
+export const HINT_KINDS = [
+  "release",
+  "price",
+  "reviews",
+  "metacritic",
+  "summary",
+] as const;
+
+export type HintKind = (typeof HINT_KINDS)[number];
+
+/** A clue about the current game, already translated and formatted. */
+export type Hint = {
+  kind: HintKind;
+  label: string;
+  value: string;
+};
+
+/** Hints that would hand over the answer are never offered for that target. */
+const HINTS_HIDDEN_FOR: Record<GuessTarget, HintKind[]> = {
+  score: [],
+  year: ["release"],
+  price: ["price"],
+  metacritic: ["metacritic"],
+  reviews: ["reviews"],
+};
+
+/**
+ * Steam's review summary (English, whatever the review language) narrowed to its broad
+ * sentiment, so "Very Positive" and "Overwhelmingly Positive" both read
+ * "… Positive". Summaries with too few reviews ("3 user reviews") carry no
+ * sentiment and are dropped.
+ */
+export function maskReviewSummary(summary: string | null): MessageKey | null {
+  if (!summary) return null;
+  if (/positive/i.test(summary)) return "hints.positive";
+  if (/negative/i.test(summary)) return "hints.negative";
+  if (/mixed/i.test(summary)) return "hints.mixed";
+  return null;
+}
+
+/**
+ * The clues a round can buy, in the order they are revealed: the vaguest
+ * first, the review sentiment last.
+ */
+export function buildHints(
+  game: SteamGame,
+  target: GuessTarget,
+  locale: Locale,
+): Hint[] {
+  const sentiment = maskReviewSummary(game.reviewSummary);
+  const values: Record<HintKind, string | null> = {
+    release: game.releaseDate,
+    price:
+      game.priceCents === null
+        ? null
+        : game.priceCents === 0
+          ? translate(locale, "hints.free")
+          : `$${(game.priceCents / 100).toFixed(2)}`,
+    reviews:
+      game.totalReviews === null
+        ? null
+        : translate(locale, "hints.reviewCount", {
+            count: new Intl.NumberFormat(locale).format(game.totalReviews),
+          }),
+    metacritic:
+      game.metacriticScore === null ? null : String(game.metacriticScore),
+    summary: sentiment ? translate(locale, sentiment) : null,
+  };
+
+  return HINT_KINDS.filter(
+    (kind) => values[kind] !== null && !HINTS_HIDDEN_FOR[target].includes(kind),
+  ).map((kind) => ({
+    kind,
+    label: translate(locale, `hints.${kind}`),
+    value: values[kind] ?? "",
+  }));
+}
@@ -0,0 +1,173 @@
+import { isDifficulty, type Difficulty } from "@/lib/difficulty";
+import type { GuessEntry, RoundState } from "@/lib/game-engine";
+import {
+  DEFAULT_RULE_SET,
+  MAX_GUESSES,
+  RULE_SET_PRESETS,
+  isRuleSet,
+  type RuleSetId,
+} from "@/lib/game-rules";
+import {
+  GUESS_TARGETS,
+  isGuessTarget,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+
+/**
+ * A log of finished endless rounds, newest first. It sits beside the stats
+ * counters rather than inside them: it is per-device, is never synced, and is
+ * pruned to whatever size the player picked.
+ */
+
+export type RoundRecord = {
+  appId: number;
+  name: string;
+  target: GuessTarget;
+  difficulty: Difficulty;
+  /** Missing on records kept before rule sets existed, which were Classic. */
+  ruleSet?: RuleSetId;
+  guesses: GuessEntry[];
+  hintsUsed: number;
+  /** Null when the round was skipped before the answer was revealed. */
+  actualScore: number | null;
+  result: "win" | "loss";
+  /** Missing on records kept before rounds earned points. */
+  points?: number;
+  date: string;
+};
+
+export const HISTORY_LIMITS = [25, 50, 100, 250] as const;
+
+export type HistoryLimit = (typeof HISTORY_LIMITS)[number];
+
+export const DEFAULT_HISTORY_LIMIT: HistoryLimit = 100;
+
+export type GuessDistribution = {
+  /** Wins by guesses used (hints included), index 0 being a first-guess win. */
+  wins: number[];
+  losses: number;
+};
+
+export function isHistoryLimit(value: unknown): value is HistoryLimit {
+  return (HISTORY_LIMITS as readonly unknown[]).includes(value);
+}
+
+/** The record for a round that just ended, or null if it never started. */
+export function createRoundRecord(
+  round: RoundState,
+  name: string,
+  date: string,
+): RoundRecord | null {
+  if (
+    round.appId === null ||
+    (round.phase !== "won" && round.phase !== "lost")
+  ) {
+    return null;
+  }
+  return {
+    appId: round.appId,
+    name,
+    target: round.target,
+    difficulty: round.difficulty,
+    ruleSet: round.ruleSet,
+    guesses: round.guesses,
+    hintsUsed: round.hints.length,
+    actualScore: round.actualScore,
+    result: round.phase === "won" ? "win" : "loss",
+    points: round.points ?? 0,
+    date,
+  };
+}
+
+/** Adds a round to the front of the log and drops what falls past `limit`. */
+export function appendRoundRecord(
+  history: RoundRecord[],
+  record: RoundRecord,
+  limit: number,
+) {
+  return [record, ...history].slice(0, limit);
+}
+
+/** The guesses the record's round allowed, hints included. */
+export function getRecordMaxGuesses(record: RoundRecord) {
+  return RULE_SET_PRESETS[record.ruleSet ?? DEFAULT_RULE_SET].maxGuesses;
+}
+
+export function getGuessDistribution(
+  history: RoundRecord[],
+): GuessDistribution {
+  // As many bars as the longest round in the log allowed guesses.
+  const length = Math.max(MAX_GUESSES, ...history.map(getRecordMaxGuesses));
+  const wins = Array.from({ length }, () => 0);
+  let losses = 0;
+  for (const record of history) {
+    if (record.result === "loss") {
+      losses += 1;
+      continue;
+    }
+    const used = record.guesses.length + record.hintsUsed;
+    wins[Math.min(Math.max(used, 1), length) - 1] += 1;
+  }
+  return { wins, losses };
+}
+
+/** How far a round's last guess landed from the answer, if both are known. */
+export function getRecordError(record: RoundRecord) {
+  const last = record.guesses.at(-1);
+  if (!last || record.actualScore === null) return null;
+  return Math.abs(last.value - record.actualScore);
+}
+
+/**
+ * Mean error of the last guess per target, in that target's units. Targets
+ * without a revealed round are left out.
+ */
+export function getAverageErrors(history: RoundRecord[]) {
+  const averages: Partial<Record<GuessTarget, number>> = {};
+  for (const target of GUESS_TARGETS) {
+    const errors = history
+      .filter((record) => record.target === target)
+      .map(getRecordError)
+      .filter((error): error is number => error !== null);
+    if (errors.length > 0) {
+      averages[target] =
+        errors.reduce((sum, error) => sum + error, 0) / errors.length;
+    }
+  }
+  return averages;
+}
+
+function isGuessEntry(value: unknown): value is GuessEntry {
+  const entry = value as Partial<GuessEntry> | null;
+  return (
+    typeof entry?.value === "number" &&
+    Number.isFinite(entry.value) &&
+    (entry.outcome === "higher" ||
+      entry.outcome === "lower" ||
+      entry.outcome === "win")
+  );
+}
+
+function isRoundRecord(value: unknown): value is RoundRecord {
+  const record = value as Partial<RoundRecord> | null;
+  return (
+    Number.isInteger(record?.appId) &&
+    typeof record?.name === "string" &&
+    isGuessTarget(record.target) &&
+    isDifficulty(record.difficulty) &&
+    (record.ruleSet === undefined || isRuleSet(record.ruleSet)) &&
+    Array.isArray(record.guesses) &&
+    record.guesses.every(isGuessEntry) &&
+    Number.isInteger(record.hintsUsed) &&
+    (record.actualScore === null || Number.isFinite(record.actualScore)) &&
+    (record.result === "win" || record.result === "loss") &&
+    (record.points === undefined || Number.isInteger(record.points)) &&
+    typeof record.date === "string"
+  );
+}
+
+/** Keeps the well-formed entries of a stored log, up to `limit`. */
+export function parseRoundHistory(raw: unknown, limit: number): RoundRecord[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isRoundRecord).slice(0, limit);
+}
@@ -0,0 +1,52 @@
+import { de } from "@/lib/messages/de";
+import { en, type MessageKey, type Messages } from "@/lib/messages/en";
+import { es } from "@/lib/messages/es";
+
+export type { MessageKey } from "@/lib/messages/en";
+
+export const LOCALES = ["en", "es", "de"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export type LocaleSettings = {
+  /** Shown in the language picker, in the language itself. */
+  nativeName: string;
+  /** Steam's name for the language, used by both `l=` and `language=`. */
+  steamLanguage: string;
+};
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_SETTINGS: Record<Locale, LocaleSettings> = {
+  en: { nativeName: "English", steamLanguage: "english" },
+  es: { nativeName: "Español", steamLanguage: "spanish" },
+  de: { nativeName: "Deutsch", steamLanguage: "german" },
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, es, de };
+
+export type MessageValues = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, values?: MessageValues) => string;
+
+export function isLocale(value: unknown): value is Locale {
+  return (
+    typeof value === "string" && (LOCALES as readonly string[]).includes(value)
+  );
+}
+
+/** Looks `key` up in the locale's catalog and fills in `{name}` placeholders. */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  values: MessageValues = {},
+) {
+  const template = CATALOGS[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match,
+  );
+}
+
+export function createTranslator(locale: Locale): Translator {
+  return (key, values) => translate(locale, key, values);
+}
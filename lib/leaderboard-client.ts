@@ -0,0 +1,37 @@
+import type {
+  Leaderboard,
+  LeaderboardPeriod,
+  LeaderboardView,
+} from "@/lib/leaderboard";
+import type { GuessTarget } from "@/lib/guess-targets";
+import type { DeviceCredentials } from "@/lib/profiles";
+import { readJson } from "@/lib/round-client";
+
+export async function requestLeaderboard(
+  board: Leaderboard,
+  period: LeaderboardPeriod,
+  target: GuessTarget,
+) {
+  const params = new URLSearchParams({ board, period, target });
+  const response = await fetch(`/api/leaderboard?${params.toString()}`, {
+    method: "GET",
+    cache: "no-store",
+  });
+  return readJson<LeaderboardView>(response, "Leaderboard request failed");
+}
+
+export async function requestDisplayName(
+  credentials: DeviceCredentials,
+  displayName: string,
+) {
+  const response = await fetch("/api/leaderboard/name", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...credentials, displayName }),
+  });
+  return readJson<{ displayName: string }>(
+    response,
+    "Display name update failed",
+  );
+}
@@ -0,0 +1,283 @@
+import {
+  listRecords,
+  readRecord,
+  withRecordLock,
+  writeRecord,
+} from "@/lib/data-store";
+import { DEFAULT_RULE_SET } from "@/lib/game-rules";
+import type { GuessTarget } from "@/lib/guess-targets";
+import {
+  MIN_RANKED_ROUNDS,
+  type Leaderboard,
+  type LeaderboardPeriod,
+  type LeaderboardView,
+  type RecordedRound,
+} from "@/lib/leaderboard";
+import { authenticateDevice, type DeviceCredentials } from "@/lib/profiles";
+import { readRoundReceipt, type RoundDeal } from "@/lib/round";
+
+/**
+ * Public rankings built only from rounds the server replayed itself. A round
+ * is tied to a profile when it is dealt and counted when its last guess is
+ * checked, so players never pick which rounds reach the board: one replaced
+ * by the next deal before it finished counts as a loss. Each game counts once
+ * per player per day.
+ */
+
+type PeriodStats = {
+  rounds: number;
+  wins: number;
+  currentStreak: number;
+  bestStreak: number;
+  /** Rounds with at least one guess, the ones that have an error. */
+  guessedRounds: number;
+  totalError: number;
+};
+
+type PeriodBucket = {
+  key: string | null;
+  byTarget: Partial<Record<GuessTarget, PeriodStats>>;
+};
+
+type PlayerRecord = {
+  profileId: string;
+  displayName: string | null;
+  allTime: PeriodBucket;
+  week: PeriodBucket;
+  day: PeriodBucket & { appIds: number[] };
+  /** The round in play, dealt with the profile and not finished yet. */
+  open?: { roundId: string; target: GuessTarget } | null;
+};
+
+const PLAYERS = "leaderboard-players";
+const LEADERBOARD_SIZE = 20;
+const DISPLAY_NAME_PATTERN = /^[\p{L}\p{N} _.'-]{2,20}$/u;
+
+export class LeaderboardError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "LeaderboardError";
+    this.status = status;
+  }
+}
+
+/**
+ * Boards are shared, so their day is the same UTC day for every player, not
+ * the player's own day the loss limit counts in. The board UI says so.
+ */
+const getToday = () => new Date().toISOString().slice(0, 10);
+
+/** Weeks run Monday to Sunday in UTC and are named by their Monday. */
+function getWeekKey(day: string) {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+function getPeriodKey(period: LeaderboardPeriod, today: string) {
+  if (period === "day") return today;
+  if (period === "week") return getWeekKey(today);
+  return null;
+}
+
+function emptyPeriodStats(): PeriodStats {
+  return {
+    rounds: 0,
+    wins: 0,
+    currentStreak: 0,
+    bestStreak: 0,
+    guessedRounds: 0,
+    totalError: 0,
+  };
+}
+
+function createPlayer(profileId: string): PlayerRecord {
+  return {
+    profileId,
+    displayName: null,
+    allTime: { key: null, byTarget: {} },
+    week: { key: null, byTarget: {} },
+    day: { key: null, byTarget: {}, appIds: [] },
+  };
+}
+
+function recordInPeriod(
+  bucket: PeriodBucket,
+  target: GuessTarget,
+  result: RecordedRound,
+) {
+  const stats = bucket.byTarget[target] ?? emptyPeriodStats();
+  const currentStreak = result.won ? stats.currentStreak + 1 : 0;
+  bucket.byTarget[target] = {
+    rounds: stats.rounds + 1,
+    wins: stats.wins + (result.won ? 1 : 0),
+    currentStreak,
+    bestStreak: Math.max(stats.bestStreak, currentStreak),
+    guessedRounds:
+      stats.guessedRounds + (result.absoluteError === null ? 0 : 1),
+    totalError: stats.totalError + (result.absoluteError ?? 0),
+  };
+}
+
+function countResult(
+  player: PlayerRecord,
+  target: GuessTarget,
+  result: RecordedRound,
+) {
+  recordInPeriod(player.allTime, target, result);
+  recordInPeriod(player.week, target, result);
+  recordInPeriod(player.day, target, result);
+}
+
+/** Loads the player with their week and day rolled over to today's. */
+function updatePlayer<T>(
+  profileId: string,
+  update: (player: PlayerRecord) => T,
+) {
+  return withRecordLock(PLAYERS, profileId, async () => {
+    const player =
+      (await readRecord<PlayerRecord>(PLAYERS, profileId)) ??
+      createPlayer(profileId);
+    const today = getToday();
+    const weekKey = getWeekKey(today);
+    if (player.week.key !== weekKey) {
+      player.week = { key: weekKey, byTarget: {} };
+    }
+    if (player.day.key !== today) {
+      player.day = { key: today, byTarget: {}, appIds: [] };
+    }
+    const result = update(player);
+    await writeRecord(PLAYERS, profileId, player);
+    return result;
+  });
+}
+
+/** Boards compare like with like, so only endless Classic rounds count. */
+function isRankedRound(deal: RoundDeal) {
+  return (
+    deal.mode === "standard" &&
+    deal.daily === null &&
+    deal.ruleSet === DEFAULT_RULE_SET
+  );
+}
+
+/**
+ * Puts a round just dealt to the profile in play. The round it replaces
+ * counts as a loss if it never finished. A round that cannot count (another
+ * rule set) still settles the old one.
+ */
+export function openLeaderboardRound(profileId: string, deal: RoundDeal) {
+  return updatePlayer(profileId, (player) => {
+    if (player.open) {
+      countResult(player, player.open.target, {
+        won: false,
+        absoluteError: null,
+      });
+    }
+    player.open = null;
+    // A game dealt again today (a repeat in endless) would otherwise be a
+    // free win the second time.
+    if (!isRankedRound(deal) || player.day.appIds.includes(deal.appId)) {
+      return;
+    }
+    player.day.appIds.push(deal.appId);
+    player.open = { roundId: deal.roundId, target: deal.target };
+  });
+}
+
+/**
+ * Counts a finished round from its last token. Rounds dealt without a profile,
+ * or no longer in play, are left out and give null.
+ */
+export async function recordRound(
+  token: string,
+): Promise<RecordedRound | null> {
+  const receipt = await readRoundReceipt(token);
+  if (!receipt.profileId || !isRankedRound(receipt)) return null;
+
+  const result = { won: receipt.won, absoluteError: receipt.absoluteError };
+  return updatePlayer(receipt.profileId, (player) => {
+    if (player.open?.roundId !== receipt.roundId) return null;
+    countResult(player, receipt.target, result);
+    player.open = null;
+    return result;
+  });
+}
+
+export function isDisplayName(value: unknown): value is string {
+  return typeof value === "string" && DISPLAY_NAME_PATTERN.test(value.trim());
+}
+
+export async function setDisplayName(
+  credentials: DeviceCredentials,
+  displayName: string,
+) {
+  await authenticateDevice(credentials);
+  const name = displayName.trim().replace(/\s+/g, " ");
+  if (!isDisplayName(name)) {
+    throw new LeaderboardError(
+      "Display names are 2 to 20 letters, numbers, spaces or _.'-",
+      400,
+    );
+  }
+
+  return withRecordLock(PLAYERS, credentials.profileId, async () => {
+    const player =
+      (await readRecord<PlayerRecord>(PLAYERS, credentials.profileId)) ??
+      createPlayer(credentials.profileId);
+    player.displayName = name;
+    await writeRecord(PLAYERS, player.profileId, player);
+    return { displayName: name };
+  });
+}
+
+function getBoardValue(board: Leaderboard, stats: PeriodStats) {
+  if (board === "streak") return stats.bestStreak;
+  if (board === "winRate") return stats.wins / stats.rounds;
+  return stats.totalError / stats.guessedRounds;
+}
+
+/** Players only appear once they have picked a display name. */
+export async function getLeaderboard(
+  board: Leaderboard,
+  period: LeaderboardPeriod,
+  target: GuessTarget,
+): Promise<LeaderboardView> {
+  const periodKey = getPeriodKey(period, getToday());
+  const players = await listRecords<PlayerRecord>(PLAYERS);
+  const minRounds = board === "streak" ? 1 : MIN_RANKED_ROUNDS[period];
+
+  const ranked = players
+    .flatMap((player) => {
+      const bucket = {
+        all: player.allTime,
+        week: player.week,
+        day: player.day,
+      }[period];
+      const stats = bucket.byTarget[target];
+      if (!player.displayName || !stats || bucket.key !== periodKey) return [];
+      const rounds = board === "error" ? stats.guessedRounds : stats.rounds;
+      if (rounds < minRounds) return [];
+      if (board === "streak" && stats.bestStreak === 0) return [];
+      return [
+        {
+          displayName: player.displayName,
+          value: getBoardValue(board, stats),
+          rounds: stats.rounds,
+        },
+      ];
+    })
+    .sort((a, b) =>
+      board === "error" ? a.value - b.value : b.value - a.value,
+    );
+
+  // Ties share a rank, so the order among equals does not look meaningful.
+  const entries = ranked.slice(0, LEADERBOARD_SIZE).map((entry) => {
+    const firstTie = ranked.findIndex((other) => other.value === entry.value);
+    return { rank: firstTie + 1, ...entry };
+  });
+
+  return { board, period, target, periodKey, entries };
+}
@@ -0,0 +1,54 @@
+import type { GuessTarget } from "@/lib/guess-targets";
+
+export const LEADERBOARDS = ["streak", "winRate", "error"] as const;
+
+export type Leaderboard = (typeof LEADERBOARDS)[number];
+
+export const LEADERBOARD_PERIODS = ["all", "week", "day"] as const;
+
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+export type LeaderboardEntry = {
+  rank: number;
+  displayName: string;
+  /** Best streak, win rate (0–1) or mean absolute error in target units. */
+  value: number;
+  rounds: number;
+};
+
+export type LeaderboardView = {
+  board: Leaderboard;
+  period: LeaderboardPeriod;
+  target: GuessTarget;
+  /** The UTC day or the Monday of the UTC week; null for all-time. */
+  periodKey: string | null;
+  entries: LeaderboardEntry[];
+};
+
+export type RecordedRound = {
+  won: boolean;
+  absoluteError: number | null;
+};
+
+/** Win rate and error need a few rounds before one lucky game tops the board. */
+export const MIN_RANKED_ROUNDS: Record<LeaderboardPeriod, number> = {
+  all: 20,
+  week: 10,
+  day: 3,
+};
+
+export function isLeaderboard(value: unknown): value is Leaderboard {
+  return (
+    typeof value === "string" &&
+    (LEADERBOARDS as readonly string[]).includes(value)
+  );
+}
+
+export function isLeaderboardPeriod(
+  value: unknown,
+): value is LeaderboardPeriod {
+  return (
+    typeof value === "string" &&
+    (LEADERBOARD_PERIODS as readonly string[]).includes(value)
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Structured server logs: one JSON object per line with the time, level and
+ * an event name, plus whatever fields the event carries. Errors are reduced
+ * to their name and message. `STEAMCODLE_LOG_LEVEL` (debug, info, warn,
+ * error) sets the quietest level written; the default is info.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === "string" && Object.hasOwn(LEVEL_ORDER, value);
+}
+
+function getMinimumLevel(): LogLevel {
+  const level = process.env.STEAMCODLE_LOG_LEVEL;
+  return isLogLevel(level) ? level : "info";
+}
+
+function toLogValue(value: unknown) {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+}
+
+export function logEvent(
+  level: LogLevel,
+  event: string,
+  fields: Record<string, unknown> = {},
+) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[getMinimumLevel()]) return;
+
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    event,
+    ...Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [key, toLogValue(value)]),
+    ),
+  });
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+}
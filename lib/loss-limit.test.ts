@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import { writeRecord } from "@/lib/data-store";
+import { DAILY_LOSS_LIMIT } from "@/lib/game-rules";
+import {
+  LossLimitError,
+  assertRoundInPlay,
+  closeOpenRound,
+  createSessionId,
+  getLossKey,
+  openRound,
+  recordRoundProgress,
+} from "@/lib/loss-limit";
+
+let dataDir: string;
+
+before(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "steamcodle-loss-limit-"));
+  process.env.STEAMCODLE_DATA_DIR = dataDir;
+});
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+function isLossLimitError(status: number) {
+  return (error: unknown) =>
+    error instanceof LossLimitError && error.status === status;
+}
+
+/** Deals a round the way `GET /api/game` does. */
+async function dealRound(lossKey: string, roundId: string, skipped = false) {
+  await closeOpenRound(lossKey, "UTC", skipped);
+  await openRound(lossKey, roundId);
+}
+
+describe("assertRoundInPlay", () => {
+  it("takes play on the open round only", async () => {
+    const key = createSessionId();
+    await dealRound(key, "open");
+    await assertRoundInPlay(key, "open");
+    // A prefetched round, or one left open in another tab.
+    await assert.rejects(
+      assertRoundInPlay(key, "prefetched"),
+      isLossLimitError(409),
+    );
+
+    await dealRound(key, "prefetched");
+    await assertRoundInPlay(key, "prefetched");
+    await assert.rejects(assertRoundInPlay(key, "open"), isLossLimitError(409));
+  });
+
+  it("closes a round once it is over", async () => {
+    const key = createSessionId();
+    await dealRound(key, "won");
+    await recordRoundProgress(key, "won", "won");
+    await assert.rejects(assertRoundInPlay(key, "won"), isLossLimitError(409));
+  });
+
+  it("refuses the open round too once the cap is reached", async () => {
+    const key = createSessionId();
+    await writeRecord("loss-sessions", key, {
+      timeZone: "UTC",
+      day: new Date().toISOString().slice(0, 10),
+      losses: DAILY_LOSS_LIMIT,
+      lostRoundIds: [],
+      open: { roundId: "dealt-before-the-cap", touched: true },
+    });
+    await assert.rejects(
+      assertRoundInPlay(key, "dealt-before-the-cap"),
+      isLossLimitError(429),
+    );
+  });
+});
+
+describe("closeOpenRound", () => {
+  it("counts a touched or skipped round as a loss and a swapped one as free", async () => {
+    const key = createSessionId();
+    await dealRound(key, "swapped");
+    await dealRound(key, "touched");
+    await recordRoundProgress(key, "touched", "playing");
+    await dealRound(key, "skipped");
+    assert.equal(await closeOpenRound(key, "UTC", true), 2);
+  });
+
+  it("counts a round lost on guesses once", async () => {
+    const key = createSessionId();
+    await dealRound(key, "lost");
+    await recordRoundProgress(key, "lost", "lost");
+    await recordRoundProgress(key, "lost", "lost");
+    assert.equal(await closeOpenRound(key, "UTC", false), 1);
+  });
+
+  it("refuses to deal once the cap is reached", async () => {
+    const key = createSessionId();
+    for (let index = 0; index < DAILY_LOSS_LIMIT; index += 1) {
+      await dealRound(key, `round-${index}`, true);
+    }
+    await assert.rejects(
+      closeOpenRound(key, "UTC", true),
+      isLossLimitError(429),
+    );
+  });
+
+  it("starts a new day with no losses and keeps the open round", async () => {
+    const key = createSessionId();
+    await writeRecord("loss-sessions", key, {
+      timeZone: "UTC",
+      day: "2026-03-01",
+      losses: DAILY_LOSS_LIMIT,
+      lostRoundIds: ["a", "b", "c"],
+      open: { roundId: "yesterday", touched: true },
+    });
+    await assertRoundInPlay(key, "yesterday");
+    // Rounds dealt ahead of time yesterday still have to be started.
+    await assert.rejects(
+      assertRoundInPlay(key, "prefetched-yesterday"),
+      isLossLimitError(409),
+    );
+    assert.equal(await closeOpenRound(key, "UTC", false), 1);
+  });
+});
+
+describe("getLossKey", () => {
+  it("follows the profile across sessions", () => {
+    const session = createSessionId();
+    const profileId = createSessionId();
+    assert.equal(getLossKey(session, null), session);
+    assert.equal(
+      getLossKey(session, profileId),
+      getLossKey(createSessionId(), profileId),
+    );
+    assert.notEqual(getLossKey(session, profileId), session);
+  });
+});
@@ -0,0 +1,199 @@
+import { randomUUID } from "node:crypto";
+
+import { getDateInTimeZone } from "@/lib/daily";
+import {
+  readRecord,
+  sweepRecords,
+  withRecordLock,
+  writeRecord,
+} from "@/lib/data-store";
+import { DAILY_LOSS_LIMIT } from "@/lib/game-rules";
+
+/**
+ * The daily loss cap, counted on the server so clearing storage does not
+ * reset it: per profile for players who have one, so a private window or
+ * cleared cookies do not either, and per browser session otherwise. Days run
+ * from the player's own midnight, in the time zone their browser reports.
+ *
+ * Only one endless round is open per player. Dealing the next one closes it,
+ * and it counts as a loss if the player guessed or bought a hint in it, or
+ * skipped it; an untouched round swapped out for a filter change is free,
+ * just as it is in the browser.
+ *
+ * Guesses and hints are only taken on the open round, and only while today's
+ * losses are under the cap. A round dealt ahead of time (the browser
+ * prefetches the next one), or one left behind in another tab, has to be
+ * started first, which settles the open round and checks the cap again.
+ */
+
+type LossSession = {
+  timeZone: string;
+  day: string;
+  losses: number;
+  /** Rounds already counted today, so a replayed token cannot count twice. */
+  lostRoundIds: string[];
+  open: { roundId: string; touched: boolean } | null;
+  /** Missing on sessions written before idle ones were swept. */
+  updatedAt?: number;
+};
+
+export type RoundProgress = "playing" | "won" | "lost";
+
+const SESSIONS = "loss-sessions";
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+// Two days idle and the day has rolled over in every time zone, and any round
+// left open has expired, so the session holds nothing worth keeping.
+const SESSION_IDLE_MS = 1000 * 60 * 60 * 48;
+
+export const LOSS_SESSION_COOKIE = "steamcodle_session";
+export const LOSS_SESSION_SECONDS = 60 * 60 * 24 * 365;
+
+export class LossLimitError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "LossLimitError";
+    this.status = status;
+  }
+}
+
+export function createSessionId() {
+  return randomUUID();
+}
+
+export function isSessionId(value: unknown): value is string {
+  return typeof value === "string" && SESSION_ID_PATTERN.test(value);
+}
+
+/**
+ * The key a player's losses are kept under: the profile a round was dealt
+ * with if any, else the browser session.
+ */
+export function getLossKey(sessionId: string, profileId: string | null) {
+  return profileId ? `profile-${profileId}` : sessionId;
+}
+
+export function isLossLimitDisabled() {
+  return process.env.NEXT_PUBLIC_DEV_MODE === "true";
+}
+
+/**
+ * Rolls the session over to the player's current day. The day never moves
+ * backwards, so switching time zones buys at most one early reset.
+ */
+function rollOver(session: LossSession, timeZone: string): LossSession {
+  const today = getDateInTimeZone(timeZone);
+  if (today <= session.day) return { ...session, timeZone };
+  return { ...session, timeZone, day: today, losses: 0, lostRoundIds: [] };
+}
+
+function createLimitReachedError() {
+  return new LossLimitError(
+    `You have lost ${DAILY_LOSS_LIMIT} games today. New games unlock at midnight.`,
+    429,
+  );
+}
+
+function countLoss(session: LossSession, roundId: string): LossSession {
+  if (session.lostRoundIds.includes(roundId)) return session;
+  return {
+    ...session,
+    losses: session.losses + 1,
+    lostRoundIds: [...session.lostRoundIds, roundId],
+  };
+}
+
+function isSessionIdle(session: LossSession) {
+  return (session.updatedAt ?? 0) < Date.now() - SESSION_IDLE_MS;
+}
+
+async function updateSession<T>(
+  lossKey: string,
+  timeZone: string | null,
+  update: (session: LossSession) => { session: LossSession; result: T },
+) {
+  const settled = await withRecordLock(SESSIONS, lossKey, async () => {
+    const stored = await readRecord<LossSession>(SESSIONS, lossKey);
+    const zone = timeZone ?? stored?.timeZone ?? "UTC";
+    const current = rollOver(
+      stored ?? {
+        timeZone: zone,
+        day: getDateInTimeZone(zone),
+        losses: 0,
+        lostRoundIds: [],
+        open: null,
+      },
+      zone,
+    );
+    const { session, result } = update(current);
+    await writeRecord(SESSIONS, lossKey, {
+      ...session,
+      updatedAt: Date.now(),
+    });
+    return result;
+  });
+  void sweepRecords(SESSIONS, isSessionIdle);
+  return settled;
+}
+
+/**
+ * Settles the session's open round before a new one is dealt, then refuses
+ * with a 429 once today's losses have reached the cap.
+ */
+export async function closeOpenRound(
+  lossKey: string,
+  timeZone: string,
+  skipped: boolean,
+) {
+  const losses = await updateSession(lossKey, timeZone, (current) => {
+    let session = current;
+    if (session.open && (session.open.touched || skipped)) {
+      session = countLoss(session, session.open.roundId);
+    }
+    session = { ...session, open: null };
+    return { session, result: session.losses };
+  });
+
+  if (losses >= DAILY_LOSS_LIMIT) throw createLimitReachedError();
+  return losses;
+}
+
+export function openRound(lossKey: string, roundId: string) {
+  return updateSession(lossKey, null, (session) => ({
+    session: { ...session, open: { roundId, touched: false } },
+    result: undefined,
+  }));
+}
+
+/**
+ * Refuses guesses and hints on any round but the session's open one, and on
+ * that one too once today's losses have reached the cap.
+ */
+export async function assertRoundInPlay(lossKey: string, roundId: string) {
+  const stored = await readRecord<LossSession>(SESSIONS, lossKey);
+  const session = stored && rollOver(stored, stored.timeZone);
+  if (session?.open?.roundId !== roundId) {
+    throw new LossLimitError("Start this round before playing it.", 409);
+  }
+  if (session.losses >= DAILY_LOSS_LIMIT) throw createLimitReachedError();
+}
+
+/** Notes a guess or hint; a round that just ended is closed and settled. */
+export function recordRoundProgress(
+  lossKey: string,
+  roundId: string,
+  progress: RoundProgress,
+) {
+  return updateSession(lossKey, null, (current) => {
+    let session = current;
+    if (progress === "lost") session = countLoss(session, roundId);
+    if (session.open?.roundId === roundId) {
+      session = {
+        ...session,
+        open: progress === "playing" ? { roundId, touched: true } : null,
+      };
+    }
+    return { session, result: undefined };
+  });
+}
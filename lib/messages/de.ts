@@ -0,0 +1,241 @@
+import type { Messages } from "./en";
+
+export const de: Messages = {
+  "language.en": "Englisch",
+  "language.es": "Spanisch",
+  "language.de": "Deutsch",
+  "locale.picker": "Sprache",
+  "locale.reviewFallback":
+    "Zu wenige Reviews auf {language}, daher zählen die englischen.",
+
+  "mode.endless": "Endlos",
+  "mode.daily": "Täglich",
+  "mode.timeAttack": "Zeitrennen",
+  "mode.leaders": "Bestenliste",
+  "mode.versus": "Duell",
+
+  "targets.score.label": "Bewertung",
+  "targets.score.prompt":
+    "Schätze den Anteil positiver Steam-Reviews auf {language} (0 — 100).",
+  "targets.score.tolerance": "Treffer bei ±{threshold}% der Steam-Bewertung",
+  "targets.score.placeholder": "Prozent von 0-100 eingeben",
+  "targets.score.invalid": "Der Tipp muss eine Zahl von 0 bis 100 sein.",
+  "targets.year.label": "Erscheinungsjahr",
+  "targets.year.prompt": "Schätze, in welchem Jahr es auf Steam erschien.",
+  "targets.year.tolerance": "Treffer bei ±{threshold} Jahr vom Release",
+  "targets.year.placeholder": "Jahr eingeben, z. B. 2015",
+  "targets.year.invalid": "Der Tipp muss ein Jahr von {min} bis {max} sein.",
+  "targets.price.label": "Preis",
+  "targets.price.prompt":
+    "Schätze den aktuellen Preis im US-Store (kostenlose Spiele kosten $0).",
+  "targets.price.tolerance": "Treffer innerhalb von 10% (oder $1) vom Preis",
+  "targets.price.placeholder": "Preis eingeben, z. B. 19.99",
+  "targets.price.invalid": "Der Tipp muss ein Preis von $0 bis $1.000 sein.",
+  "targets.metacritic.label": "Metacritic",
+  "targets.metacritic.prompt": "Schätze den Metacritic-Wert (0 — 100).",
+  "targets.metacritic.tolerance":
+    "Treffer bei ±{threshold} vom Metacritic-Wert",
+  "targets.metacritic.placeholder": "Wert von 0-100 eingeben",
+  "targets.metacritic.invalid": "Der Tipp muss eine Zahl von 0 bis 100 sein.",
+  "targets.reviews.label": "Review-Anzahl",
+  "targets.reviews.prompt":
+    "Schätze, wie viele Reviews es hat. Die richtige Größenordnung gewinnt.",
+  "targets.reviews.tolerance":
+    "Triff die richtige Größenordnung (Hunderte, Tausende, …)",
+  "targets.reviews.placeholder": "Anzahl eingeben, z. B. 5k",
+  "targets.reviews.invalid":
+    "Der Tipp muss eine Review-Anzahl wie 500 oder 12k sein.",
+
+  "difficulty.easy.label": "Leicht",
+  "difficulty.easy.description": "Store-Hits mit über 20k Reviews",
+  "difficulty.normal.label": "Normal",
+  "difficulty.normal.description": "Jedes Spiel mit über 100 Reviews",
+  "difficulty.hard.label": "Schwer",
+  "difficulty.hard.description": "Nischenspiele mit 100 bis 5k Reviews",
+
+  "rules.classic.label": "Klassisch",
+  "rules.classic.description": "5 Tipps, mit Hinweisen · Punkte ×1",
+  "rules.hardcore.label": "Hardcore",
+  "rules.hardcore.description":
+    "3 Tipps, halbe Toleranz, keine Hinweise · Punkte ×2",
+  "rules.relaxed.label": "Entspannt",
+  "rules.relaxed.description": "7 Tipps, doppelte Toleranz · Punkte ×0,5",
+  "rules.leaderboardNote": "Nur klassische Runden zählen für die Bestenlisten.",
+
+  "genres.any": "Genres · Alle",
+  "genres.selected": "Genres · {genres}",
+  "genres.clear": "Zurücksetzen",
+  "mature.label": "Spiele für Erwachsene zeigen",
+  "mature.hint":
+    "Spiele nur für Erwachsene und mit häufigen sexuellen Inhalten.",
+
+  "hints.release": "Erschienen",
+  "hints.price": "Preis",
+  "hints.reviews": "Reviews",
+  "hints.metacritic": "Metacritic",
+  "hints.summary": "Stimmung",
+  "hints.free": "Kostenlos",
+  "hints.reviewCount": "{count} Reviews",
+  "hints.positive": "… Positiv",
+  "hints.mixed": "Ausgeglichen",
+  "hints.negative": "… Negativ",
+  "hints.buy": "💡 Hinweis · kostet einen Tipp",
+
+  "round.counter": "{target} · Tipp {counter}",
+  "round.actual": "Tatsächlich: {value}",
+  "round.points": "+{points} Punkte",
+  "round.loading": "Steam-Server werden hochgefahren…",
+  "round.lossLimit":
+    "Tageslimit für Niederlagen erreicht. Komm morgen wieder.",
+  "round.won": "Stark! {target} getroffen.",
+  "round.outOfGuesses":
+    "Keine Tipps mehr. Starte ein neues Spiel für den nächsten Titel.",
+  "round.newGame": "Neues Spiel",
+  "round.skip": "Überspringen",
+  "round.tagline": "Community-Bewertungs-Challenge",
+  "round.fetchFailed": "Spiel konnte nicht geladen werden",
+  "round.steamThrottled":
+    "Steam ist gerade überlastet. Versuch es in einer Minute erneut.",
+  "round.guessFailed": "Tipp konnte nicht geprüft werden",
+  "round.hintFailed": "Hinweis konnte nicht geladen werden",
+  "round.endlessTitle": "Endlos · {name}",
+  "round.endlessTargetTitle": "Endlos · {target} · {name}",
+  "guess.submit": "Tippen",
+
+  "daily.title": "Täglich",
+  "daily.number": "Tagesrätsel #{number}",
+  "daily.loading": "Heutiges Rätsel wird geladen…",
+  "daily.loadFailed": "Tagesrätsel konnte nicht geladen werden",
+  "daily.won": "Gelöst! Morgen gibt es einen neuen Titel.",
+  "daily.lost": "Keine Tipps mehr. Morgen gibt es einen neuen Titel.",
+  "daily.intro": "Ein Versuch pro Tag. Alle bekommen dasselbe Spiel.",
+
+  "timeAttack.intro":
+    "Errate die Review-Wertung von so vielen Spielen wie möglich in {minutes} Minuten. Ein Tipp pro Spiel; je näher, desto mehr Punkte, und jeder Fehlgriff kostet Zeit.",
+  "timeAttack.start": "Start",
+  "timeAttack.again": "Nochmal",
+  "timeAttack.clock": "Zeit",
+  "timeAttack.score": "Punkte",
+  "timeAttack.games": "Spiele",
+  "timeAttack.last": "{name}: {actual} · dein Tipp {value} · +{points}",
+  "timeAttack.penalty": "−{seconds} s",
+  "timeAttack.over": "Zeit abgelaufen!",
+  "timeAttack.newBest": "Neue persönliche Bestleistung!",
+  "timeAttack.bests":
+    "Bestwert {score} Punkte · meiste Spiele {games} · {runs} Läufe",
+  "timeAttack.dealFailed": "Das nächste Spiel konnte nicht geladen werden.",
+  "timeAttack.retry": "Erneut",
+
+  "share.button": "Teilen",
+  "share.shared": "Geteilt!",
+  "share.copied": "Kopiert!",
+  "share.failed": "Kopieren fehlgeschlagen",
+
+  "card.featured": "Auf Steam vorgestellt",
+
+  "stats.toggle": "Statistik ein-/ausblenden",
+  "stats.title": "Statistik",
+  "stats.titleDev": "Statistik · Dev",
+  "stats.close": "Schließen",
+  "stats.lossesToday": "Niederlagen heute",
+  "stats.dev": "{count} (dev)",
+  "stats.totalGuesses": "Tipps gesamt",
+  "stats.hintsUsed": "Hinweise genutzt",
+  "stats.correct": "Richtig",
+  "stats.incorrect": "Falsch",
+  "stats.currentStreak": "Aktuelle Serie",
+  "stats.bestStreak": "Beste Serie",
+  "stats.totalPoints": "Punkte gesamt",
+  "stats.bestRoundPoints": "Beste Runde",
+  "stats.rules": "Regeln",
+  "stats.tier": "Stufe",
+  "stats.target": "Ziel",
+  "stats.record": "S–N",
+  "stats.streak": "Serie",
+  "stats.best": "Beste",
+
+  "history.title": "Verlauf",
+  "history.keep": "Runden behalten",
+  "history.keepCount": "{count} behalten",
+  "history.empty": "Beendete Runden erscheinen hier.",
+  "history.distribution": "Versuche bis zum Sieg",
+  "history.averageError": "Ø Abweichung · {target}",
+  "history.off": "{value} daneben",
+  "history.skipped": "Übersprungen",
+  "history.points": "{points} Pkt.",
+
+  "backup.title": "Sicherung",
+  "backup.export": "Exportieren",
+  "backup.import": "Importieren",
+  "backup.confirm":
+    "Statistiken, letzte Spiele und Verlauf in diesem Browser durch die Sicherung ersetzen?",
+  "backup.imported": "Sicherung importiert.",
+  "backup.invalid": "Diese Datei ist keine Steamcodle-Sicherung.",
+
+  "profile.title": "Sync",
+  "profile.intro":
+    "Halte deine Statistik mit einem anonymen Profil auf allen Geräten gleich.",
+  "profile.enable": "Sync aktivieren",
+  "profile.code": "Wiederherstellungscode",
+  "profile.codeHint":
+    "Gib diesen Code auf einem anderen Gerät ein, um diese Statistik zu teilen.",
+  "profile.restore": "Wiederherstellen",
+  "profile.restorePlaceholder": "XXXX-XXXX-XXXX",
+  "profile.syncNow": "Jetzt syncen",
+  "profile.syncing": "Wird synchronisiert…",
+  "profile.synced": "Synchronisiert um {time}",
+  "profile.failed": "Sync fehlgeschlagen",
+  "profile.unlink": "Gerät trennen",
+
+  "leaders.board": "Bestenliste",
+  "leaders.streak": "Beste Serie",
+  "leaders.winRate": "Siegquote",
+  "leaders.error": "Ø Abweichung",
+  "leaders.period": "Zeitraum",
+  "leaders.period.all": "Gesamt",
+  "leaders.period.week": "Diese Woche",
+  "leaders.period.day": "Heute",
+  "leaders.player": "Spieler",
+  "leaders.rounds": "Runden",
+  "leaders.loading": "Bestenliste wird geladen…",
+  "leaders.loadFailed": "Bestenliste konnte nicht geladen werden",
+  "leaders.empty": "Hier steht noch niemand.",
+  "leaders.minRounds": "Gewertet ab {count} Runden.",
+  "leaders.resetsUtc":
+    "Heute und Diese Woche beginnen um 00:00 UTC neu, nicht um deine Mitternacht.",
+  "leaders.join":
+    "Aktiviere Sync in der Statistik, um in die Bestenliste zu kommen.",
+  "leaders.displayName": "Anzeigename",
+  "leaders.saveName": "Speichern",
+  "leaders.nameSaved": "Name gespeichert.",
+  "leaders.nameFailed": "Name konnte nicht gespeichert werden",
+  "leaders.nameHint": "Wähle einen Namen, um in der Bestenliste zu erscheinen.",
+
+  "room.intro":
+    "Spiel live gegen Freunde: alle bekommen dieselben Spiele und dieselbe Uhr.",
+  "room.name": "Dein Name",
+  "room.rounds": "Runden",
+  "room.roundsOption": "{count} Runden",
+  "room.timer": "Zeit pro Runde",
+  "room.secondsOption": "{count} s pro Runde",
+  "room.create": "Raum erstellen",
+  "room.code": "Raum",
+  "room.codePlaceholder": "Raumcode",
+  "room.join": "Beitreten",
+  "room.connecting": "Verbindung zum Raum…",
+  "room.lost": "Der Raum wurde geschlossen oder hat deinen Platz nicht mehr.",
+  "room.failed": "Im Raum ist etwas schiefgelaufen",
+  "room.lobbyHost": "Teile den Raumcode und starte, wenn alle da sind.",
+  "room.lobbyGuest": "Warte darauf, dass der Host startet.",
+  "room.waiting": "Keine Tipps mehr. Warte auf die anderen…",
+  "room.sittingOut":
+    "Du bist mitten in der Runde gekommen. Ab dem nächsten Spiel bist du dabei.",
+  "room.results": "Runde vorbei.",
+  "room.finished": "Der Endstand steht fest.",
+  "room.roundCounter": "Runde {current}/{total}",
+  "room.start": "Starten",
+  "room.next": "Nächste Runde",
+  "room.leave": "Raum verlassen",
+  "room.round": "Runde",
+  "room.points": "Punkte",
+};
@@ -0,0 +1,238 @@
+/**
+ * English UI strings, and the source of truth for message keys: the other
+ * catalogs must translate every key listed here. `{name}` placeholders are
+ * filled in by `translate` in lib/i18n.ts.
+ */
+export const en = {
+  "language.en": "English",
+  "language.es": "Spanish",
+  "language.de": "German",
+  "locale.picker": "Language",
+  "locale.reviewFallback":
+    "Too few {language} reviews, so this game is scored on English ones.",
+
+  "mode.endless": "Endless",
+  "mode.daily": "Daily",
+  "mode.timeAttack": "Time Attack",
+  "mode.leaders": "Leaders",
+  "mode.versus": "Versus",
+
+  "targets.score.label": "Review Score",
+  "targets.score.prompt": "Guess the {language} Steam review % (0 — 100).",
+  "targets.score.tolerance": "Hit within ±{threshold}% of the Steam score",
+  "targets.score.placeholder": "Enter a % from 0-100",
+  "targets.score.invalid": "Guesses must be a number from 0 to 100.",
+  "targets.year.label": "Release Year",
+  "targets.year.prompt": "Guess the year it came out on Steam.",
+  "targets.year.tolerance": "Hit within ±{threshold} year of the release date",
+  "targets.year.placeholder": "Enter a year, e.g. 2015",
+  "targets.year.invalid": "Guesses must be a year from {min} to {max}.",
+  "targets.price.label": "Price",
+  "targets.price.prompt":
+    "Guess the current US store price (free games are $0).",
+  "targets.price.tolerance": "Hit within 10% (or $1) of the current price",
+  "targets.price.placeholder": "Enter a price, e.g. 19.99",
+  "targets.price.invalid": "Guesses must be a price from $0 to $1,000.",
+  "targets.metacritic.label": "Metacritic",
+  "targets.metacritic.prompt": "Guess the Metacritic score (0 — 100).",
+  "targets.metacritic.tolerance":
+    "Hit within ±{threshold} of the Metacritic score",
+  "targets.metacritic.placeholder": "Enter a score from 0-100",
+  "targets.metacritic.invalid": "Guesses must be a number from 0 to 100.",
+  "targets.reviews.label": "Review Count",
+  "targets.reviews.prompt":
+    "Guess how many reviews it has. The right order of magnitude wins.",
+  "targets.reviews.tolerance":
+    "Hit the right order of magnitude (100s, 1,000s, …)",
+  "targets.reviews.placeholder": "Enter a count, e.g. 5k",
+  "targets.reviews.invalid":
+    "Guesses must be a review count such as 500 or 12k.",
+
+  "difficulty.easy.label": "Easy",
+  "difficulty.easy.description": "Storefront hits with 20k+ reviews",
+  "difficulty.normal.label": "Normal",
+  "difficulty.normal.description": "Any game with 100+ reviews",
+  "difficulty.hard.label": "Hard",
+  "difficulty.hard.description": "Long-tail games with 100 to 5k reviews",
+
+  "rules.classic.label": "Classic",
+  "rules.classic.description": "5 guesses, hints allowed · ×1 points",
+  "rules.hardcore.label": "Hardcore",
+  "rules.hardcore.description":
+    "3 guesses, half the tolerance, no hints · ×2 points",
+  "rules.relaxed.label": "Relaxed",
+  "rules.relaxed.description": "7 guesses, double the tolerance · ×0.5 points",
+  "rules.leaderboardNote": "Only Classic rounds count on leaderboards.",
+
+  "genres.any": "Genres · Any",
+  "genres.selected": "Genres · {genres}",
+  "genres.clear": "Clear",
+  "mature.label": "Show mature games",
+  "mature.hint": "Adults-only games and games with frequent sexual content.",
+
+  "hints.release": "Released",
+  "hints.price": "Price",
+  "hints.reviews": "Reviews",
+  "hints.metacritic": "Metacritic",
+  "hints.summary": "Sentiment",
+  "hints.free": "Free to play",
+  "hints.reviewCount": "{count} reviews",
+  "hints.positive": "… Positive",
+  "hints.mixed": "Mixed",
+  "hints.negative": "… Negative",
+  "hints.buy": "💡 Hint · costs a guess",
+
+  "round.counter": "{target} Guess: {counter}",
+  "round.actual": "Actual: {value}",
+  "round.points": "+{points} points",
+  "round.loading": "Booting Steam servers…",
+  "round.lossLimit": "Daily loss limit reached. Come back tomorrow.",
+  "round.won": "Nice! You nailed the {target}.",
+  "round.outOfGuesses": "Out of guesses. Hit New Game to try another title.",
+  "round.newGame": "New Game",
+  "round.skip": "Skip",
+  "round.tagline": "Community Score Challenge",
+  "round.fetchFailed": "Unable to fetch game",
+  "round.steamThrottled": "Steam is busy right now. Try again in a minute.",
+  "round.guessFailed": "Unable to check guess",
+  "round.hintFailed": "Unable to reveal hint",
+  "round.endlessTitle": "Endless · {name}",
+  "round.endlessTargetTitle": "Endless · {target} · {name}",
+  "guess.submit": "Submit",
+
+  "daily.title": "Daily",
+  "daily.number": "Daily #{number}",
+  "daily.loading": "Fetching today’s puzzle…",
+  "daily.loadFailed": "Unable to load the daily",
+  "daily.won": "Daily solved! A new title unlocks tomorrow.",
+  "daily.lost": "Out of guesses. A new title unlocks tomorrow.",
+  "daily.intro": "One attempt per day. Everyone gets the same game.",
+
+  "timeAttack.intro":
+    "Guess the review score of as many games as you can in {minutes} minutes. One guess per game; the closer, the more points, and a miss costs time.",
+  "timeAttack.start": "Start",
+  "timeAttack.again": "Play again",
+  "timeAttack.clock": "Time",
+  "timeAttack.score": "Score",
+  "timeAttack.games": "Games",
+  "timeAttack.last": "{name}: {actual} · you said {value} · +{points}",
+  "timeAttack.penalty": "−{seconds}s",
+  "timeAttack.over": "Time's up!",
+  "timeAttack.newBest": "New personal best!",
+  "timeAttack.bests": "Best {score} points · most games {games} · {runs} runs",
+  "timeAttack.dealFailed": "Could not deal the next game.",
+  "timeAttack.retry": "Retry",
+
+  "share.button": "Share",
+  "share.shared": "Shared!",
+  "share.copied": "Copied!",
+  "share.failed": "Copy failed",
+
+  "card.featured": "Steam Featured",
+
+  "stats.toggle": "Toggle stats",
+  "stats.title": "Stats",
+  "stats.titleDev": "Stats · Dev",
+  "stats.close": "Close",
+  "stats.lossesToday": "Losses Today",
+  "stats.dev": "{count} (dev)",
+  "stats.totalGuesses": "Total Guesses",
+  "stats.hintsUsed": "Hints Used",
+  "stats.correct": "Correct",
+  "stats.incorrect": "Incorrect",
+  "stats.currentStreak": "Current Streak",
+  "stats.bestStreak": "Best Streak",
+  "stats.totalPoints": "Total Points",
+  "stats.bestRoundPoints": "Best Round",
+  "stats.rules": "Rules",
+  "stats.tier": "Tier",
+  "stats.target": "Target",
+  "stats.record": "W–L",
+  "stats.streak": "Streak",
+  "stats.best": "Best",
+
+  "history.title": "History",
+  "history.keep": "Rounds to keep",
+  "history.keepCount": "Keep {count}",
+  "history.empty": "Finished rounds will show up here.",
+  "history.distribution": "Guesses to win",
+  "history.averageError": "Avg. error · {target}",
+  "history.off": "off by {value}",
+  "history.skipped": "Skipped",
+  "history.points": "{points} pts",
+
+  "backup.title": "Backup",
+  "backup.export": "Export",
+  "backup.import": "Import",
+  "backup.confirm":
+    "Replace the stats, recent games and history in this browser with the backup?",
+  "backup.imported": "Backup imported.",
+  "backup.invalid": "That file is not a Steamcodle backup.",
+
+  "profile.title": "Sync",
+  "profile.intro":
+    "Keep your stats in step across devices with an anonymous profile.",
+  "profile.enable": "Enable sync",
+  "profile.code": "Recovery code",
+  "profile.codeHint": "Enter this code on another device to share these stats.",
+  "profile.restore": "Restore",
+  "profile.restorePlaceholder": "XXXX-XXXX-XXXX",
+  "profile.syncNow": "Sync now",
+  "profile.syncing": "Syncing…",
+  "profile.synced": "Synced at {time}",
+  "profile.failed": "Sync failed",
+  "profile.unlink": "Unlink device",
+
+  "leaders.board": "Leaderboard",
+  "leaders.streak": "Best streak",
+  "leaders.winRate": "Win rate",
+  "leaders.error": "Avg. error",
+  "leaders.period": "Period",
+  "leaders.period.all": "All time",
+  "leaders.period.week": "This week",
+  "leaders.period.day": "Today",
+  "leaders.player": "Player",
+  "leaders.rounds": "Rounds",
+  "leaders.loading": "Loading leaderboard…",
+  "leaders.loadFailed": "Could not load the leaderboard",
+  "leaders.empty": "Nobody has ranked here yet.",
+  "leaders.minRounds": "Ranked after {count} rounds.",
+  "leaders.resetsUtc":
+    "Today and This week reset at 00:00 UTC, not at your local midnight.",
+  "leaders.join": "Turn on sync in the stats panel to join the leaderboard.",
+  "leaders.displayName": "Display name",
+  "leaders.saveName": "Save",
+  "leaders.nameSaved": "Name saved.",
+  "leaders.nameFailed": "Could not save the name",
+  "leaders.nameHint": "Pick a name to appear on the leaderboard.",
+
+  "room.intro":
+    "Play live against friends: everyone gets the same games and the same clock.",
+  "room.name": "Your name",
+  "room.rounds": "Rounds",
+  "room.roundsOption": "{count} rounds",
+  "room.timer": "Time per round",
+  "room.secondsOption": "{count}s per round",
+  "room.create": "Create room",
+  "room.code": "Room",
+  "room.codePlaceholder": "Room code",
+  "room.join": "Join",
+  "room.connecting": "Connecting to the room…",
+  "room.lost": "The room closed or no longer has your seat.",
+  "room.failed": "Something went wrong with the room",
+  "room.lobbyHost": "Share the room code, then start when everyone is in.",
+  "room.lobbyGuest": "Waiting for the host to start.",
+  "room.waiting": "Out of guesses. Waiting for the others…",
+  "room.sittingOut": "You joined mid-round. You're in from the next game.",
+  "room.results": "Round over.",
+  "room.finished": "Final scores are in.",
+  "room.roundCounter": "Round {current}/{total}",
+  "room.start": "Start",
+  "room.next": "Next round",
+  "room.leave": "Leave room",
+  "room.round": "Round",
+  "room.points": "Points",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
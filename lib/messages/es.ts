@@ -0,0 +1,241 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  "language.en": "inglés",
+  "language.es": "español",
+  "language.de": "alemán",
+  "locale.picker": "Idioma",
+  "locale.reviewFallback":
+    "Hay pocas reseñas en {language}, así que se usan las reseñas en inglés.",
+
+  "mode.endless": "Sin fin",
+  "mode.daily": "Diario",
+  "mode.timeAttack": "Contrarreloj",
+  "mode.leaders": "Ranking",
+  "mode.versus": "Versus",
+
+  "targets.score.label": "Valoración",
+  "targets.score.prompt":
+    "Adivina el % de reseñas positivas en {language} en Steam (0 — 100).",
+  "targets.score.tolerance": "Acierta a ±{threshold}% de la valoración de Steam",
+  "targets.score.placeholder": "Escribe un % de 0 a 100",
+  "targets.score.invalid": "El intento debe ser un número de 0 a 100.",
+  "targets.year.label": "Año",
+  "targets.year.prompt": "Adivina en qué año salió en Steam.",
+  "targets.year.tolerance": "Acierta a ±{threshold} año de la fecha de salida",
+  "targets.year.placeholder": "Escribe un año, p. ej. 2015",
+  "targets.year.invalid": "El intento debe ser un año entre {min} y {max}.",
+  "targets.price.label": "Precio",
+  "targets.price.prompt":
+    "Adivina el precio actual en la tienda de EE. UU. (los gratuitos cuestan $0).",
+  "targets.price.tolerance": "Acierta a un 10% (o $1) del precio actual",
+  "targets.price.placeholder": "Escribe un precio, p. ej. 19.99",
+  "targets.price.invalid": "El intento debe ser un precio entre $0 y $1000.",
+  "targets.metacritic.label": "Metacritic",
+  "targets.metacritic.prompt": "Adivina la nota de Metacritic (0 — 100).",
+  "targets.metacritic.tolerance":
+    "Acierta a ±{threshold} de la nota de Metacritic",
+  "targets.metacritic.placeholder": "Escribe una nota de 0 a 100",
+  "targets.metacritic.invalid": "El intento debe ser un número de 0 a 100.",
+  "targets.reviews.label": "Nº de reseñas",
+  "targets.reviews.prompt":
+    "Adivina cuántas reseñas tiene. Basta con acertar el orden de magnitud.",
+  "targets.reviews.tolerance":
+    "Acierta el orden de magnitud (centenas, millares, …)",
+  "targets.reviews.placeholder": "Escribe una cifra, p. ej. 5k",
+  "targets.reviews.invalid":
+    "El intento debe ser un número de reseñas, como 500 o 12k.",
+
+  "difficulty.easy.label": "Fácil",
+  "difficulty.easy.description": "Éxitos de la tienda con más de 20k reseñas",
+  "difficulty.normal.label": "Normal",
+  "difficulty.normal.description": "Cualquier juego con más de 100 reseñas",
+  "difficulty.hard.label": "Difícil",
+  "difficulty.hard.description": "Juegos de nicho con entre 100 y 5k reseñas",
+
+  "rules.classic.label": "Clásico",
+  "rules.classic.description": "5 intentos, con pistas · puntos ×1",
+  "rules.hardcore.label": "Extremo",
+  "rules.hardcore.description":
+    "3 intentos, mitad de margen, sin pistas · puntos ×2",
+  "rules.relaxed.label": "Relajado",
+  "rules.relaxed.description": "7 intentos, doble de margen · puntos ×0,5",
+  "rules.leaderboardNote":
+    "Solo las rondas en Clásico cuentan en las clasificaciones.",
+
+  "genres.any": "Géneros · Todos",
+  "genres.selected": "Géneros · {genres}",
+  "genres.clear": "Quitar",
+  "mature.label": "Mostrar juegos para adultos",
+  "mature.hint": "Juegos solo para adultos y con contenido sexual frecuente.",
+
+  "hints.release": "Salida",
+  "hints.price": "Precio",
+  "hints.reviews": "Reseñas",
+  "hints.metacritic": "Metacritic",
+  "hints.summary": "Opinión",
+  "hints.free": "Gratuito",
+  "hints.reviewCount": "{count} reseñas",
+  "hints.positive": "… Positivas",
+  "hints.mixed": "Variadas",
+  "hints.negative": "… Negativas",
+  "hints.buy": "💡 Pista · cuesta un intento",
+
+  "round.counter": "{target} · intento {counter}",
+  "round.actual": "Real: {value}",
+  "round.points": "+{points} puntos",
+  "round.loading": "Arrancando los servidores de Steam…",
+  "round.lossLimit":
+    "Has alcanzado el límite diario de derrotas. Vuelve mañana.",
+  "round.won": "¡Bien! Has clavado: {target}.",
+  "round.outOfGuesses":
+    "Sin intentos. Pulsa Nueva partida para probar con otro juego.",
+  "round.newGame": "Nueva partida",
+  "round.skip": "Saltar",
+  "round.tagline": "Reto de valoraciones",
+  "round.fetchFailed": "No se pudo cargar el juego",
+  "round.steamThrottled":
+    "Steam está saturado ahora mismo. Inténtalo en un minuto.",
+  "round.guessFailed": "No se pudo comprobar el intento",
+  "round.hintFailed": "No se pudo mostrar la pista",
+  "round.endlessTitle": "Sin fin · {name}",
+  "round.endlessTargetTitle": "Sin fin · {target} · {name}",
+  "guess.submit": "Enviar",
+
+  "daily.title": "Diario",
+  "daily.number": "Diario nº {number}",
+  "daily.loading": "Cargando el reto de hoy…",
+  "daily.loadFailed": "No se pudo cargar el reto diario",
+  "daily.won": "¡Reto resuelto! Mañana llega otro juego.",
+  "daily.lost": "Sin intentos. Mañana llega otro juego.",
+  "daily.intro": "Un intento al día. Todos juegan con el mismo juego.",
+
+  "timeAttack.intro":
+    "Adivina la puntuación de reseñas de todos los juegos que puedas en {minutes} minutos. Un intento por juego; cuanto más cerca, más puntos, y cada fallo cuesta tiempo.",
+  "timeAttack.start": "Empezar",
+  "timeAttack.again": "Otra vez",
+  "timeAttack.clock": "Tiempo",
+  "timeAttack.score": "Puntos",
+  "timeAttack.games": "Juegos",
+  "timeAttack.last": "{name}: {actual} · dijiste {value} · +{points}",
+  "timeAttack.penalty": "−{seconds} s",
+  "timeAttack.over": "¡Se acabó el tiempo!",
+  "timeAttack.newBest": "¡Nuevo récord personal!",
+  "timeAttack.bests":
+    "Récord {score} puntos · máximo {games} juegos · {runs} partidas",
+  "timeAttack.dealFailed": "No se pudo repartir el siguiente juego.",
+  "timeAttack.retry": "Reintentar",
+
+  "share.button": "Compartir",
+  "share.shared": "¡Compartido!",
+  "share.copied": "¡Copiado!",
+  "share.failed": "Error al copiar",
+
+  "card.featured": "Destacado en Steam",
+
+  "stats.toggle": "Mostrar estadísticas",
+  "stats.title": "Estadísticas",
+  "stats.titleDev": "Estadísticas · Dev",
+  "stats.close": "Cerrar",
+  "stats.lossesToday": "Derrotas hoy",
+  "stats.dev": "{count} (dev)",
+  "stats.totalGuesses": "Intentos",
+  "stats.hintsUsed": "Pistas usadas",
+  "stats.correct": "Aciertos",
+  "stats.incorrect": "Fallos",
+  "stats.currentStreak": "Racha actual",
+  "stats.bestStreak": "Mejor racha",
+  "stats.totalPoints": "Puntos",
+  "stats.bestRoundPoints": "Mejor ronda",
+  "stats.rules": "Reglas",
+  "stats.tier": "Nivel",
+  "stats.target": "Objetivo",
+  "stats.record": "V–D",
+  "stats.streak": "Racha",
+  "stats.best": "Mejor",
+
+  "history.title": "Historial",
+  "history.keep": "Rondas a conservar",
+  "history.keepCount": "Conservar {count}",
+  "history.empty": "Aquí aparecerán las rondas terminadas.",
+  "history.distribution": "Intentos para ganar",
+  "history.averageError": "Error medio · {target}",
+  "history.off": "fallo de {value}",
+  "history.skipped": "Saltada",
+  "history.points": "{points} pts",
+
+  "backup.title": "Copia de seguridad",
+  "backup.export": "Exportar",
+  "backup.import": "Importar",
+  "backup.confirm":
+    "¿Sustituir las estadísticas, los juegos recientes y el historial de este navegador por la copia?",
+  "backup.imported": "Copia importada.",
+  "backup.invalid": "Ese archivo no es una copia de Steamcodle.",
+
+  "profile.title": "Sincronizar",
+  "profile.intro":
+    "Mantén tus estadísticas iguales en todos tus dispositivos con un perfil anónimo.",
+  "profile.enable": "Activar sincronización",
+  "profile.code": "Código de recuperación",
+  "profile.codeHint":
+    "Introduce este código en otro dispositivo para compartir estas estadísticas.",
+  "profile.restore": "Restaurar",
+  "profile.restorePlaceholder": "XXXX-XXXX-XXXX",
+  "profile.syncNow": "Sincronizar ahora",
+  "profile.syncing": "Sincronizando…",
+  "profile.synced": "Sincronizado a las {time}",
+  "profile.failed": "Error al sincronizar",
+  "profile.unlink": "Desvincular dispositivo",
+
+  "leaders.board": "Clasificación",
+  "leaders.streak": "Mejor racha",
+  "leaders.winRate": "% de victorias",
+  "leaders.error": "Error medio",
+  "leaders.period": "Periodo",
+  "leaders.period.all": "Histórico",
+  "leaders.period.week": "Esta semana",
+  "leaders.period.day": "Hoy",
+  "leaders.player": "Jugador",
+  "leaders.rounds": "Rondas",
+  "leaders.loading": "Cargando clasificación…",
+  "leaders.loadFailed": "No se pudo cargar la clasificación",
+  "leaders.empty": "Todavía no hay nadie en esta clasificación.",
+  "leaders.minRounds": "Entras en la clasificación tras {count} rondas.",
+  "leaders.resetsUtc":
+    "Hoy y Esta semana se reinician a las 00:00 UTC, no a tu medianoche.",
+  "leaders.join":
+    "Activa la sincronización en el panel de estadísticas para entrar en la clasificación.",
+  "leaders.displayName": "Nombre visible",
+  "leaders.saveName": "Guardar",
+  "leaders.nameSaved": "Nombre guardado.",
+  "leaders.nameFailed": "No se pudo guardar el nombre",
+  "leaders.nameHint": "Elige un nombre para aparecer en la clasificación.",
+
+  "room.intro":
+    "Juega en directo contra tus amigos: todos reciben los mismos juegos y el mismo reloj.",
+  "room.name": "Tu nombre",
+  "room.rounds": "Rondas",
+  "room.roundsOption": "{count} rondas",
+  "room.timer": "Tiempo por ronda",
+  "room.secondsOption": "{count} s por ronda",
+  "room.create": "Crear sala",
+  "room.code": "Sala",
+  "room.codePlaceholder": "Código de sala",
+  "room.join": "Unirse",
+  "room.connecting": "Conectando con la sala…",
+  "room.lost": "La sala se cerró o ya no tiene tu plaza.",
+  "room.failed": "Algo falló en la sala",
+  "room.lobbyHost": "Comparte el código y empieza cuando estén todos.",
+  "room.lobbyGuest": "Esperando a que el anfitrión empiece.",
+  "room.waiting": "Sin intentos. Esperando a los demás…",
+  "room.sittingOut":
+    "Entraste a mitad de ronda. Juegas desde el siguiente juego.",
+  "room.results": "Fin de la ronda.",
+  "room.finished": "Ya están las puntuaciones finales.",
+  "room.roundCounter": "Ronda {current}/{total}",
+  "room.start": "Empezar",
+  "room.next": "Siguiente ronda",
+  "room.leave": "Salir de la sala",
+  "room.round": "Ronda",
+  "room.points": "Puntos",
+};
@@ -0,0 +1,247 @@
+/**
+ * In-process counters for the Steam data pipeline, read by `/api/metrics`
+ * and `/api/health`. They start from zero on every restart and each server
+ * instance keeps its own.
+ */
+
+export type SteamEndpoint =
+  | "appdetails"
+  | "appreviews"
+  | "featuredcategories"
+  | "applist";
+
+/** An HTTP status, or why no response came back. */
+export type UpstreamOutcome = number | "network-error" | "throttled";
+
+/**
+ * `fallback` counts entries served anyway after a miss, or without asking,
+ * because Steam was throttling us. It is left out of the hit rate.
+ */
+export type CacheLookup = "fresh" | "stale" | "miss" | "fallback";
+
+export type FallbackSource = "featured" | "appList";
+
+/** Why a random or daily pick passed over an app. */
+export type RejectionReason =
+  | "not-a-game"
+  | "too-few-reviews"
+  | "mature"
+  | "difficulty"
+  | "genres"
+  | "no-answer"
+  | "no-store-data"
+  | "fetch-failed";
+
+type Distribution = {
+  count: number;
+  total: number;
+  max: number;
+  /** The latest samples, for percentiles. */
+  recent: number[];
+};
+
+type UpstreamMetrics = {
+  outcomes: Record<string, number>;
+  latencyMs: Distribution;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+};
+
+type FallbackMetrics = {
+  activations: number;
+  activeSince: number | null;
+  lastReason: string | null;
+};
+
+const RECENT_SAMPLE_LIMIT = 500;
+
+const startedAt = Date.now();
+const upstream: Partial<Record<SteamEndpoint, UpstreamMetrics>> = {};
+const cacheLookups: Record<string, Record<CacheLookup, number>> = {};
+const fallbackCatalog: Record<FallbackSource, FallbackMetrics> = {
+  featured: { activations: 0, activeSince: null, lastReason: null },
+  appList: { activations: 0, activeSince: null, lastReason: null },
+};
+const randomPicks = {
+  found: 0,
+  failed: {} as Record<string, number>,
+  attempts: createDistribution(),
+};
+const rejections: Partial<Record<RejectionReason, number>> = {};
+
+function createDistribution(): Distribution {
+  return { count: 0, total: 0, max: 0, recent: [] };
+}
+
+function observe(distribution: Distribution, value: number) {
+  distribution.count += 1;
+  distribution.total += value;
+  distribution.max = Math.max(distribution.max, value);
+  distribution.recent.push(value);
+  if (distribution.recent.length > RECENT_SAMPLE_LIMIT) {
+    distribution.recent.shift();
+  }
+}
+
+function summarize({ count, total, max, recent }: Distribution) {
+  const sorted = [...recent].sort((a, b) => a - b);
+  const percentile = (share: number) =>
+    sorted.length > 0
+      ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * share))]
+      : null;
+  return {
+    count,
+    average: count > 0 ? Math.round((total / count) * 10) / 10 : null,
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    max: count > 0 ? max : null,
+  };
+}
+
+function toIsoDate(time: number | null) {
+  return time === null ? null : new Date(time).toISOString();
+}
+
+/** `latencyMs` is null when the request never reached Steam. */
+export function recordUpstreamRequest(
+  endpoint: SteamEndpoint,
+  outcome: UpstreamOutcome,
+  latencyMs: number | null,
+) {
+  const metrics = (upstream[endpoint] ??= {
+    outcomes: {},
+    latencyMs: createDistribution(),
+    lastSuccessAt: null,
+    lastFailureAt: null,
+  });
+  const key = String(outcome);
+  metrics.outcomes[key] = (metrics.outcomes[key] ?? 0) + 1;
+  if (latencyMs !== null) observe(metrics.latencyMs, latencyMs);
+  if (typeof outcome === "number" && outcome < 500 && outcome !== 429) {
+    metrics.lastSuccessAt = Date.now();
+  } else if (outcome !== "throttled") {
+    metrics.lastFailureAt = Date.now();
+  }
+}
+
+export function recordCacheLookup(namespace: string, lookup: CacheLookup) {
+  const counts = (cacheLookups[namespace] ??= {
+    fresh: 0,
+    stale: 0,
+    miss: 0,
+    fallback: 0,
+  });
+  counts[lookup] += 1;
+}
+
+/**
+ * With a `reason`, notes that the bundled catalog stands in for `source`;
+ * without one, that Steam answered again.
+ */
+export function recordFallbackCatalog(source: FallbackSource, reason?: string) {
+  const metrics = fallbackCatalog[source];
+  if (reason === undefined) {
+    metrics.activeSince = null;
+    return;
+  }
+  metrics.activations += 1;
+  metrics.activeSince ??= Date.now();
+  metrics.lastReason = reason;
+}
+
+export function getFallbackCatalogState() {
+  return Object.fromEntries(
+    Object.entries(fallbackCatalog).map(([source, metrics]) => [
+      source,
+      {
+        active: metrics.activeSince !== null,
+        since: toIsoDate(metrics.activeSince),
+        reason: metrics.activeSince !== null ? metrics.lastReason : null,
+      },
+    ]),
+  ) as Record<
+    FallbackSource,
+    { active: boolean; since: string | null; reason: string | null }
+  >;
+}
+
+/** `outcome` is "found", or why the pick gave up. */
+export function recordRandomPick(outcome: string, attempts: number) {
+  if (outcome === "found") {
+    randomPicks.found += 1;
+    observe(randomPicks.attempts, attempts);
+  } else {
+    randomPicks.failed[outcome] = (randomPicks.failed[outcome] ?? 0) + 1;
+  }
+}
+
+export function recordRejection(reason: RejectionReason) {
+  rejections[reason] = (rejections[reason] ?? 0) + 1;
+}
+
+/** When Steam last answered and last failed, across every endpoint. */
+export function getUpstreamActivity() {
+  const all = Object.values(upstream);
+  const latest = (times: (number | null)[]) =>
+    toIsoDate(
+      times.reduce<number | null>(
+        (latestTime, time) =>
+          time !== null && (latestTime === null || time > latestTime)
+            ? time
+            : latestTime,
+        null,
+      ),
+    );
+  return {
+    lastSuccessAt: latest(all.map((metrics) => metrics.lastSuccessAt)),
+    lastFailureAt: latest(all.map((metrics) => metrics.lastFailureAt)),
+  };
+}
+
+export function getMetricsSnapshot() {
+  return {
+    startedAt: new Date(startedAt).toISOString(),
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    upstream: Object.fromEntries(
+      Object.entries(upstream).map(([endpoint, metrics]) => [
+        endpoint,
+        {
+          outcomes: metrics.outcomes,
+          latencyMs: summarize(metrics.latencyMs),
+          lastSuccessAt: toIsoDate(metrics.lastSuccessAt),
+          lastFailureAt: toIsoDate(metrics.lastFailureAt),
+        },
+      ]),
+    ),
+    cache: Object.fromEntries(
+      Object.entries(cacheLookups).map(([namespace, counts]) => {
+        const hits = counts.fresh + counts.stale;
+        const total = hits + counts.miss;
+        return [
+          namespace,
+          {
+            ...counts,
+            hitRate:
+              total > 0 ? Math.round((hits / total) * 1000) / 1000 : null,
+          },
+        ];
+      }),
+    ),
+    fallbackCatalog: Object.fromEntries(
+      Object.entries(fallbackCatalog).map(([source, metrics]) => [
+        source,
+        {
+          activations: metrics.activations,
+          activeSince: toIsoDate(metrics.activeSince),
+          lastReason: metrics.lastReason,
+        },
+      ]),
+    ),
+    randomPicks: {
+      found: randomPicks.found,
+      failed: randomPicks.failed,
+      attemptsPerGame: summarize(randomPicks.attempts),
+    },
+    rejections,
+  };
+}
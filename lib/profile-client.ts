@@ -0,0 +1,61 @@
+import type { StatsSnapshot } from "@/lib/game-engine";
+import type {
+  DeviceCredentials,
+  ProfileCreated,
+  SyncResult,
+} from "@/lib/profiles";
+import { readJson } from "@/lib/round-client";
+import { serializeStats } from "@/lib/stats-storage";
+
+/** Device credentials as request headers, for GET requests with no body. */
+export const DEVICE_HEADERS = {
+  profileId: "X-Steamcodle-Profile",
+  deviceId: "X-Steamcodle-Device",
+  deviceToken: "X-Steamcodle-Device-Token",
+} as const satisfies Record<keyof DeviceCredentials, string>;
+
+export function getDeviceHeaders(credentials: DeviceCredentials) {
+  return {
+    [DEVICE_HEADERS.profileId]: credentials.profileId,
+    [DEVICE_HEADERS.deviceId]: credentials.deviceId,
+    [DEVICE_HEADERS.deviceToken]: credentials.deviceToken,
+  };
+}
+
+export async function requestProfile() {
+  const response = await fetch("/api/profile", {
+    method: "POST",
+    cache: "no-store",
+  });
+  return readJson<ProfileCreated>(response, "Profile creation failed");
+}
+
+export async function requestRecovery(recoveryCode: string) {
+  const response = await fetch("/api/profile/recover", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ recoveryCode }),
+  });
+  return readJson<DeviceCredentials>(response, "Profile recovery failed");
+}
+
+export async function requestSync(
+  credentials: DeviceCredentials,
+  stats: StatsSnapshot,
+  recentAppIds: number[],
+  today: string,
+) {
+  const response = await fetch("/api/profile/sync", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ...credentials,
+      stats: serializeStats(stats),
+      recentAppIds,
+      today,
+    }),
+  });
+  return readJson<SyncResult>(response, "Profile sync failed");
+}
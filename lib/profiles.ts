@@ -0,0 +1,264 @@
+import {
+  createHash,
+  randomBytes,
+  randomInt,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+
+import { readRecord, withRecordLock, writeRecord } from "@/lib/data-store";
+import { getDefaultStats, type StatsSnapshot } from "@/lib/game-engine";
+import { DEVICE_HEADERS } from "@/lib/profile-client";
+import { mergeRecentAppIds, mergeStats } from "@/lib/stats-sync";
+
+/**
+ * Optional server-side profiles. A profile has no account behind it: each
+ * browser that joins gets an anonymous device ID and secret, and the profile's
+ * recovery code adds another device (or brings back a wiped one).
+ */
+
+export type DeviceCredentials = {
+  profileId: string;
+  deviceId: string;
+  deviceToken: string;
+};
+
+export type ProfileCreated = DeviceCredentials & {
+  recoveryCode: string;
+};
+
+export type SyncRequest = DeviceCredentials & {
+  stats: StatsSnapshot;
+  recentAppIds: number[];
+  today: string;
+};
+
+export type SyncResult = {
+  stats: StatsSnapshot;
+  recentAppIds: number[];
+  syncedAt: string;
+};
+
+type DeviceRecord = {
+  tokenHash: string;
+  /** What this device last received, the base of its next three-way merge. */
+  base: StatsSnapshot | null;
+  createdAt: string;
+  lastSyncedAt: string | null;
+};
+
+type StoredProfile = {
+  id: string;
+  recoveryHash: string;
+  createdAt: string;
+  updatedAt: string;
+  stats: StatsSnapshot | null;
+  recentAppIds: number[];
+  devices: Record<string, DeviceRecord>;
+};
+
+const PROFILES = "profiles";
+const RECOVERY_CODES = "recovery-codes";
+// No 0/O or 1/I/L, so a code read aloud or copied by hand survives.
+const RECOVERY_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const RECOVERY_GROUPS = 3;
+const RECOVERY_GROUP_LENGTH = 4;
+
+export class ProfileError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ProfileError";
+    this.status = status;
+  }
+}
+
+function hashSecret(secret: string) {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function createRecoveryCode() {
+  return Array.from({ length: RECOVERY_GROUPS }, () =>
+    Array.from(
+      { length: RECOVERY_GROUP_LENGTH },
+      () => RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)],
+    ).join(""),
+  ).join("-");
+}
+
+/** Accepts the code however it was typed: any case, with or without dashes. */
+function normalizeRecoveryCode(code: string) {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const groups = compact.match(
+    new RegExp(`.{1,${RECOVERY_GROUP_LENGTH}}`, "g"),
+  );
+  return groups?.join("-") ?? "";
+}
+
+function addDevice(profile: StoredProfile): DeviceCredentials {
+  const deviceId = randomUUID();
+  const deviceToken = randomBytes(32).toString("base64url");
+  profile.devices[deviceId] = {
+    tokenHash: hashSecret(deviceToken),
+    base: null,
+    createdAt: new Date().toISOString(),
+    lastSyncedAt: null,
+  };
+  return { profileId: profile.id, deviceId, deviceToken };
+}
+
+export function isProfileId(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(value)
+  );
+}
+
+/** Picks device credentials out of a request body, or null if any is missing. */
+export function parseDeviceCredentials(raw: unknown): DeviceCredentials | null {
+  const body = raw as Partial<Record<keyof DeviceCredentials, unknown>> | null;
+  if (
+    typeof body?.profileId !== "string" ||
+    typeof body.deviceId !== "string" ||
+    typeof body.deviceToken !== "string"
+  ) {
+    return null;
+  }
+  return {
+    profileId: body.profileId,
+    deviceId: body.deviceId,
+    deviceToken: body.deviceToken,
+  };
+}
+
+async function loadProfile(profileId: string) {
+  if (!isProfileId(profileId)) return null;
+  return readRecord<StoredProfile>(PROFILES, profileId);
+}
+
+function authenticate(
+  profile: StoredProfile | null,
+  { deviceId, deviceToken }: DeviceCredentials,
+) {
+  const device = profile?.devices[deviceId];
+  const expected = Buffer.from(device?.tokenHash ?? "", "hex");
+  const actual = Buffer.from(hashSecret(deviceToken), "hex");
+  if (
+    !profile ||
+    !device ||
+    expected.length !== actual.length ||
+    !timingSafeEqual(expected, actual)
+  ) {
+    throw new ProfileError("Unknown profile or device.", 401);
+  }
+  return { profile, device };
+}
+
+/** Throws a 401 `ProfileError` unless the device belongs to the profile. */
+export async function authenticateDevice(credentials: DeviceCredentials) {
+  authenticate(await loadProfile(credentials.profileId), credentials);
+}
+
+/**
+ * The profile behind a request's device headers (see `DEVICE_HEADERS`), or
+ * null when they are missing or do not check out.
+ */
+export async function readDeviceProfile(headers: Headers) {
+  const credentials = parseDeviceCredentials({
+    profileId: headers.get(DEVICE_HEADERS.profileId),
+    deviceId: headers.get(DEVICE_HEADERS.deviceId),
+    deviceToken: headers.get(DEVICE_HEADERS.deviceToken),
+  });
+  if (!credentials) return null;
+  try {
+    await authenticateDevice(credentials);
+    return credentials.profileId;
+  } catch (error) {
+    if (error instanceof ProfileError) return null;
+    throw error;
+  }
+}
+
+export async function createProfile(): Promise<ProfileCreated> {
+  const now = new Date().toISOString();
+  const recoveryCode = createRecoveryCode();
+  const profile: StoredProfile = {
+    id: randomUUID(),
+    recoveryHash: hashSecret(recoveryCode),
+    createdAt: now,
+    updatedAt: now,
+    stats: null,
+    recentAppIds: [],
+    devices: {},
+  };
+  const credentials = addDevice(profile);
+
+  await writeRecord(PROFILES, profile.id, profile);
+  await writeRecord(RECOVERY_CODES, profile.recoveryHash, {
+    profileId: profile.id,
+  });
+  return { ...credentials, recoveryCode };
+}
+
+/** Joins this browser to the profile behind `recoveryCode` as a new device. */
+export async function recoverProfile(
+  recoveryCode: string,
+): Promise<DeviceCredentials> {
+  const recoveryHash = hashSecret(normalizeRecoveryCode(recoveryCode));
+  const entry = await readRecord<{ profileId: string }>(
+    RECOVERY_CODES,
+    recoveryHash,
+  );
+  if (!entry) {
+    throw new ProfileError("That recovery code does not match a profile.", 404);
+  }
+
+  return withRecordLock(PROFILES, entry.profileId, async () => {
+    const profile = await loadProfile(entry.profileId);
+    if (!profile || profile.recoveryHash !== recoveryHash) {
+      throw new ProfileError(
+        "That recovery code does not match a profile.",
+        404,
+      );
+    }
+    const credentials = addDevice(profile);
+    profile.updatedAt = new Date().toISOString();
+    await writeRecord(PROFILES, profile.id, profile);
+    return credentials;
+  });
+}
+
+/**
+ * Merges a device's stats and recent games into the profile and returns the
+ * combined copy, which the device should adopt as its own.
+ */
+export function syncProfile(request: SyncRequest): Promise<SyncResult> {
+  return withRecordLock(PROFILES, request.profileId, async () => {
+    const { profile, device } = authenticate(
+      await loadProfile(request.profileId),
+      request,
+    );
+    const empty = getDefaultStats(request.today);
+    const stats = mergeStats(
+      profile.stats ?? empty,
+      request.stats,
+      device.base ?? empty,
+      request.today,
+    );
+    const recentAppIds = mergeRecentAppIds(
+      request.recentAppIds,
+      profile.recentAppIds,
+    );
+    const syncedAt = new Date().toISOString();
+
+    profile.stats = stats;
+    profile.recentAppIds = recentAppIds;
+    profile.updatedAt = syncedAt;
+    device.base = stats;
+    device.lastSyncedAt = syncedAt;
+    await writeRecord(PROFILES, profile.id, profile);
+
+    return { stats, recentAppIds, syncedAt };
+  });
+}
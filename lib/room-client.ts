@@ -0,0 +1,68 @@
+import type { GuessOutcome } from "@/lib/game-rules";
+import type { RoomCredentials, RoomOptions, RoomView } from "@/lib/rooms";
+import { readJson } from "@/lib/round-client";
+
+export async function requestRoom(
+  name: string,
+  options: Partial<RoomOptions> = {},
+) {
+  const response = await fetch("/api/rooms", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, ...options }),
+  });
+  return readJson<RoomCredentials>(response, "Room creation failed");
+}
+
+export async function requestJoinRoom(code: string, name: string) {
+  const response = await fetch(`/api/rooms/${encodeURIComponent(code)}/join`, {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  return readJson<RoomCredentials>(response, "Joining the room failed");
+}
+
+export async function requestNextRound({
+  code,
+  playerId,
+  playerToken,
+}: RoomCredentials) {
+  const response = await fetch(`/api/rooms/${encodeURIComponent(code)}/start`, {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ playerId, playerToken }),
+  });
+  return readJson<{ ok: true }>(response, "Starting the round failed");
+}
+
+export async function requestRoomGuess(
+  { code, playerId, playerToken }: RoomCredentials,
+  guess: number,
+) {
+  const response = await fetch(`/api/rooms/${encodeURIComponent(code)}/guess`, {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ playerId, playerToken, guess }),
+  });
+  return readJson<{ outcome: GuessOutcome }>(response, "Guess check failed");
+}
+
+/** Opens the room's event stream; close the returned EventSource to leave. */
+export function openRoomEvents(
+  { code, playerId, playerToken }: RoomCredentials,
+  onView: (view: RoomView) => void,
+) {
+  const params = new URLSearchParams({ playerId, playerToken });
+  const source = new EventSource(
+    `/api/rooms/${encodeURIComponent(code)}/events?${params.toString()}`,
+  );
+  source.onmessage = (event: MessageEvent<string>) => {
+    onView(JSON.parse(event.data) as RoomView);
+  };
+  return source;
+}
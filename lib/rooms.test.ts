@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import {
+  getRoundPoints,
+  initialRound,
+  reduceRound,
+  type GuessEntry,
+} from "@/lib/game-engine";
+import { MAX_GUESSES, WIN_THRESHOLD } from "@/lib/game-rules";
+import {
+  createRoom,
+  joinRoom,
+  startNextRound,
+  submitRoomGuess,
+  subscribeToRoom,
+  type RoomCredentials,
+  type RoomView,
+} from "@/lib/rooms";
+
+let tempDir: string;
+
+before(async () => {
+  tempDir = await mkdtemp(path.join(tmpdir(), "steamcodle-rooms-"));
+  process.env.STEAM_CLIENT = "fixtures";
+  process.env.STEAMCODLE_CACHE_DIR = path.join(tempDir, "cache");
+  process.env.STEAMCODLE_DATA_DIR = path.join(tempDir, "data");
+});
+
+// The pool refills in the background after a deal and may still be writing.
+after(() => rm(tempDir, { recursive: true, force: true, maxRetries: 10 }));
+
+/** Narrows in on the answer from the higher/lower replies until a win. */
+function playToWin(credentials: RoomCredentials) {
+  let low = 0;
+  let high = 100;
+  for (let guess = 0; guess < MAX_GUESSES; guess += 1) {
+    const value = Math.round((low + high) / 2);
+    const { outcome } = submitRoomGuess(credentials, value);
+    if (outcome === "win") return;
+    if (outcome === "higher") low = value + WIN_THRESHOLD + 1;
+    else high = value - WIN_THRESHOLD - 1;
+  }
+  assert.fail("Binary search ran out of guesses.");
+}
+
+/** What endless mode would score the same guesses. */
+function getEnginePoints(guesses: GuessEntry[], answer: number) {
+  let round = reduceRound(initialRound, { type: "start", appId: 1 });
+  for (const guess of guesses) {
+    round = reduceRound(round, { type: "guess", ...guess });
+  }
+  if (round.phase === "playing") round = reduceRound(round, { type: "skip" });
+  round = reduceRound(round, { type: "resolve", actualScore: answer });
+  return getRoundPoints(round, answer);
+}
+
+describe("room scoring", () => {
+  it("scores each player like an endless Classic round", async () => {
+    const host = createRoom("Host", { rounds: 1 });
+    const guest = joinRoom(host.code, "Guest");
+    let view: RoomView | null = null;
+    const unsubscribe = subscribeToRoom(host, (next) => {
+      view = next;
+    });
+
+    await startNextRound(host);
+    playToWin(host);
+    // Far off, and out of guesses.
+    for (let guess = 0; guess < MAX_GUESSES; guess += 1) {
+      submitRoomGuess(guest, guess);
+    }
+    unsubscribe();
+
+    const { phase, answer, players } = view as unknown as RoomView;
+    assert.equal(phase, "finished");
+    assert.ok(answer !== null);
+    const [winner, loser] = players;
+    assert.equal(winner.phase, "won");
+    assert.equal(loser.phase, "lost");
+    for (const player of players) {
+      assert.ok(player.guesses);
+      assert.equal(player.score, getEnginePoints(player.guesses, answer));
+    }
+    assert.ok(winner.score > loser.score);
+  });
+});
@@ -0,0 +1,425 @@
+import {
+  createHash,
+  randomBytes,
+  randomInt,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+
+import { DEFAULT_DIFFICULTY, type Difficulty } from "@/lib/difficulty";
+import {
+  getGuessError,
+  getRoundPoints,
+  initialRound,
+  isRoundOver,
+  reduceRound,
+  type GuessEntry,
+  type RoundState,
+} from "@/lib/game-engine";
+import { takeRandomSteamGame } from "@/lib/game-pool";
+import {
+  DEFAULT_GUESS_TARGET,
+  GUESS_TARGET_RULES,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n";
+import { isDisplayName } from "@/lib/leaderboard-store";
+import { redactSteamGame, type PublicSteamGame } from "@/lib/round";
+import type { SteamGame } from "@/lib/steam";
+
+/**
+ * Head-to-head rooms. Everything lives in this process's memory: a room is
+ * gone on restart, and every player has to reach the same server instance,
+ * which is what local play (several tabs, or the bot script) gives you.
+ */
+
+export const ROOM_PHASES = ["lobby", "playing", "results", "finished"] as const;
+
+export type RoomPhase = (typeof ROOM_PHASES)[number];
+
+export type RoomOptions = {
+  target: GuessTarget;
+  difficulty: Difficulty;
+  locale: Locale;
+  rounds: number;
+  roundSeconds: number;
+};
+
+export type RoomCredentials = {
+  code: string;
+  playerId: string;
+  playerToken: string;
+};
+
+export type RoomPlayerView = {
+  id: string;
+  name: string;
+  isHost: boolean;
+  connected: boolean;
+  score: number;
+  wins: number;
+  /** "idle" for someone who joined while the round was already running. */
+  phase: RoundState["phase"];
+  guessesUsed: number;
+  /** Other players' guesses stay hidden until the round is over. */
+  guesses: GuessEntry[] | null;
+};
+
+export type RoomView = {
+  code: string;
+  you: string;
+  phase: RoomPhase;
+  roundNumber: number;
+  options: RoomOptions;
+  /** Epoch milliseconds; null outside a round. */
+  roundEndsAt: number | null;
+  game: PublicSteamGame | null;
+  answer: number | null;
+  players: RoomPlayerView[];
+};
+
+type RoomListener = (view: RoomView) => void;
+
+type RoomPlayer = {
+  id: string;
+  name: string;
+  tokenHash: string;
+  score: number;
+  wins: number;
+  round: RoundState;
+  listeners: Set<RoomListener>;
+};
+
+type Room = {
+  code: string;
+  hostId: string;
+  options: RoomOptions;
+  players: Map<string, RoomPlayer>;
+  phase: RoomPhase;
+  roundNumber: number;
+  game: SteamGame | null;
+  answer: number | null;
+  roundEndsAt: number | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Set while the next game is being fetched, so a double click deals once. */
+  dealing: boolean;
+  playedAppIds: number[];
+  lastActivity: number;
+};
+
+export const DEFAULT_ROOM_OPTIONS: RoomOptions = {
+  target: DEFAULT_GUESS_TARGET,
+  difficulty: DEFAULT_DIFFICULTY,
+  locale: DEFAULT_LOCALE,
+  rounds: 5,
+  roundSeconds: 90,
+};
+
+export const MAX_ROOM_PLAYERS = 8;
+export const ROOM_ROUND_LIMITS = { min: 1, max: 20 };
+export const ROOM_SECONDS_LIMITS = { min: 20, max: 300 };
+// Same unambiguous alphabet as recovery codes: no 0/O or 1/I/L.
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const ROOM_CODE_LENGTH = 5;
+const ROOM_IDLE_MS = 1000 * 60 * 60; // 1 hour
+
+const rooms = new Map<string, Room>();
+
+export class RoomError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "RoomError";
+    this.status = status;
+  }
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest();
+}
+
+function createRoomCode() {
+  for (;;) {
+    const code = Array.from(
+      { length: ROOM_CODE_LENGTH },
+      () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)],
+    ).join("");
+    if (!rooms.has(code)) return code;
+  }
+}
+
+export function normalizeRoomCode(code: string) {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/** Drops rooms nobody has touched or watched for a while. */
+function sweepRooms(now = Date.now()) {
+  for (const [code, room] of rooms) {
+    const watched = [...room.players.values()].some(
+      (player) => player.listeners.size > 0,
+    );
+    if (!watched && now - room.lastActivity > ROOM_IDLE_MS) {
+      if (room.timer) clearTimeout(room.timer);
+      rooms.delete(code);
+    }
+  }
+}
+
+function getRoom(code: string) {
+  const room = rooms.get(normalizeRoomCode(code));
+  if (!room) {
+    throw new RoomError("No room with that code.", 404);
+  }
+  return room;
+}
+
+function authenticate(room: Room, playerId: string, playerToken: string) {
+  const player = room.players.get(playerId);
+  if (
+    !player ||
+    !timingSafeEqual(
+      Buffer.from(player.tokenHash, "hex"),
+      hashToken(playerToken),
+    )
+  ) {
+    throw new RoomError("You are not in this room.", 401);
+  }
+  room.lastActivity = Date.now();
+  return player;
+}
+
+function addPlayer(room: Room, name: string): RoomCredentials {
+  const displayName = name.trim().replace(/\s+/g, " ");
+  if (!isDisplayName(displayName)) {
+    throw new RoomError(
+      "Names are 2 to 20 letters, numbers, spaces or _.'-",
+      400,
+    );
+  }
+  if (room.players.size >= MAX_ROOM_PLAYERS) {
+    throw new RoomError("This room is full.", 409);
+  }
+
+  const playerId = randomUUID();
+  const playerToken = randomBytes(24).toString("base64url");
+  room.players.set(playerId, {
+    id: playerId,
+    name: displayName,
+    tokenHash: hashToken(playerToken).toString("hex"),
+    score: 0,
+    wins: 0,
+    round: initialRound,
+    listeners: new Set(),
+  });
+  room.lastActivity = Date.now();
+  return { code: room.code, playerId, playerToken };
+}
+
+function viewFor(room: Room, playerId: string): RoomView {
+  const roundOver = room.phase !== "playing";
+  return {
+    code: room.code,
+    you: playerId,
+    phase: room.phase,
+    roundNumber: room.roundNumber,
+    options: room.options,
+    roundEndsAt: room.roundEndsAt,
+    game: room.game ? redactSteamGame(room.game) : null,
+    answer: roundOver ? room.answer : null,
+    players: [...room.players.values()].map((player) => ({
+      id: player.id,
+      name: player.name,
+      isHost: player.id === room.hostId,
+      connected: player.listeners.size > 0,
+      score: player.score,
+      wins: player.wins,
+      phase: player.round.phase,
+      guessesUsed: player.round.guesses.length,
+      guesses:
+        roundOver || player.id === playerId ? player.round.guesses : null,
+    })),
+  };
+}
+
+function broadcast(room: Room) {
+  for (const player of room.players.values()) {
+    if (player.listeners.size === 0) continue;
+    const view = viewFor(room, player.id);
+    for (const listener of player.listeners) listener(view);
+  }
+}
+
+function endRound(room: Room) {
+  if (room.phase !== "playing") return;
+  if (room.timer) clearTimeout(room.timer);
+  room.timer = null;
+
+  for (const player of room.players.values()) {
+    // Out of time counts as a loss, like skipping in endless mode.
+    const round =
+      player.round.phase === "playing"
+        ? reduceRound(player.round, { type: "skip" })
+        : player.round;
+    player.round = reduceRound(round, {
+      type: "resolve",
+      actualScore: room.answer,
+    });
+    // Scored like an endless Classic round, near misses included.
+    player.score +=
+      room.answer === null ? 0 : getRoundPoints(player.round, room.answer);
+    if (player.round.phase === "won") player.wins += 1;
+  }
+
+  room.roundEndsAt = null;
+  room.phase = room.roundNumber >= room.options.rounds ? "finished" : "results";
+  broadcast(room);
+}
+
+export function createRoom(
+  name: string,
+  options: Partial<RoomOptions> = {},
+): RoomCredentials {
+  sweepRooms();
+  const merged = { ...DEFAULT_ROOM_OPTIONS, ...options };
+  const room: Room = {
+    code: createRoomCode(),
+    hostId: "",
+    options: {
+      ...merged,
+      rounds: Math.min(
+        Math.max(Math.round(merged.rounds), ROOM_ROUND_LIMITS.min),
+        ROOM_ROUND_LIMITS.max,
+      ),
+      roundSeconds: Math.min(
+        Math.max(Math.round(merged.roundSeconds), ROOM_SECONDS_LIMITS.min),
+        ROOM_SECONDS_LIMITS.max,
+      ),
+    },
+    players: new Map(),
+    phase: "lobby",
+    roundNumber: 0,
+    game: null,
+    answer: null,
+    roundEndsAt: null,
+    timer: null,
+    dealing: false,
+    playedAppIds: [],
+    lastActivity: Date.now(),
+  };
+  const credentials = addPlayer(room, name);
+  room.hostId = credentials.playerId;
+  rooms.set(room.code, room);
+  return credentials;
+}
+
+/** Players who join mid-round sit it out and play from the next one. */
+export function joinRoom(code: string, name: string): RoomCredentials {
+  const room = getRoom(code);
+  if (room.phase === "finished") {
+    throw new RoomError("This room has finished its last round.", 409);
+  }
+  const credentials = addPlayer(room, name);
+  broadcast(room);
+  return credentials;
+}
+
+/**
+ * Calls `listener` with the player's view now and after every change, until
+ * the returned function is called.
+ */
+export function subscribeToRoom(
+  { code, playerId, playerToken }: RoomCredentials,
+  listener: RoomListener,
+) {
+  const room = getRoom(code);
+  const player = authenticate(room, playerId, playerToken);
+  player.listeners.add(listener);
+  broadcast(room);
+
+  return () => {
+    if (!player.listeners.delete(listener)) return;
+    room.lastActivity = Date.now();
+    broadcast(room);
+  };
+}
+
+/** The host deals the next game to everyone at once. */
+export async function startNextRound({
+  code,
+  playerId,
+  playerToken,
+}: RoomCredentials) {
+  const room = getRoom(code);
+  authenticate(room, playerId, playerToken);
+  if (playerId !== room.hostId) {
+    throw new RoomError("Only the host can start the next round.", 403);
+  }
+  if (room.phase === "playing" || room.phase === "finished" || room.dealing) {
+    throw new RoomError("A round is already running or the room is over.", 409);
+  }
+
+  room.dealing = true;
+  try {
+    const { target, difficulty, locale, roundSeconds } = room.options;
+    const game = await takeRandomSteamGame(room.playedAppIds, {
+      difficulty,
+      target,
+      locale,
+    });
+    room.game = game;
+    room.answer = GUESS_TARGET_RULES[target].getAnswer(game);
+    room.playedAppIds.push(game.appId);
+    room.roundNumber += 1;
+    room.phase = "playing";
+    room.roundEndsAt = Date.now() + roundSeconds * 1000;
+    for (const player of room.players.values()) {
+      player.round = reduceRound(initialRound, {
+        type: "start",
+        appId: game.appId,
+        difficulty,
+        target,
+      });
+    }
+    room.timer = setTimeout(() => endRound(room), roundSeconds * 1000);
+  } finally {
+    room.dealing = false;
+  }
+  broadcast(room);
+}
+
+export function submitRoomGuess(
+  { code, playerId, playerToken }: RoomCredentials,
+  guess: number,
+) {
+  const room = getRoom(code);
+  const player = authenticate(room, playerId, playerToken);
+  if (room.phase !== "playing" || room.answer === null) {
+    throw new RoomError("There is no round running.", 409);
+  }
+
+  const error = getGuessError(player.round, guess);
+  if (error) {
+    throw new RoomError(error, isRoundOver(player.round) ? 409 : 400);
+  }
+
+  const outcome = GUESS_TARGET_RULES[room.options.target].judge(
+    guess,
+    room.answer,
+  );
+  player.round = reduceRound(player.round, {
+    type: "guess",
+    value: guess,
+    outcome,
+  });
+
+  const everyoneDone = [...room.players.values()].every(
+    (other) => other.round.phase !== "playing",
+  );
+  if (everyoneDone) {
+    endRound(room);
+  } else {
+    broadcast(room);
+  }
+  return { outcome };
+}
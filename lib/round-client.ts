@@ -0,0 +1,85 @@
+import type { GuessResult, HintResult, RoundStart } from "@/lib/round";
+
+/**
+ * How long the browser holds a round it dealt ahead of time. Review numbers
+ * drift, so this matches how long the server's warm pool keeps a game
+ * (`POOLED_GAME_TTL_MS` in lib/game-pool.ts): a held round is never staler
+ * than one dealt from the pool.
+ */
+export const PREFETCHED_ROUND_TTL_MS = 1000 * 60 * 30;
+
+/** A failed API call, with the machine-readable `code` some routes add. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+
+  constructor(message: string, status: number, code: string | null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export async function readJson<T>(response: Response, fallbackMessage: string) {
+  if (!response.ok) {
+    const details = (await response.json().catch(() => null)) as {
+      error?: string;
+      code?: string;
+    } | null;
+    throw new ApiError(
+      details?.error ?? `${fallbackMessage} (status ${response.status})`,
+      response.status,
+      details?.code ?? null,
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+export async function requestRound<T extends RoundStart = RoundStart>(
+  url: string,
+  headers?: HeadersInit,
+) {
+  const response = await fetch(url, {
+    method: "GET",
+    cache: "no-store",
+    headers,
+  });
+  return readJson<T>(response, "Steam API returned an error");
+}
+
+/** Starts a round fetched with `prefetch=1`, settling the one before it. */
+export async function requestRoundStart(
+  token: string,
+  timeZone: string,
+  skipped: boolean,
+) {
+  const response = await fetch("/api/game/start", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token, tz: timeZone, skip: skipped }),
+  });
+  return readJson<{ ok: true }>(response, "Round start failed");
+}
+
+export async function requestGuess(token: string, guess: number) {
+  const response = await fetch("/api/guess", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token, guess }),
+  });
+  return readJson<GuessResult>(response, "Guess check failed");
+}
+
+export async function requestHint(token: string) {
+  const response = await fetch("/api/hint", {
+    method: "POST",
+    cache: "no-store",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token }),
+  });
+  return readJson<HintResult>(response, "Hint request failed");
+}
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+import {
+  RoundError,
+  readRoundState,
+  rebindRound,
+  revealHint,
+  startRound,
+  submitGuess,
+  type RoundOwner,
+} from "@/lib/round";
+import type { SteamGame } from "@/lib/steam";
+
+const SESSION = "3f2b6c1e-8d4a-4f0e-9b7c-2a1d5e6f7a8b";
+const OTHER_SESSION = "9c8b7a6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d";
+const ACTUAL = 80;
+
+const GAME: SteamGame = {
+  appId: 620,
+  type: "game",
+  name: "Portal 2",
+  headerImage: "",
+  shortDescription: "",
+  reviewScore: ACTUAL,
+  reviewLocale: "en",
+  reviewSummary: null,
+  positive: 800,
+  negative: 200,
+  totalReviews: 1000,
+  genres: ["Action"],
+  releaseDate: "18 Apr, 2011",
+  releaseYear: 2011,
+  priceCents: 999,
+  metacriticScore: 95,
+  requiredAge: 0,
+  contentDescriptors: [],
+  contentNotes: null,
+};
+
+let dataDir: string;
+
+before(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), "steamcodle-round-"));
+  process.env.STEAMCODLE_DATA_DIR = dataDir;
+  process.env.STEAMCODLE_ROUND_SECRET = "round-test-secret";
+});
+
+after(() => rm(dataDir, { recursive: true, force: true }));
+
+function deal(owner: RoundOwner = { sessionId: SESSION }) {
+  return startRound(GAME, "score", "en", "classic", "standard", owner).token;
+}
+
+function isRoundError(status: number) {
+  return (error: unknown) =>
+    error instanceof RoundError && error.status === status;
+}
+
+describe("submitGuess", () => {
+  it("moves the round on to a new token", async () => {
+    const result = await submitGuess(deal(), 10, SESSION);
+    assert.equal(result.outcome, "higher");
+    assert.equal(result.guessesUsed, 1);
+    assert.equal(result.resolved, false);
+    assert.equal(result.actualScore, null);
+  });
+
+  it("refuses an older token once the round has moved on", async () => {
+    const token = deal();
+    const { token: latest } = await submitGuess(token, 10, SESSION);
+    await assert.rejects(
+      submitGuess(token, ACTUAL, SESSION),
+      isRoundError(409),
+    );
+
+    const result = await submitGuess(latest, ACTUAL, SESSION);
+    assert.equal(result.outcome, "win");
+  });
+
+  it("refuses a token a hint was bought with", async () => {
+    const token = deal();
+    await revealHint(token, SESSION);
+    await assert.rejects(
+      submitGuess(token, ACTUAL, SESSION),
+      isRoundError(409),
+    );
+  });
+
+  it("refuses a round dealt to another session, or to none", async () => {
+    const token = deal();
+    await assert.rejects(
+      submitGuess(token, ACTUAL, OTHER_SESSION),
+      isRoundError(403),
+    );
+    await assert.rejects(submitGuess(token, ACTUAL, null), isRoundError(403));
+
+    // The refused guesses never became moves.
+    const result = await submitGuess(token, ACTUAL, SESSION);
+    assert.equal(result.guessesUsed, 1);
+  });
+
+  it("takes a time-attack guess from any session, once", async () => {
+    const { token } = startRound(GAME, "score", "en", "classic", "time-attack");
+    const result = await submitGuess(token, 10, null);
+    assert.equal(result.resolved, true);
+    assert.equal(result.actualScore, ACTUAL);
+    await assert.rejects(
+      submitGuess(result.token, ACTUAL, null),
+      isRoundError(409),
+    );
+  });
+});
+
+describe("rebindRound", () => {
+  it("hands a daily round to another session with its guesses", async () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const token = deal({ sessionId: SESSION, daily: today });
+    const { token: latest } = await submitGuess(token, 10, SESSION);
+    const rebound = rebindRound(latest, { sessionId: OTHER_SESSION });
+    assert.equal(readRoundState(rebound).guesses.length, 1);
+
+    const { token: finished } = await submitGuess(
+      rebound,
+      ACTUAL,
+      OTHER_SESSION,
+    );
+    const round = readRoundState(finished);
+    assert.equal(round.phase, "won");
+    assert.equal(round.actualScore, ACTUAL);
+  });
+});
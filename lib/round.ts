@@ -0,0 +1,532 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  randomUUID,
+} from "node:crypto";
+
+import { getDailyExpiry } from "@/lib/daily";
+import {
+  readRecord,
+  sweepRecords,
+  withRecordLock,
+  writeRecord,
+} from "@/lib/data-store";
+import {
+  getGuessError,
+  getHintError,
+  getSlotsUsed,
+  initialRound,
+  isRoundOver,
+  reduceRound,
+  type RoundState,
+} from "@/lib/game-engine";
+import {
+  DEFAULT_RULE_SET,
+  RULE_SET_PRESETS,
+  type GuessOutcome,
+  type RuleSetId,
+} from "@/lib/game-rules";
+import {
+  DEFAULT_GUESS_TARGET,
+  getGuessTargetRules,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+import { buildHints, type Hint } from "@/lib/hints";
+import { DEFAULT_LOCALE, translate, type Locale } from "@/lib/i18n";
+import { logEvent } from "@/lib/logger";
+import type { SteamGame } from "@/lib/steam";
+
+/**
+ * The game as the browser sees it while a round is in progress. Everything
+ * that could be a guess target, or would give one away, is stripped.
+ */
+export type PublicSteamGame = Pick<
+  SteamGame,
+  | "appId"
+  | "type"
+  | "name"
+  | "headerImage"
+  | "shortDescription"
+  | "genres"
+  | "reviewLocale"
+>;
+
+/**
+ * Time-attack rounds take a single guess, stay out of the daily loss limit
+ * and never count on leaderboards.
+ */
+export type RoundMode = "standard" | "time-attack";
+
+export type RoundStart = {
+  token: string;
+  game: PublicSteamGame;
+  target: GuessTarget;
+  ruleSet: RuleSetId;
+  maxGuesses: number;
+  /** How many hints this round can buy. */
+  hintCount: number;
+};
+
+/** Who a round is dealt to, and for which daily puzzle; see `RoundPayload`. */
+export type RoundOwner = {
+  sessionId?: string;
+  profileId?: string;
+  daily?: string;
+};
+
+export type GuessResult = {
+  token: string;
+  outcome: GuessOutcome;
+  guessesUsed: number;
+  resolved: boolean;
+  actualScore: number | null;
+};
+
+export type HintResult = {
+  token: string;
+  hint: Hint;
+  guessesUsed: number;
+  hintsLeft: number;
+};
+
+/** The round a token was dealt as, whatever has been played since. */
+export type RoundDeal = {
+  roundId: string;
+  appId: number;
+  target: GuessTarget;
+  ruleSet: RuleSetId;
+  mode: RoundMode;
+  sessionId: string | null;
+  profileId: string | null;
+  /** The puzzle date of a daily round; null for every other round. */
+  daily: string | null;
+};
+
+/** A finished round as the server replayed it, for leaderboards. */
+export type RoundReceipt = RoundDeal & {
+  won: boolean;
+  /** Distance of the last guess from the answer; null if none was made. */
+  absoluteError: number | null;
+};
+
+type RoundPayload = {
+  roundId: string;
+  appId: number;
+  /** Tokens issued before guess targets existed are review-score rounds. */
+  target?: GuessTarget;
+  /** Tokens issued before rule sets existed are Classic rounds. */
+  ruleSet?: RuleSetId;
+  /** Missing on standard rounds. */
+  mode?: RoundMode;
+  /**
+   * The browser session the round was dealt to. Standard rounds only take
+   * guesses and hints from it, so the loss limit cannot be dodged by playing
+   * without the session cookie.
+   */
+  sessionId?: string;
+  /**
+   * The player's profile, if they had one when the round was dealt. Their
+   * losses are counted against it, and Classic endless rounds count on its
+   * leaderboards.
+   */
+  profileId?: string;
+  /**
+   * The puzzle date, on daily rounds. They stay out of the loss limit and
+   * last as long as their puzzle can be played, not `ROUND_TTL_MS`.
+   */
+  daily?: string;
+  /** The answer for the round's target: review %, year, price in cents, … */
+  score: number;
+  guesses: number[];
+  /** Every hint the round offers; the first `hintsUsed` have been bought. */
+  hints?: Hint[];
+  hintsUsed?: number;
+  issuedAt: number;
+};
+
+/** Moves made in a round, kept until its tokens expire. */
+type RoundProgress = {
+  moves: number;
+  /** Missing on records written before progress expired. */
+  expiresAt?: number;
+};
+
+const ROUND_TTL_MS = 1000 * 60 * 60 * 6; // 6 hours
+const ROUND_PROGRESS = "round-progress";
+const TOKEN_IV_BYTES = 12;
+const TOKEN_TAG_BYTES = 16;
+
+let roundKey: Buffer | null = null;
+let warnedEphemeralKey = false;
+
+export function isRoundMode(value: unknown): value is RoundMode {
+  return value === "standard" || value === "time-attack";
+}
+
+export class RoundError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "RoundError";
+    this.status = status;
+  }
+}
+
+function getRoundKey() {
+  if (roundKey) return roundKey;
+
+  const secret = process.env.STEAMCODLE_ROUND_SECRET;
+  if (secret) {
+    roundKey = createHash("sha256").update(secret).digest();
+    return roundKey;
+  }
+
+  if (!warnedEphemeralKey) {
+    logEvent("warn", "round.secret-missing", { fallback: "per-process key" });
+    warnedEphemeralKey = true;
+  }
+  roundKey = randomBytes(32);
+  return roundKey;
+}
+
+function sealRound(payload: RoundPayload) {
+  const iv = randomBytes(TOKEN_IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", getRoundKey(), iv);
+  const body = Buffer.concat([
+    cipher.update(JSON.stringify(payload), "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), body]).toString("base64url");
+}
+
+function openRound(token: string): RoundPayload {
+  try {
+    const raw = Buffer.from(token, "base64url");
+    const iv = raw.subarray(0, TOKEN_IV_BYTES);
+    const tag = raw.subarray(TOKEN_IV_BYTES, TOKEN_IV_BYTES + TOKEN_TAG_BYTES);
+    const body = raw.subarray(TOKEN_IV_BYTES + TOKEN_TAG_BYTES);
+    const decipher = createDecipheriv("aes-256-gcm", getRoundKey(), iv);
+    decipher.setAuthTag(tag);
+    const json = Buffer.concat([
+      decipher.update(body),
+      decipher.final(),
+    ]).toString("utf8");
+    return JSON.parse(json) as RoundPayload;
+  } catch {
+    throw new RoundError("Invalid round token.", 400);
+  }
+}
+
+export function redactSteamGame(game: SteamGame): PublicSteamGame {
+  return {
+    appId: game.appId,
+    type: game.type,
+    name: game.name,
+    headerImage: game.headerImage,
+    shortDescription: game.shortDescription,
+    genres: game.genres,
+    reviewLocale: game.reviewLocale,
+  };
+}
+
+export function startRound(
+  game: SteamGame,
+  target: GuessTarget = DEFAULT_GUESS_TARGET,
+  locale: Locale = DEFAULT_LOCALE,
+  ruleSet: RuleSetId = DEFAULT_RULE_SET,
+  mode: RoundMode = "standard",
+  owner: RoundOwner = {},
+): RoundStart {
+  const preset = RULE_SET_PRESETS[ruleSet];
+  const timeAttack = mode === "time-attack";
+  const answer = getGuessTargetRules(target, ruleSet).getAnswer(game);
+  if (typeof answer !== "number") {
+    throw new Error(
+      `App ${game.appId} has no ${translate(DEFAULT_LOCALE, `targets.${target}.label`)} to guess.`,
+    );
+  }
+
+  const hints =
+    preset.hints && !timeAttack ? buildHints(game, target, locale) : [];
+  const token = sealRound({
+    roundId: randomUUID(),
+    appId: game.appId,
+    target,
+    ruleSet,
+    ...(timeAttack ? { mode } : {}),
+    ...(owner.sessionId ? { sessionId: owner.sessionId } : {}),
+    ...(owner.profileId ? { profileId: owner.profileId } : {}),
+    ...(owner.daily ? { daily: owner.daily } : {}),
+    score: answer,
+    guesses: [],
+    hints,
+    hintsUsed: 0,
+    issuedAt: Date.now(),
+  });
+
+  return {
+    token,
+    game: redactSteamGame(game),
+    target,
+    ruleSet,
+    maxGuesses: timeAttack ? 1 : preset.maxGuesses,
+    hintCount: hints.length,
+  };
+}
+
+/**
+ * Rebuilds the engine's view of a round by replaying the sealed hints and
+ * guesses. Only the totals matter to the rules, so hints go first.
+ */
+function replayRound(
+  payload: RoundPayload,
+  target: GuessTarget,
+  ruleSet: RuleSetId,
+): RoundState {
+  const { judge } = getGuessTargetRules(target, ruleSet);
+  const started = reduceRound(initialRound, {
+    type: "start",
+    appId: payload.appId,
+    target,
+    ruleSet,
+  });
+  const hinted = (payload.hints ?? [])
+    .slice(0, payload.hintsUsed ?? 0)
+    .reduce<RoundState>(
+      (round, hint) => reduceRound(round, { type: "hint", hint }),
+      started,
+    );
+  return payload.guesses.reduce<RoundState>(
+    (round, value) =>
+      reduceRound(round, {
+        type: "guess",
+        value,
+        outcome: judge(value, payload.score),
+      }),
+    hinted,
+  );
+}
+
+function getRoundExpiry(payload: RoundPayload) {
+  return payload.daily
+    ? getDailyExpiry(payload.daily)
+    : payload.issuedAt + ROUND_TTL_MS;
+}
+
+/** Guesses plus bought hints: how far along the round a token is. */
+function countMoves(payload: RoundPayload) {
+  return payload.guesses.length + (payload.hintsUsed ?? 0);
+}
+
+async function readMoves(roundId: string) {
+  const stored = await readRecord<RoundProgress>(ROUND_PROGRESS, roundId);
+  return stored?.moves ?? 0;
+}
+
+/**
+ * An expired token is refused before its moves are read, so its record is
+ * dead weight. Records written before they had an expiry go too; their
+ * rounds are at most one token lifetime from expiring anyway.
+ */
+function isProgressExpired(progress: RoundProgress) {
+  return (progress.expiresAt ?? 0) < Date.now();
+}
+
+/**
+ * Tokens carry their own guesses, so on their own an older token would play
+ * the round again from an earlier point. The server keeps how many moves each
+ * round has made and only accepts the token that is that far along.
+ */
+function assertLatestToken(payload: RoundPayload, moves: number) {
+  if (countMoves(payload) !== moves) {
+    throw new RoundError(
+      "This round has moved on. Continue from its latest token.",
+      409,
+    );
+  }
+}
+
+/** Runs one guess or hint against the latest token and counts the move. */
+async function advanceRound<T>(
+  payload: RoundPayload,
+  move: () => T,
+): Promise<T> {
+  const result = await withRecordLock(
+    ROUND_PROGRESS,
+    payload.roundId,
+    async () => {
+      assertLatestToken(payload, await readMoves(payload.roundId));
+      const moved = move();
+      const progress: RoundProgress = {
+        moves: countMoves(payload) + 1,
+        expiresAt: getRoundExpiry(payload),
+      };
+      await writeRecord(ROUND_PROGRESS, payload.roundId, progress);
+      return moved;
+    },
+  );
+  // Outside the lock: the sweep takes every record's lock, this one's too.
+  void sweepRecords(ROUND_PROGRESS, isProgressExpired);
+  return result;
+}
+
+function assertSession(payload: RoundPayload, sessionId: string | null) {
+  if (payload.mode === "time-attack") return;
+  if (!payload.sessionId || payload.sessionId !== sessionId) {
+    throw new RoundError("This round was dealt to another session.", 403);
+  }
+}
+
+/** Throws a 403 unless a standard round was dealt to `sessionId`. */
+export function assertRoundSession(token: string, sessionId: string | null) {
+  assertSession(openRound(token), sessionId);
+}
+
+function openActiveRound(token: string) {
+  const payload = openRound(token);
+  if (Date.now() > getRoundExpiry(payload)) {
+    throw new RoundError("This round has expired. Start a new game.", 410);
+  }
+  const target = payload.target ?? DEFAULT_GUESS_TARGET;
+  const ruleSet = payload.ruleSet ?? DEFAULT_RULE_SET;
+  return {
+    payload,
+    target,
+    ruleSet,
+    round: replayRound(payload, target, ruleSet),
+  };
+}
+
+export async function submitGuess(
+  token: string,
+  guess: number,
+  sessionId: string | null,
+): Promise<GuessResult> {
+  const { payload, target, ruleSet, round } = openActiveRound(token);
+  assertSession(payload, sessionId);
+  return advanceRound(payload, () => {
+    const timeAttack = payload.mode === "time-attack";
+    if (timeAttack && payload.guesses.length > 0) {
+      throw new RoundError("This round is already over.", 409);
+    }
+    const error = getGuessError(round, guess);
+    if (error) {
+      throw new RoundError(error, isRoundOver(round) ? 409 : 400);
+    }
+
+    const outcome = getGuessTargetRules(target, ruleSet).judge(
+      guess,
+      payload.score,
+    );
+    const next = reduceRound(round, { type: "guess", value: guess, outcome });
+    // A time-attack round ends on its one guess, hit or miss.
+    const resolved = timeAttack || isRoundOver(next);
+
+    return {
+      token: sealRound({ ...payload, guesses: [...payload.guesses, guess] }),
+      outcome,
+      guessesUsed: getSlotsUsed(next),
+      resolved,
+      actualScore: resolved ? payload.score : null,
+    };
+  });
+}
+
+/** Buys the round's next hint at the cost of one guess. */
+export async function revealHint(
+  token: string,
+  sessionId: string | null,
+): Promise<HintResult> {
+  const { payload, round } = openActiveRound(token);
+  assertSession(payload, sessionId);
+  return advanceRound(payload, () => {
+    const error = getHintError(round);
+    if (error) {
+      throw new RoundError(error, 409);
+    }
+
+    const hints = payload.hints ?? [];
+    const hintsUsed = payload.hintsUsed ?? 0;
+    const hint = hints[hintsUsed];
+    if (!hint) {
+      throw new RoundError("No hints left for this game.", 409);
+    }
+
+    const next = reduceRound(round, { type: "hint", hint });
+    return {
+      token: sealRound({ ...payload, hintsUsed: hintsUsed + 1 }),
+      hint,
+      guessesUsed: getSlotsUsed(next),
+      hintsLeft: hints.length - hintsUsed - 1,
+    };
+  });
+}
+
+function getRoundDeal(payload: RoundPayload): RoundDeal {
+  return {
+    roundId: payload.roundId,
+    appId: payload.appId,
+    target: payload.target ?? DEFAULT_GUESS_TARGET,
+    ruleSet: payload.ruleSet ?? DEFAULT_RULE_SET,
+    mode: payload.mode ?? "standard",
+    sessionId: payload.sessionId ?? null,
+    profileId: payload.profileId ?? null,
+    daily: payload.daily ?? null,
+  };
+}
+
+/** Reads the result of a finished round from its latest token. */
+export async function readRoundReceipt(token: string): Promise<RoundReceipt> {
+  const { payload, round } = openActiveRound(token);
+  assertLatestToken(payload, await readMoves(payload.roundId));
+  const over =
+    isRoundOver(round) ||
+    (payload.mode === "time-attack" && payload.guesses.length > 0);
+  if (!over) {
+    throw new RoundError("This round is still in progress.", 409);
+  }
+
+  const lastGuess = payload.guesses.at(-1);
+  return {
+    ...getRoundDeal(payload),
+    won: round.phase === "won",
+    absoluteError:
+      lastGuess === undefined ? null : Math.abs(lastGuess - payload.score),
+  };
+}
+
+/**
+ * The round as the browser tracks it, rebuilt from its latest token so a
+ * daily puzzle picks up where it was left. Once over it shows the answer.
+ */
+export function readRoundState(token: string): RoundState {
+  const { payload, round } = openActiveRound(token);
+  return isRoundOver(round)
+    ? reduceRound(round, { type: "resolve", actualScore: payload.score })
+    : round;
+}
+
+/**
+ * Reissues a round to another session of the same player, moves and all,
+ * for a daily puzzle continued on a second device.
+ */
+export function rebindRound(token: string, owner: RoundOwner) {
+  const payload = openRound(token);
+  return sealRound({
+    ...payload,
+    sessionId: owner.sessionId,
+    profileId: owner.profileId ?? payload.profileId,
+  });
+}
+
+export function readRoundDeal(token: string): RoundDeal {
+  return getRoundDeal(openRound(token));
+}
+
+/** The ID a round was dealt with, carried by every token it issues. */
+export function readRoundId(token: string) {
+  return openRound(token).roundId;
+}
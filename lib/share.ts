@@ -0,0 +1,109 @@
+import type { GuessEntry } from "@/lib/game-engine";
+import {
+  DEFAULT_RULE_SET,
+  type GuessOutcome,
+  type RuleSetId,
+} from "@/lib/game-rules";
+import {
+  DEFAULT_GUESS_TARGET,
+  getGuessTargetRules,
+  type DistanceBand,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+
+export type ShareInput = {
+  /** Round label such as "Daily #290" or the game's name. */
+  title: string;
+  date: string;
+  guesses: GuessEntry[];
+  maxGuesses: number;
+  actualScore: number | null;
+  won: boolean;
+  /** What was being guessed; the review score when omitted. */
+  target?: GuessTarget;
+  /** Whose tolerances color the grid; Classic when omitted. */
+  ruleSet?: RuleSetId;
+  /** Hints bought during the round; each one used up a guess. */
+  hintsUsed?: number;
+};
+
+export type ShareOutcome = "shared" | "copied" | "failed";
+
+const OUTCOME_EMOJI: Record<GuessOutcome, string> = {
+  higher: "⬆️",
+  lower: "⬇️",
+  win: "✅",
+};
+
+const BAND_EMOJI: Record<DistanceBand, string> = {
+  0: "🟩",
+  1: "🟨",
+  2: "🟧",
+  3: "🟥",
+};
+
+function getDistanceBand(
+  value: number,
+  actual: number | null,
+  target: GuessTarget,
+  ruleSet: RuleSetId,
+) {
+  if (actual === null) return "⬛";
+  const { distance } = getGuessTargetRules(target, ruleSet);
+  return BAND_EMOJI[distance(value, actual)];
+}
+
+export function buildShareText({
+  title,
+  date,
+  guesses,
+  maxGuesses,
+  actualScore,
+  won,
+  target = DEFAULT_GUESS_TARGET,
+  ruleSet = DEFAULT_RULE_SET,
+  hintsUsed = 0,
+}: ShareInput) {
+  const used = guesses.length + hintsUsed;
+  const score = won ? `${used}/${maxGuesses}` : `X/${maxGuesses}`;
+  const rows = guesses.map(
+    (guess) =>
+      `${OUTCOME_EMOJI[guess.outcome]}${getDistanceBand(guess.value, actualScore, target, ruleSet)}`,
+  );
+  if (hintsUsed > 0) {
+    rows.unshift("💡".repeat(hintsUsed));
+  }
+
+  return [`Steamcodle ${title} ${score}`, date, "", ...rows].join("\n");
+}
+
+function prefersNativeShare() {
+  return (
+    typeof navigator.share === "function" &&
+    window.matchMedia("(pointer: coarse)").matches
+  );
+}
+
+/**
+ * Uses the Web Share sheet on touch devices and the clipboard everywhere
+ * else. A dismissed share sheet is not treated as a failure.
+ */
+export async function shareResult(text: string): Promise<ShareOutcome> {
+  if (prefersNativeShare()) {
+    try {
+      await navigator.share({ text });
+      return "shared";
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return "shared";
+      }
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(text);
+    return "copied";
+  } catch {
+    return "failed";
+  }
+}
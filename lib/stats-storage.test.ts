@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  STATS_SCHEMA_VERSION,
+  migrateStats,
+  readStoredStats,
+  serializeStats,
+} from "@/lib/stats-storage";
+import { getDefaultStats } from "@/lib/game-engine";
+
+const TODAY = "2026-03-02";
+
+/** Stats as the first builds saved them: bare, and capped by games played. */
+const VERSION_0 = {
+  totalGuesses: 12,
+  correctGames: 3,
+  incorrectGames: 2,
+  currentStreak: 1,
+  bestStreak: 2,
+  lastPlayedDate: TODAY,
+  gamesPlayedToday: 2,
+};
+
+describe("migrateStats", () => {
+  it("turns games played today into today's losses", () => {
+    const migrated = migrateStats(VERSION_0);
+    assert.equal(migrated.lossesToday, 2);
+    assert.equal("gamesPlayedToday" in migrated, false);
+  });
+
+  it("keeps today's losses when a save already has them", () => {
+    const migrated = migrateStats({
+      ...VERSION_0,
+      lossesToday: 1,
+    });
+    assert.equal(migrated.lossesToday, 1);
+    assert.equal("gamesPlayedToday" in migrated, false);
+  });
+
+  it("only runs the migrations past the saved version", () => {
+    const migrated = migrateStats(
+      { gamesPlayedToday: 2 },
+      STATS_SCHEMA_VERSION,
+    );
+    assert.deepEqual(migrated, { gamesPlayedToday: 2 });
+  });
+});
+
+describe("readStoredStats", () => {
+  it("reads a version 0 save into the current shape", () => {
+    const stats = readStoredStats(VERSION_0, TODAY);
+    const streaks = {
+      correctGames: 3,
+      incorrectGames: 2,
+      currentStreak: 1,
+      bestStreak: 2,
+    };
+    assert.equal(stats.lossesToday, 2);
+    assert.equal(stats.totalGuesses, 12);
+    assert.deepEqual(stats.byDifficulty.normal, streaks);
+    assert.deepEqual(stats.byTarget.score, streaks);
+    assert.deepEqual(stats.byRuleSet.classic, { ...streaks, points: 0 });
+    assert.equal(stats.totalPoints, 0);
+  });
+
+  it("reads back what serializeStats wrote", () => {
+    const stats = { ...getDefaultStats(TODAY), correctGames: 4 };
+    assert.deepEqual(
+      readStoredStats(JSON.parse(JSON.stringify(serializeStats(stats))), TODAY),
+      stats,
+    );
+  });
+
+  it("defaults a corrupt counter and keeps the rest", () => {
+    const stats = readStoredStats(
+      { ...VERSION_0, correctGames: "three", bestStreak: -1 },
+      TODAY,
+    );
+    assert.equal(stats.correctGames, 0);
+    assert.equal(stats.incorrectGames, 2);
+    assert.equal(stats.bestStreak, 1);
+  });
+
+  it("falls back to default stats for anything unusable", () => {
+    assert.deepEqual(readStoredStats("nope", TODAY), getDefaultStats(TODAY));
+    assert.deepEqual(
+      readStoredStats({ version: 4, stats: null }, TODAY),
+      getDefaultStats(TODAY),
+    );
+  });
+});
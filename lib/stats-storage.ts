@@ -0,0 +1,217 @@
+import { isDailyDate } from "@/lib/daily";
+import { DIFFICULTIES } from "@/lib/difficulty";
+import {
+  getDefaultStats,
+  type RuleSetStats,
+  type StatsSnapshot,
+  type StreakStats,
+} from "@/lib/game-engine";
+import { RULE_SETS } from "@/lib/game-rules";
+import { GUESS_TARGETS } from "@/lib/guess-targets";
+import { parseRoundHistory, type RoundRecord } from "@/lib/history";
+
+/**
+ * How stats are written to localStorage and to backup files. Saved stats
+ * carry the schema version they were written with; anything older is walked
+ * through the migrations in order and then checked field by field, so one
+ * corrupt counter costs that counter and not the whole record.
+ */
+
+type RawStats = Record<string, unknown>;
+
+/** `STATS_MIGRATIONS[n]` upgrades version n to n + 1. */
+const STATS_MIGRATIONS: ((stats: RawStats) => RawStats)[] = [
+  // 0 → 1: the daily cap counted games played, not losses.
+  ({ gamesPlayedToday, ...stats }) =>
+    stats.lossesToday === undefined && gamesPlayedToday !== undefined
+      ? { ...stats, lossesToday: gamesPlayedToday }
+      : stats,
+  // 1 → 2: per-difficulty stats; every earlier round used the Normal rules.
+  (stats) =>
+    stats.byDifficulty === undefined
+      ? { ...stats, byDifficulty: { normal: pickStreakStats(stats) } }
+      : stats,
+  // 2 → 3: hints and per-target stats; every earlier round guessed the score.
+  (stats) => ({
+    ...stats,
+    totalHints: stats.totalHints ?? 0,
+    byTarget: stats.byTarget ?? { score: pickStreakStats(stats) },
+  }),
+  // 3 → 4: points and per-rule-set stats; every earlier round was Classic
+  // and scored nothing.
+  (stats) => ({
+    ...stats,
+    totalPoints: stats.totalPoints ?? 0,
+    bestRoundPoints: stats.bestRoundPoints ?? 0,
+    byRuleSet: stats.byRuleSet ?? {
+      classic: { ...pickStreakStats(stats), points: 0 },
+    },
+  }),
+];
+
+export const STATS_SCHEMA_VERSION = STATS_MIGRATIONS.length;
+
+export const RECENT_APPS_LIMIT = 25;
+
+const BACKUP_FORMAT = "steamcodle-backup";
+
+export type StoredStats = {
+  version: number;
+  stats: StatsSnapshot;
+};
+
+export type StatsBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  stats: StatsSnapshot;
+  recentAppIds: number[];
+  history: RoundRecord[];
+};
+
+export type RestoredBackup = Pick<
+  StatsBackup,
+  "stats" | "recentAppIds" | "history"
+>;
+
+function isRecord(value: unknown): value is RawStats {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function pickStreakStats(stats: RawStats) {
+  const { correctGames, incorrectGames, currentStreak, bestStreak } = stats;
+  return { correctGames, incorrectGames, currentStreak, bestStreak };
+}
+
+function readCount(value: unknown) {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+    ? value
+    : 0;
+}
+
+function sanitizeStreakStats(raw: unknown): StreakStats {
+  const stats = isRecord(raw) ? raw : {};
+  const currentStreak = readCount(stats.currentStreak);
+  return {
+    correctGames: readCount(stats.correctGames),
+    incorrectGames: readCount(stats.incorrectGames),
+    currentStreak,
+    bestStreak: Math.max(readCount(stats.bestStreak), currentStreak),
+  };
+}
+
+function sanitizeRuleSetStats(raw: unknown): RuleSetStats {
+  return {
+    ...sanitizeStreakStats(raw),
+    points: readCount(isRecord(raw) ? raw.points : undefined),
+  };
+}
+
+/** Keeps every well-formed field of `raw` and defaults the rest. */
+function sanitizeStats(raw: RawStats, today: string): StatsSnapshot {
+  const defaults = getDefaultStats(today);
+  const byDifficulty = isRecord(raw.byDifficulty) ? raw.byDifficulty : {};
+  const byTarget = isRecord(raw.byTarget) ? raw.byTarget : {};
+  const byRuleSet = isRecord(raw.byRuleSet) ? raw.byRuleSet : {};
+
+  return {
+    ...sanitizeStreakStats(raw),
+    totalGuesses: readCount(raw.totalGuesses),
+    totalHints: readCount(raw.totalHints),
+    totalPoints: readCount(raw.totalPoints),
+    bestRoundPoints: readCount(raw.bestRoundPoints),
+    lastPlayedDate:
+      typeof raw.lastPlayedDate === "string" && isDailyDate(raw.lastPlayedDate)
+        ? raw.lastPlayedDate
+        : defaults.lastPlayedDate,
+    lossesToday: readCount(raw.lossesToday),
+    byDifficulty: Object.fromEntries(
+      DIFFICULTIES.map((difficulty) => [
+        difficulty,
+        sanitizeStreakStats(byDifficulty[difficulty]),
+      ]),
+    ) as StatsSnapshot["byDifficulty"],
+    byTarget: Object.fromEntries(
+      GUESS_TARGETS.map((target) => [
+        target,
+        sanitizeStreakStats(byTarget[target]),
+      ]),
+    ) as StatsSnapshot["byTarget"],
+    byRuleSet: Object.fromEntries(
+      RULE_SETS.map((ruleSet) => [
+        ruleSet,
+        sanitizeRuleSetStats(byRuleSet[ruleSet]),
+      ]),
+    ) as StatsSnapshot["byRuleSet"],
+  };
+}
+
+export function parseRecentAppIds(raw: unknown) {
+  if (!Array.isArray(raw)) return null;
+  return raw
+    .filter((id): id is number => Number.isInteger(id) && id > 0)
+    .slice(0, RECENT_APPS_LIMIT);
+}
+
+/** Runs the migrations from `version` up to the current schema. */
+export function migrateStats(raw: RawStats, version = 0) {
+  return STATS_MIGRATIONS.slice(Math.max(0, version)).reduce(
+    (stats, migrate) => migrate(stats),
+    raw,
+  );
+}
+
+export function serializeStats(stats: StatsSnapshot): StoredStats {
+  return { version: STATS_SCHEMA_VERSION, stats };
+}
+
+/**
+ * Reads what `serializeStats` wrote, or the bare snapshot older builds saved
+ * (version 0). Anything unusable comes back as default stats.
+ */
+export function readStoredStats(raw: unknown, today: string): StatsSnapshot {
+  if (!isRecord(raw)) return getDefaultStats(today);
+  const versioned =
+    typeof raw.version === "number" && Number.isInteger(raw.version);
+  const stats = versioned ? raw.stats : raw;
+  if (!isRecord(stats)) return getDefaultStats(today);
+  return sanitizeStats(
+    migrateStats(stats, versioned ? (raw.version as number) : 0),
+    today,
+  );
+}
+
+export function createBackup(
+  stats: StatsSnapshot,
+  recentAppIds: number[],
+  history: RoundRecord[],
+  exportedAt = new Date().toISOString(),
+): StatsBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: STATS_SCHEMA_VERSION,
+    exportedAt,
+    stats,
+    recentAppIds,
+    history,
+  };
+}
+
+/** The data in a backup file, or null if it is not one. */
+export function parseBackup(
+  raw: unknown,
+  today: string,
+  historyLimit: number,
+): RestoredBackup | null {
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) return null;
+  return {
+    stats: readStoredStats(
+      Number.isInteger(raw.version)
+        ? { version: raw.version, stats: raw.stats }
+        : raw.stats,
+      today,
+    ),
+    recentAppIds: parseRecentAppIds(raw.recentAppIds) ?? [],
+    history: parseRoundHistory(raw.history, historyLimit),
+  };
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { getDefaultStats, type StatsSnapshot } from "@/lib/game-engine";
+import { mergeRecentAppIds, mergeStats } from "@/lib/stats-sync";
+
+const TODAY = "2026-03-02";
+
+/** `stats` after `wins` wins and then `losses` losses. */
+function play(stats: StatsSnapshot, wins: number, losses = 0): StatsSnapshot {
+  const currentStreak = losses > 0 ? 0 : stats.currentStreak + wins;
+  return {
+    ...stats,
+    correctGames: stats.correctGames + wins,
+    incorrectGames: stats.incorrectGames + losses,
+    currentStreak,
+    bestStreak: Math.max(stats.bestStreak, stats.currentStreak + wins),
+    totalPoints: stats.totalPoints + wins * 100,
+    lossesToday: stats.lossesToday + losses,
+  };
+}
+
+describe("mergeStats", () => {
+  const base = play(getDefaultStats(TODAY), 3);
+
+  it("adds what each device played since the last sync", () => {
+    const merged = mergeStats(play(base, 2), play(base, 4), base, TODAY);
+    assert.equal(merged.correctGames, 9);
+    assert.equal(merged.currentStreak, 9);
+    assert.equal(merged.bestStreak, 9);
+    assert.equal(merged.totalPoints, 900);
+  });
+
+  it("keeps the shorter current streak after a loss on either side", () => {
+    const server = play(play(base, 0, 1), 2);
+    const merged = mergeStats(server, play(base, 4), base, TODAY);
+    assert.equal(merged.correctGames, 9);
+    assert.equal(merged.incorrectGames, 1);
+    assert.equal(merged.currentStreak, 2);
+    assert.equal(merged.bestStreak, 7);
+    assert.equal(merged.lossesToday, 1);
+  });
+
+  it("takes nothing from a wiped device", () => {
+    const server = play(base, 2);
+    const merged = mergeStats(server, getDefaultStats(TODAY), base, TODAY);
+    assert.deepEqual(merged, server);
+  });
+
+  it("drops losses from an earlier day", () => {
+    const yesterday = play(getDefaultStats("2026-03-01"), 0, 2);
+    const merged = mergeStats(
+      yesterday,
+      play(yesterday, 0, 1),
+      yesterday,
+      TODAY,
+    );
+    assert.equal(merged.incorrectGames, 3);
+    assert.equal(merged.lossesToday, 0);
+    assert.equal(merged.lastPlayedDate, TODAY);
+  });
+});
+
+describe("mergeRecentAppIds", () => {
+  it("puts this device's games first without repeats", () => {
+    assert.deepEqual(
+      mergeRecentAppIds([620, 570], [730, 620]),
+      [620, 570, 730],
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { DIFFICULTIES } from "@/lib/difficulty";
+import {
+  normalizeStats,
+  type StatsSnapshot,
+  type StreakStats,
+} from "@/lib/game-engine";
+import { RULE_SETS } from "@/lib/game-rules";
+import { GUESS_TARGETS } from "@/lib/guess-targets";
+import { RECENT_APPS_LIMIT } from "@/lib/stats-storage";
+
+function gain(next: number, base: number) {
+  return Math.max(0, next - base);
+}
+
+/**
+ * Wins on both sides extend the streak. A loss anywhere breaks it, and since
+ * the order of rounds across devices is unknown the shorter of the two
+ * current streaks is kept.
+ */
+function mergeStreakStats(
+  server: StreakStats,
+  local: StreakStats,
+  base: StreakStats,
+): StreakStats {
+  const localWins = gain(local.correctGames, base.correctGames);
+  const localLosses = gain(local.incorrectGames, base.incorrectGames);
+  const serverLosses = gain(server.incorrectGames, base.incorrectGames);
+
+  const currentStreak =
+    localLosses > 0 || serverLosses > 0
+      ? Math.min(local.currentStreak, server.currentStreak)
+      : server.currentStreak + localWins;
+
+  return {
+    correctGames: server.correctGames + localWins,
+    incorrectGames: server.incorrectGames + localLosses,
+    currentStreak,
+    bestStreak: Math.max(server.bestStreak, local.bestStreak, currentStreak),
+  };
+}
+
+/**
+ * Three-way merge of stats kept on several devices. `base` is what this
+ * device last received from the server, so `local - base` is what was played
+ * here since then and `server - base` is what other devices added. Counters
+ * add both sides' gains; a device that was wiped (local below base) simply
+ * contributes nothing and gets the server copy back.
+ */
+export function mergeStats(
+  serverStats: StatsSnapshot,
+  localStats: StatsSnapshot,
+  baseStats: StatsSnapshot,
+  today: string,
+): StatsSnapshot {
+  // Loss counters from an earlier day no longer count against today's cap.
+  const server = normalizeStats(serverStats, today);
+  const local = normalizeStats(localStats, today);
+  const base = normalizeStats(baseStats, today);
+
+  const byDifficulty = { ...server.byDifficulty };
+  for (const difficulty of DIFFICULTIES) {
+    byDifficulty[difficulty] = mergeStreakStats(
+      server.byDifficulty[difficulty],
+      local.byDifficulty[difficulty],
+      base.byDifficulty[difficulty],
+    );
+  }
+
+  const byTarget = { ...server.byTarget };
+  for (const target of GUESS_TARGETS) {
+    byTarget[target] = mergeStreakStats(
+      server.byTarget[target],
+      local.byTarget[target],
+      base.byTarget[target],
+    );
+  }
+
+  const byRuleSet = { ...server.byRuleSet };
+  for (const ruleSet of RULE_SETS) {
+    const serverSet = server.byRuleSet[ruleSet];
+    const localSet = local.byRuleSet[ruleSet];
+    const baseSet = base.byRuleSet[ruleSet];
+    byRuleSet[ruleSet] = {
+      ...mergeStreakStats(serverSet, localSet, baseSet),
+      points: serverSet.points + gain(localSet.points, baseSet.points),
+    };
+  }
+
+  return {
+    ...mergeStreakStats(server, local, base),
+    totalGuesses:
+      server.totalGuesses + gain(local.totalGuesses, base.totalGuesses),
+    totalHints: server.totalHints + gain(local.totalHints, base.totalHints),
+    totalPoints: server.totalPoints + gain(local.totalPoints, base.totalPoints),
+    bestRoundPoints: Math.max(server.bestRoundPoints, local.bestRoundPoints),
+    lastPlayedDate: today,
+    lossesToday: server.lossesToday + gain(local.lossesToday, base.lossesToday),
+    byDifficulty,
+    byTarget,
+    byRuleSet,
+  };
+}
+
+/** This device's recent games first, then the other devices', deduplicated. */
+export function mergeRecentAppIds(local: number[], server: number[]) {
+  return Array.from(new Set([...local, ...server])).slice(0, RECENT_APPS_LIMIT);
+}
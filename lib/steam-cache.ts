@@ -0,0 +1,227 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { logEvent } from "@/lib/logger";
+import { recordCacheLookup } from "@/lib/metrics";
+
+/**
+ * How long a cached resource is served as-is (`ttlMs`) and for how much
+ * longer it may still be served while a refresh runs in the background
+ * (`staleMs`).
+ */
+export type CachePolicy = {
+  ttlMs: number;
+  staleMs: number;
+};
+
+type CacheEntry<T> = {
+  value: T;
+  fetchedAt: number;
+};
+
+const HOUR_MS = 1000 * 60 * 60;
+
+export const STORE_DETAILS_POLICY: CachePolicy = {
+  ttlMs: HOUR_MS * 24,
+  staleMs: HOUR_MS * 24 * 6,
+};
+export const REVIEW_SUMMARY_POLICY: CachePolicy = {
+  ttlMs: HOUR_MS * 6,
+  staleMs: HOUR_MS * 42,
+};
+const INELIGIBLE_TTL_MS = HOUR_MS * 24 * 7;
+const INELIGIBLE_FLUSH_DELAY_MS = 2000;
+const MEMORY_ENTRY_LIMIT = 5000;
+
+const memoryEntries = new Map<string, CacheEntry<unknown>>();
+const inflight = new Map<string, Promise<unknown>>();
+let ineligibleApps: Map<number, number> | null = null;
+let ineligibleAppsLoad: Promise<Map<number, number>> | null = null;
+let ineligibleFlushTimer: ReturnType<typeof setTimeout> | null = null;
+let warnedWriteFailure = false;
+
+function getCacheDir() {
+  return path.resolve(
+    process.env.STEAMCODLE_CACHE_DIR ??
+      path.join(process.cwd(), ".steamcodle-cache"),
+  );
+}
+
+function entryPath(namespace: string, key: string) {
+  return path.join(getCacheDir(), namespace, `${key}.json`);
+}
+
+async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Writes through a temp file so a crash never leaves half a JSON document. */
+async function writeJsonFile(file: string, value: unknown) {
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(value), "utf8");
+    await rename(temp, file);
+  } catch (error) {
+    // Read-only filesystems (some serverless hosts) still get the memory layer.
+    if (!warnedWriteFailure) {
+      logEvent("warn", "steam-cache.write-failed", { error });
+      warnedWriteFailure = true;
+    }
+  }
+}
+
+function rememberEntry(memoryKey: string, entry: CacheEntry<unknown>) {
+  memoryEntries.delete(memoryKey);
+  memoryEntries.set(memoryKey, entry);
+  if (memoryEntries.size > MEMORY_ENTRY_LIMIT) {
+    const [oldest] = memoryEntries.keys();
+    memoryEntries.delete(oldest);
+  }
+}
+
+async function readEntry<T>(namespace: string, key: string) {
+  const memoryKey = `${namespace}:${key}`;
+  const memory = memoryEntries.get(memoryKey) as CacheEntry<T> | undefined;
+  if (memory) return memory;
+
+  const stored = await readJsonFile<CacheEntry<T>>(entryPath(namespace, key));
+  if (stored) rememberEntry(memoryKey, stored);
+  return stored;
+}
+
+function refreshEntry<T>(
+  namespace: string,
+  key: string,
+  load: () => Promise<T>,
+): Promise<T> {
+  const memoryKey = `${namespace}:${key}`;
+  const pending = inflight.get(memoryKey) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const request = load()
+    .then(async (value) => {
+      const entry: CacheEntry<T> = { value, fetchedAt: Date.now() };
+      rememberEntry(memoryKey, entry);
+      await writeJsonFile(entryPath(namespace, key), entry);
+      return value;
+    })
+    .finally(() => {
+      inflight.delete(memoryKey);
+    });
+
+  inflight.set(memoryKey, request);
+  return request;
+}
+
+/**
+ * Returns the cached value for `namespace/key`, loading it when missing or
+ * too old. Entries past their TTL but inside the stale window are returned
+ * immediately while a single background refresh replaces them, unless
+ * `revalidate` is off. Failed loads are never cached.
+ */
+export async function cachedResource<T>(
+  namespace: string,
+  key: string | number,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  { revalidate = true }: { revalidate?: boolean } = {},
+): Promise<T> {
+  const id = String(key);
+  const entry = await readEntry<T>(namespace, id);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+  if (entry && age <= policy.ttlMs) {
+    recordCacheLookup(namespace, "fresh");
+    return entry.value;
+  }
+
+  if (entry && age <= policy.ttlMs + policy.staleMs) {
+    recordCacheLookup(namespace, "stale");
+    if (revalidate) {
+      refreshEntry(namespace, id, load).catch((error) => {
+        logEvent("warn", "steam-cache.refresh-failed", {
+          namespace,
+          key: id,
+          error,
+        });
+      });
+    }
+    return entry.value;
+  }
+
+  recordCacheLookup(namespace, "miss");
+  return refreshEntry(namespace, id, load);
+}
+
+/**
+ * The cached value for `namespace/key` however old it is, or undefined when
+ * nothing was ever stored. For when Steam cannot be asked at all.
+ */
+export async function peekCachedResource<T>(
+  namespace: string,
+  key: string | number,
+): Promise<T | undefined> {
+  const entry = await readEntry<T>(namespace, String(key));
+  return entry ? entry.value : undefined;
+}
+
+function loadIneligibleApps() {
+  if (!ineligibleAppsLoad) {
+    ineligibleAppsLoad = readJsonFile<Record<string, number>>(
+      path.join(getCacheDir(), "ineligible.json"),
+    ).then((stored) => {
+      const now = Date.now();
+      ineligibleApps = new Map(
+        Object.entries(stored ?? {})
+          .map(([appId, expiresAt]) => [Number(appId), expiresAt] as const)
+          .filter(
+            ([appId, expiresAt]) => Number.isFinite(appId) && expiresAt > now,
+          ),
+      );
+      return ineligibleApps;
+    });
+  }
+  return ineligibleAppsLoad;
+}
+
+function scheduleIneligibleFlush() {
+  if (ineligibleFlushTimer) return;
+  ineligibleFlushTimer = setTimeout(() => {
+    ineligibleFlushTimer = null;
+    if (!ineligibleApps) return;
+    writeJsonFile(
+      path.join(getCacheDir(), "ineligible.json"),
+      Object.fromEntries(ineligibleApps),
+    );
+  }, INELIGIBLE_FLUSH_DELAY_MS);
+}
+
+/** Remembers that an app failed the eligibility rules so it is not re-probed. */
+export async function markAppIneligible(appId: number) {
+  const apps = await loadIneligibleApps();
+  apps.set(appId, Date.now() + INELIGIBLE_TTL_MS);
+  scheduleIneligibleFlush();
+}
+
+export async function isAppKnownIneligible(appId: number) {
+  const apps = await loadIneligibleApps();
+  const expiresAt = apps.get(appId);
+  if (expiresAt === undefined) return false;
+  if (expiresAt > Date.now()) return true;
+  apps.delete(appId);
+  return false;
+}
+
+/** Every app ID currently on the negative list, for filtering pools up front. */
+export async function getKnownIneligibleAppIds() {
+  const apps = await loadIneligibleApps();
+  const now = Date.now();
+  return Array.from(apps)
+    .filter(([, expiresAt]) => expiresAt > now)
+    .map(([appId]) => appId);
+}
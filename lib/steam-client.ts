@@ -0,0 +1,146 @@
+import steamFixtures from "@/data/steam-fixtures.json";
+
+/**
+ * Anything that can answer a Steam URL. The default is the global `fetch`;
+ * the fixture transport answers from recorded payloads without a network.
+ */
+export type SteamTransport = (
+  url: string,
+  init?: RequestInit,
+) => Promise<Response>;
+
+export type SteamClientOptions = {
+  storeBaseUrl?: string;
+  apiBaseUrl?: string;
+  transport?: SteamTransport;
+};
+
+/** `language` is Steam's name for it, such as "english" or "german". */
+export interface SteamClient {
+  appDetails(appId: number, language?: string): Promise<Response>;
+  appReviews(appId: number, language?: string): Promise<Response>;
+  featuredCategories(): Promise<Response>;
+  appList(): Promise<Response>;
+}
+
+type SteamFixtures = {
+  appdetails: Record<string, unknown>;
+  appreviews: Record<string, unknown>;
+  featuredcategories: unknown;
+  appList: unknown;
+};
+
+const DEFAULT_STORE_BASE_URL = "https://store.steampowered.com";
+const DEFAULT_API_BASE_URL = "https://api.steampowered.com";
+const USER_AGENT = "Steamcodle/1.0 (+https://steamcodle.local)";
+
+let activeClient: SteamClient | null = null;
+
+export function createSteamClient({
+  storeBaseUrl = DEFAULT_STORE_BASE_URL,
+  apiBaseUrl = DEFAULT_API_BASE_URL,
+  transport = fetch,
+}: SteamClientOptions = {}): SteamClient {
+  const store = storeBaseUrl.replace(/\/+$/, "");
+  const api = apiBaseUrl.replace(/\/+$/, "");
+  const storeInit: RequestInit = {
+    cache: "no-store",
+    headers: { "User-Agent": USER_AGENT },
+  };
+
+  return {
+    appDetails: (appId, language = "english") =>
+      transport(
+        `${store}/api/appdetails?appids=${appId}&l=${language}&cc=us`,
+        storeInit,
+      ),
+    appReviews: (appId, language = "english") =>
+      transport(
+        `${store}/appreviews/${appId}?json=1&language=${language}&purchase_type=all&num_per_page=0`,
+        storeInit,
+      ),
+    featuredCategories: () =>
+      transport(`${store}/api/featuredcategories`, storeInit),
+    appList: () =>
+      transport(`${api}/ISteamApps/GetAppList/v0002/?format=json`, {
+        cache: "no-store",
+      }),
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Serves the recorded payloads in `data/steam-fixtures.json` by matching the
+ * same paths the real Steam endpoints use. Unknown apps get the "success:
+ * false" answers Steam itself gives, so eligibility checks behave normally.
+ */
+export function createFixtureTransport(
+  fixtures: SteamFixtures = steamFixtures,
+): SteamTransport {
+  return async (url) => {
+    const { pathname, searchParams } = new URL(url);
+
+    if (pathname === "/api/appdetails") {
+      const appId = searchParams.get("appids") ?? "";
+      return jsonResponse({
+        [appId]: fixtures.appdetails[appId] ?? { success: false },
+      });
+    }
+
+    const reviewsMatch = pathname.match(/^\/appreviews\/(\d+)$/);
+    if (reviewsMatch) {
+      return jsonResponse(
+        fixtures.appreviews[reviewsMatch[1]] ?? {
+          success: 1,
+          query_summary: {
+            total_reviews: 0,
+            total_positive: 0,
+            total_negative: 0,
+            review_score: 0,
+            review_score_desc: "No user reviews",
+          },
+        },
+      );
+    }
+
+    if (pathname === "/api/featuredcategories") {
+      return jsonResponse(fixtures.featuredcategories);
+    }
+
+    if (pathname === "/ISteamApps/GetAppList/v0002/") {
+      return jsonResponse(fixtures.appList);
+    }
+
+    return jsonResponse({ error: `No fixture for ${pathname}` }, 404);
+  };
+}
+
+/**
+ * The client `lib/steam.ts` talks to. `STEAM_CLIENT=fixtures` switches to the
+ * recorded payloads; `STEAM_STORE_BASE_URL` and `STEAM_API_BASE_URL` point the
+ * HTTP client at another host, such as `npm run steam:fixtures`.
+ */
+export function getSteamClient() {
+  if (activeClient) return activeClient;
+
+  activeClient = createSteamClient({
+    storeBaseUrl: process.env.STEAM_STORE_BASE_URL,
+    apiBaseUrl: process.env.STEAM_API_BASE_URL,
+    transport:
+      process.env.STEAM_CLIENT === "fixtures"
+        ? createFixtureTransport()
+        : undefined,
+  });
+  return activeClient;
+}
+
+/** Swaps the shared client, e.g. for scripts that bring their own transport. */
+export function setSteamClient(client: SteamClient | null) {
+  activeClient = client;
+}
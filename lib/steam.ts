@@ -1,4 +1,53 @@
 import fallbackAppIds from "@/data/fallback-app-ids.json";
+import { getCatalogGames } from "@/lib/catalog";
+import {
+  getCuratedAppIds,
+  recordPickReason,
+  recordServed,
+  type ServeSource,
+} from "@/lib/curation";
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_TIERS,
+  matchesDifficulty,
+  type Difficulty,
+} from "@/lib/difficulty";
+import { MIN_TOTAL_REVIEWS } from "@/lib/game-rules";
+import { matchesGenres } from "@/lib/genres";
+import {
+  DEFAULT_GUESS_TARGET,
+  GUESS_TARGET_RULES,
+  type GuessTarget,
+} from "@/lib/guess-targets";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_SETTINGS,
+  translate,
+  type Locale,
+} from "@/lib/i18n";
+import { logEvent } from "@/lib/logger";
+import {
+  getFallbackCatalogState,
+  recordCacheLookup,
+  recordFallbackCatalog,
+  recordRandomPick,
+  recordRejection,
+  recordUpstreamRequest,
+  type FallbackSource,
+  type RejectionReason,
+  type SteamEndpoint,
+} from "@/lib/metrics";
+import {
+  REVIEW_SUMMARY_POLICY,
+  STORE_DETAILS_POLICY,
+  cachedResource,
+  getKnownIneligibleAppIds,
+  isAppKnownIneligible,
+  markAppIneligible,
+  peekCachedResource,
+  type CachePolicy,
+} from "@/lib/steam-cache";
+import { getSteamClient } from "@/lib/steam-client";
 
 type SteamStoreGenres = {
   id: string;
@@ -13,9 +62,17 @@ type SteamStorePayload = {
     header_image: string;
     short_description: string;
     genres?: SteamStoreGenres[];
-    price_overview?: { final_formatted: string };
+    is_free?: boolean;
+    price_overview?: {
+      currency: string;
+      final: number;
+      final_formatted: string;
+    };
     metacritic?: { score: number; url: string };
     release_date?: { date: string };
+    /** A number, or a numeric string for some apps. */
+    required_age?: number | string;
+    content_descriptors?: { ids?: number[]; notes?: string | null };
   };
 };
 
@@ -52,6 +109,49 @@ type FeaturedItem = {
   type?: string;
 };
 
+export type RandomGameOptions = {
+  difficulty?: Difficulty;
+  /** Only serve games with at least one of these store genres. */
+  genres?: string[];
+  /** Only serve games that have a value for this guess target. */
+  target?: GuessTarget;
+  /** Language for store text and for the reviews that are scored. */
+  locale?: Locale;
+  /** Also serve games `isMatureGame` flags; off unless the player opts in. */
+  mature?: boolean;
+};
+
+/**
+ * Raised when the pools ran dry without finding a game that fits the
+ * requested filters, as opposed to Steam itself failing.
+ */
+export class NoEligibleGameError extends Error {
+  constructor(message = "No eligible Steam games available at the moment.") {
+    super(message);
+    this.name = "NoEligibleGameError";
+  }
+}
+
+/**
+ * Raised instead of calling Steam while it is throttling us, or when a
+ * request could not get a slot in time. `retryAfterSeconds` is how long until
+ * Steam is worth asking again.
+ */
+export class SteamThrottledError extends Error {
+  readonly status: number;
+  readonly retryAfterSeconds: number;
+
+  constructor(
+    retryAfterSeconds: number,
+    message = "Steam is rate limiting requests right now. Try again shortly.",
+  ) {
+    super(message);
+    this.name = "SteamThrottledError";
+    this.status = 503;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
 export type SteamGame = {
   appId: number;
   type: string;
@@ -59,25 +159,337 @@ export type SteamGame = {
   headerImage: string;
   shortDescription: string;
   reviewScore: number | null;
+  /**
+   * Whose reviews were scored: the requested locale, or English when the
+   * game has too few reviews in that language.
+   */
+  reviewLocale: Locale;
   reviewSummary: string | null;
   positive: number | null;
   negative: number | null;
   totalReviews: number | null;
   genres: string[];
+  /** Store release date as Steam writes it, e.g. "18 Apr, 2011". */
+  releaseDate: string | null;
+  releaseYear: number | null;
+  /** Current US store price in cents; 0 for free-to-play games. */
+  priceCents: number | null;
+  metacriticScore: number | null;
+  /** The store's age gate; 0 when there is none. */
+  requiredAge: number;
+  /**
+   * Steam's content descriptor IDs: 1 some nudity or sexual content, 2
+   * frequent violence or gore, 3 adult only sexual content, 4 frequent nudity
+   * or sexual content, 5 general mature content.
+   */
+  contentDescriptors: number[];
+  /** The developer's own description of the mature content, if any. */
+  contentNotes: string | null;
 };
 
 const FEATURED_CACHE_TTL_MS = 1000 * 60 * 60; // 1 hour
 const APP_LIST_CACHE_TTL_MS = 1000 * 60 * 60 * 12; // 12 hours
-const MIN_TOTAL_REVIEWS = 100;
+const FALLBACK_RETRY_MS = 1000 * 60 * 15;
+const ADULT_AGE = 18;
+const ADULT_CONTENT_DESCRIPTORS = new Set([3, 4]);
 const MAX_TOTAL_ATTEMPTS = 50;
 const RECENT_HISTORY_LIMIT = 25;
+const MAX_DAILY_ATTEMPTS = 50;
+const DAILY_CACHE_LIMIT = 7;
+const MAX_THROTTLED_ATTEMPTS = 200;
+
+// Steam allows roughly 200 store API calls per five minutes per IP address.
+const STEAM_BUDGET_WINDOW_MS = 1000 * 60 * 5;
+const STEAM_REQUEST_BUDGET = readPositiveInteger(
+  process.env.STEAM_REQUEST_BUDGET,
+  150,
+);
+const STEAM_MAX_CONCURRENCY = readPositiveInteger(
+  process.env.STEAM_MAX_CONCURRENCY,
+  4,
+);
+const STEAM_MAX_RETRIES = 3;
+const STEAM_BASE_BACKOFF_MS = 1000;
+/** Longer waits are not slept through; the request fails as throttled. */
+const STEAM_MAX_BACKOFF_MS = 1000 * 15;
+/** How long a request may queue for a slot before it counts as throttled. */
+const STEAM_MAX_QUEUE_MS = 1000 * 10;
+const BREAKER_FAILURE_THRESHOLD = 3;
+const BREAKER_COOLDOWN_MS = 1000 * 60;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
 
 let cachedFeaturedIds: number[] | null = null;
 let cachedFeaturedExpiry = 0;
 let cachedAllAppIds: number[] | null = null;
 let cachedAllAppIdsExpiry = 0;
 const recentHistory: number[] = [];
-let warnedFeaturedFallback = false;
+const dailyGames = new Map<string, SteamGame>();
+
+type QueuedRequest = {
+  deadline: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+const queuedRequests: QueuedRequest[] = [];
+/** Start times of the requests inside the current budget window. */
+const requestStarts: number[] = [];
+let activeRequests = 0;
+let queueTimer: ReturnType<typeof setTimeout> | null = null;
+/** Set from Retry-After; nothing is sent to Steam before this time. */
+let pausedUntil = 0;
+let consecutiveFailures = 0;
+/** 0 while the breaker is closed. */
+let breakerOpenUntil = 0;
+let breakerProbing = false;
+
+function readPositiveInteger(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function secondsUntil(time: number) {
+  return Math.max(1, Math.ceil((time - Date.now()) / 1000));
+}
+
+/** Retry-After is either a number of seconds or an HTTP date. */
+function parseRetryAfter(header: string | null) {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function getBackoffMs(attempt: number) {
+  const backoff = STEAM_BASE_BACKOFF_MS * 2 ** attempt;
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/** True while the circuit breaker keeps requests away from Steam. */
+export function isSteamThrottled() {
+  return breakerOpenUntil > 0;
+}
+
+/** True until the cooldown ends and the breaker lets its probe through. */
+function isBreakerCoolingDown() {
+  return breakerOpenUntil > Date.now();
+}
+
+/** The scheduler and circuit breaker as the health and metrics routes show them. */
+export function getSteamSchedulerState() {
+  const now = Date.now();
+  const open = isBreakerCoolingDown();
+  return {
+    breaker: !isSteamThrottled() ? "closed" : open ? "open" : "half-open",
+    retryAfterSeconds: open ? secondsUntil(breakerOpenUntil) : null,
+    consecutiveFailures,
+    activeRequests,
+    queuedRequests: queuedRequests.length,
+    budget: {
+      used: requestStarts.filter(
+        (startedAt) => startedAt > now - STEAM_BUDGET_WINDOW_MS,
+      ).length,
+      limit: STEAM_REQUEST_BUDGET,
+      windowSeconds: STEAM_BUDGET_WINDOW_MS / 1000,
+    },
+    pausedUntil: pausedUntil > now ? new Date(pausedUntil).toISOString() : null,
+  };
+}
+
+function recordSteamSuccess() {
+  if (isSteamThrottled()) logEvent("info", "steam.breaker-closed");
+  consecutiveFailures = 0;
+  breakerOpenUntil = 0;
+  breakerProbing = false;
+}
+
+function recordSteamFailure(retryAfterMs: number | null) {
+  consecutiveFailures += 1;
+  // A failed probe reopens the breaker straight away.
+  if (breakerProbing || consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) {
+    const cooldown = Math.max(BREAKER_COOLDOWN_MS, retryAfterMs ?? 0);
+    logEvent("warn", "steam.breaker-opened", {
+      consecutiveFailures,
+      cooldownSeconds: Math.round(cooldown / 1000),
+    });
+    breakerOpenUntil = Date.now() + cooldown;
+    breakerProbing = false;
+    rejectQueuedRequests();
+  }
+}
+
+/**
+ * While the breaker is open every request fails fast. Once the cooldown is
+ * over a single probe goes through; its outcome closes or reopens it. Returns
+ * whether the caller is that probe.
+ */
+function checkBreaker() {
+  if (!isSteamThrottled()) return false;
+  if (Date.now() < breakerOpenUntil || breakerProbing) {
+    throw new SteamThrottledError(secondsUntil(breakerOpenUntil));
+  }
+  breakerProbing = true;
+  return true;
+}
+
+function rejectQueuedRequests() {
+  const error = new SteamThrottledError(secondsUntil(breakerOpenUntil));
+  for (const request of queuedRequests.splice(0)) request.reject(error);
+}
+
+/** Hands free slots to queued requests in order and times out stale ones. */
+function drainQueue() {
+  const now = Date.now();
+  while (
+    requestStarts.length > 0 &&
+    requestStarts[0] <= now - STEAM_BUDGET_WINDOW_MS
+  ) {
+    requestStarts.shift();
+  }
+
+  while (
+    queuedRequests.length > 0 &&
+    activeRequests < STEAM_MAX_CONCURRENCY &&
+    requestStarts.length < STEAM_REQUEST_BUDGET &&
+    pausedUntil <= now
+  ) {
+    activeRequests += 1;
+    requestStarts.push(now);
+    queuedRequests.shift()?.resolve();
+  }
+
+  const nextBudgetSlot =
+    requestStarts.length >= STEAM_REQUEST_BUDGET
+      ? requestStarts[0] + STEAM_BUDGET_WINDOW_MS
+      : 0;
+  const blockedUntil = Math.max(pausedUntil, nextBudgetSlot);
+  for (const request of [...queuedRequests]) {
+    if (request.deadline > now && request.deadline >= blockedUntil) continue;
+    queuedRequests.splice(queuedRequests.indexOf(request), 1);
+    request.reject(new SteamThrottledError(secondsUntil(blockedUntil)));
+  }
+
+  if (queuedRequests.length === 0 || queueTimer) return;
+  // Finished requests drain the queue themselves; the timer only covers the
+  // budget window and Retry-After pauses running out.
+  const wakeAt = Math.min(
+    ...queuedRequests.map((request) => request.deadline),
+    blockedUntil > now ? blockedUntil : Infinity,
+  );
+  queueTimer = setTimeout(
+    () => {
+      queueTimer = null;
+      drainQueue();
+    },
+    Math.max(0, wakeAt - now),
+  );
+}
+
+function acquireSteamSlot() {
+  const probe = checkBreaker();
+  return new Promise<void>((resolve, reject) => {
+    queuedRequests.push({
+      deadline: Date.now() + STEAM_MAX_QUEUE_MS,
+      resolve,
+      reject: (error) => {
+        // A probe that never got sent lets the next request probe instead.
+        if (probe) breakerProbing = false;
+        reject(error);
+      },
+    });
+    drainQueue();
+  });
+}
+
+function releaseSteamSlot() {
+  activeRequests -= 1;
+  drainQueue();
+}
+
+/**
+ * Sends one Steam request through the shared scheduler: at most
+ * STEAM_MAX_CONCURRENCY at a time and STEAM_REQUEST_BUDGET per window across
+ * every caller in this process. 429s, 5xx answers and network errors are
+ * retried with exponential backoff, never sooner than Retry-After asks, and a
+ * 429 pauses the whole queue. A request still throttled after its retries
+ * throws SteamThrottledError; other failures surface as before.
+ */
+async function requestSteam(
+  endpoint: SteamEndpoint,
+  send: () => Promise<Response>,
+) {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      await acquireSteamSlot();
+    } catch (error) {
+      recordUpstreamRequest(endpoint, "throttled", null);
+      throw error;
+    }
+    const startedAt = Date.now();
+    let response: Response | null = null;
+    let failure: unknown = null;
+    try {
+      response = await send();
+    } catch (error) {
+      failure = error;
+    } finally {
+      releaseSteamSlot();
+    }
+    recordUpstreamRequest(
+      endpoint,
+      response?.status ?? "network-error",
+      Date.now() - startedAt,
+    );
+    logEvent("debug", "steam.request", {
+      endpoint,
+      attempt,
+      status: response?.status ?? null,
+      ms: Date.now() - startedAt,
+      error: failure,
+    });
+
+    if (response && !RETRYABLE_STATUSES.has(response.status)) {
+      recordSteamSuccess();
+      return response;
+    }
+
+    const throttled = response?.status === 429;
+    const retryAfterMs = parseRetryAfter(
+      response?.headers.get("retry-after") ?? null,
+    );
+    const delay = Math.max(retryAfterMs ?? 0, getBackoffMs(attempt));
+    if (throttled) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+    }
+    recordSteamFailure(retryAfterMs);
+
+    const giveUp =
+      attempt >= STEAM_MAX_RETRIES ||
+      delay > STEAM_MAX_BACKOFF_MS ||
+      isSteamThrottled();
+    if (giveUp) {
+      if (throttled || isSteamThrottled()) {
+        throw new SteamThrottledError(
+          secondsUntil(Math.max(breakerOpenUntil, Date.now() + delay)),
+        );
+      }
+      if (response) return response;
+      throw failure;
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+function parseReleaseYear(date: string | undefined) {
+  const match = date?.match(/\b(\d{4})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+function parseRequiredAge(age: number | string | undefined) {
+  const value = Number(age ?? 0);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
 
 function normalizeReviewScore(
   positive: number | null | undefined,
@@ -98,15 +510,58 @@ function normalizeReviewScore(
   return null;
 }
 
-async function fetchStoreDetails(appId: number) {
-  const response = await fetch(
-    `https://store.steampowered.com/api/appdetails?appids=${appId}&l=en`,
-    {
-      cache: "no-store",
-      headers: {
-        "User-Agent": "Steamcodle/1.0 (+https://steamcodle.local)",
-      },
-    },
+/** English entries keep the bare app ID as their key, as before locales. */
+function localizedCacheKey(appId: number, locale: Locale) {
+  return locale === DEFAULT_LOCALE ? String(appId) : `${appId}.${locale}`;
+}
+
+/**
+ * Like `cachedResource`, but while Steam is throttling us any cached copy is
+ * served, however old, before giving up. `cacheOnly` skips Steam entirely.
+ */
+async function cachedOrStaleResource<T>(
+  namespace: string,
+  key: string,
+  policy: CachePolicy,
+  load: () => Promise<T>,
+  cacheOnly: boolean,
+) {
+  let failure: unknown = null;
+  if (!cacheOnly) {
+    try {
+      return await cachedResource(namespace, key, policy, load, {
+        revalidate: !isSteamThrottled(),
+      });
+    } catch (error) {
+      if (!(error instanceof SteamThrottledError)) throw error;
+      failure = error;
+    }
+  }
+  const stale = await peekCachedResource<T>(namespace, key);
+  if (stale !== undefined) {
+    recordCacheLookup(namespace, "fallback");
+    return stale;
+  }
+  throw failure ?? new SteamThrottledError(secondsUntil(breakerOpenUntil));
+}
+
+function fetchStoreDetails(
+  appId: number,
+  locale: Locale = DEFAULT_LOCALE,
+  cacheOnly = false,
+) {
+  return cachedOrStaleResource(
+    "appdetails",
+    localizedCacheKey(appId, locale),
+    STORE_DETAILS_POLICY,
+    () => loadStoreDetails(appId, locale),
+    cacheOnly,
+  );
+}
+
+async function loadStoreDetails(appId: number, locale: Locale) {
+  const response = await requestSteam("appdetails", () =>
+    getSteamClient().appDetails(appId, LOCALE_SETTINGS[locale].steamLanguage),
   );
 
   if (!response.ok) {
@@ -123,15 +578,23 @@ async function fetchStoreDetails(appId: number) {
   return payload.data;
 }
 
-async function fetchReviewSummary(appId: number) {
-  const response = await fetch(
-    `https://store.steampowered.com/appreviews/${appId}?json=1&language=english&purchase_type=all&num_per_page=0`,
-    {
-      cache: "no-store",
-      headers: {
-        "User-Agent": "Steamcodle/1.0 (+https://steamcodle.local)",
-      },
-    },
+function fetchReviewSummary(
+  appId: number,
+  locale: Locale = DEFAULT_LOCALE,
+  cacheOnly = false,
+) {
+  return cachedOrStaleResource(
+    "appreviews",
+    localizedCacheKey(appId, locale),
+    REVIEW_SUMMARY_POLICY,
+    () => loadReviewSummary(appId, locale),
+    cacheOnly,
+  );
+}
+
+async function loadReviewSummary(appId: number, locale: Locale) {
+  const response = await requestSteam("appreviews", () =>
+    getSteamClient().appReviews(appId, LOCALE_SETTINGS[locale].steamLanguage),
   );
 
   if (!response.ok) {
@@ -142,28 +605,74 @@ async function fetchReviewSummary(appId: number) {
   return json.success === 1 ? json.query_summary : null;
 }
 
-export async function fetchSteamGame(appId: number): Promise<SteamGame> {
-  const [store, reviews] = await Promise.all([
-    fetchStoreDetails(appId),
-    fetchReviewSummary(appId),
+/**
+ * Loads a game with its store text in `locale` and its score from reviews
+ * written in that language. Everything the rules and filters look at (type,
+ * genres, price, dates) comes from the English store page so it matches
+ * across locales. A game with fewer than MIN_TOTAL_REVIEWS reviews in the
+ * language is scored on its English reviews instead.
+ */
+export function fetchSteamGame(appId: number, locale: Locale = DEFAULT_LOCALE) {
+  return loadSteamGame(appId, locale, false);
+}
+
+/**
+ * Builds the game from cached Steam data only, however old; throws
+ * SteamThrottledError when something is missing rather than asking Steam.
+ */
+function readCachedSteamGame(appId: number, locale: Locale) {
+  return loadSteamGame(appId, locale, true);
+}
+
+async function loadSteamGame(
+  appId: number,
+  locale: Locale,
+  cacheOnly: boolean,
+): Promise<SteamGame> {
+  const localized = locale !== DEFAULT_LOCALE;
+  const [store, localizedStore, localizedReviews] = await Promise.all([
+    fetchStoreDetails(appId, DEFAULT_LOCALE, cacheOnly),
+    localized
+      ? fetchStoreDetails(appId, locale, cacheOnly).catch(() => null)
+      : null,
+    fetchReviewSummary(appId, locale, cacheOnly),
   ]);
 
+  let reviews = localizedReviews;
+  let reviewLocale = locale;
+  if (localized && (reviews?.total_reviews ?? 0) < MIN_TOTAL_REVIEWS) {
+    reviews = await fetchReviewSummary(appId, DEFAULT_LOCALE, cacheOnly);
+    reviewLocale = DEFAULT_LOCALE;
+  }
+
   return {
     appId,
     type: store.type ?? "unknown",
-    name: store.name,
-    headerImage: store.header_image,
-    shortDescription: store.short_description,
+    name: localizedStore?.name ?? store.name,
+    headerImage: localizedStore?.header_image ?? store.header_image,
+    shortDescription:
+      localizedStore?.short_description ?? store.short_description,
     reviewScore: normalizeReviewScore(
       reviews?.total_positive ?? null,
       reviews?.total_reviews ?? null,
       store.metacritic?.score,
     ),
+    reviewLocale,
     reviewSummary: reviews?.review_score_desc ?? null,
     positive: reviews?.total_positive ?? null,
     negative: reviews?.total_negative ?? null,
     totalReviews: reviews?.total_reviews ?? null,
     genres: store.genres?.map((genre) => genre.description) ?? [],
+    releaseDate: store.release_date?.date ?? null,
+    releaseYear: parseReleaseYear(store.release_date?.date),
+    priceCents: store.is_free ? 0 : (store.price_overview?.final ?? null),
+    metacriticScore: store.metacritic?.score ?? null,
+    requiredAge: parseRequiredAge(store.required_age),
+    contentDescriptors: store.content_descriptors?.ids ?? [],
+    contentNotes:
+      localizedStore?.content_descriptors?.notes ??
+      store.content_descriptors?.notes ??
+      null,
   };
 }
 
@@ -175,34 +684,18 @@ async function fetchFeaturedAppIds() {
   }
 
   try {
-    const response = await fetch(
-      "https://store.steampowered.com/api/featuredcategories",
-      {
-        cache: "no-store",
-        headers: {
-          "User-Agent": "Steamcodle/1.0 (+https://steamcodle.local)",
-        },
-      },
+    const response = await requestSteam("featuredcategories", () =>
+      getSteamClient().featuredCategories(),
     );
 
     if (!response.ok) {
-      if (!warnedFeaturedFallback) {
-        console.warn(
-          `Steam featured categories returned ${response.status}, using fallback catalog.`,
-        );
-        warnedFeaturedFallback = true;
-      }
-      return loadFallbackCatalog();
+      return switchToFallbackCatalog("featured", `status ${response.status}`);
     }
 
     const json = (await response.json()) as FeaturedCategoriesResponse;
 
     if (json.status !== 1) {
-      if (!warnedFeaturedFallback) {
-        console.warn("Steam featured categories returned error, using fallback.");
-        warnedFeaturedFallback = true;
-      }
-      return loadFallbackCatalog();
+      return switchToFallbackCatalog("featured", `api status ${json.status}`);
     }
 
     const candidateCategories: (FeaturedCategory | undefined)[] = [
@@ -225,26 +718,25 @@ async function fetchFeaturedAppIds() {
     );
 
     if (ids.length === 0) {
-      if (!warnedFeaturedFallback) {
-        console.warn("Steam featured categories empty, using fallback.");
-        warnedFeaturedFallback = true;
-      }
-      return loadFallbackCatalog();
+      return switchToFallbackCatalog("featured", "empty");
     }
 
+    leaveFallbackCatalog("featured");
     cachedFeaturedIds = ids;
     cachedFeaturedExpiry = now + FEATURED_CACHE_TTL_MS;
     return ids;
   } catch (error) {
-    if (!warnedFeaturedFallback) {
-      console.warn("Steam featured categories fetch failed, using fallback.", error);
-      warnedFeaturedFallback = true;
+    // Throttling passes; keep the last list and do not cache the fallback.
+    if (error instanceof SteamThrottledError) {
+      if (cachedFeaturedIds) return cachedFeaturedIds;
+      recordFallbackCatalog("featured", "throttled");
+      return fallbackAppIds;
     }
-    return loadFallbackCatalog();
+    return switchToFallbackCatalog("featured", "fetch failed", error);
   }
 }
 
-async function fetchAllAppIds() {
+export async function fetchAllAppIds() {
   const now = Date.now();
 
   if (cachedAllAppIds && cachedAllAppIdsExpiry > now) {
@@ -252,18 +744,12 @@ async function fetchAllAppIds() {
   }
 
   try {
-    const response = await fetch(
-      "https://api.steampowered.com/ISteamApps/GetAppList/v0002/?format=json",
-      {
-        cache: "no-store",
-      },
+    const response = await requestSteam("applist", () =>
+      getSteamClient().appList(),
     );
 
     if (!response.ok) {
-      console.warn(
-        `Steam app list request returned ${response.status}, falling back to bundled catalog.`,
-      );
-      return loadFallbackCatalog();
+      return switchToFallbackCatalog("appList", `status ${response.status}`);
     }
 
     const json = (await response.json()) as {
@@ -274,51 +760,227 @@ async function fetchAllAppIds() {
       json.applist?.apps?.map((app) => app.appid).filter(Boolean) ?? [];
 
     if (ids.length === 0) {
-      console.warn("Steam app list returned no entries, using fallback.");
-      return loadFallbackCatalog();
+      return switchToFallbackCatalog("appList", "empty");
     }
 
+    leaveFallbackCatalog("appList");
     cachedAllAppIds = ids;
     cachedAllAppIdsExpiry = now + APP_LIST_CACHE_TTL_MS;
     return ids;
   } catch (error) {
-    console.error("Steam app list fetch failed:", error);
-    return loadFallbackCatalog();
+    if (error instanceof SteamThrottledError) {
+      if (cachedAllAppIds) return cachedAllAppIds;
+      recordFallbackCatalog("appList", "throttled");
+      return fallbackAppIds;
+    }
+    return switchToFallbackCatalog("appList", "fetch failed", error);
   }
 }
 
-export async function fetchRandomSteamGame(excludeIds: number[] = []) {
-  const [featuredIds, allIds] = await Promise.all([
-    fetchFeaturedAppIds(),
-    fetchAllAppIds(),
-  ]);
+/** Picks a random game for the filters and marks it as dealt. */
+export async function fetchRandomSteamGame(
+  excludeIds: number[] = [],
+  options: RandomGameOptions = {},
+) {
+  const game = await findRandomSteamGame(excludeIds, options);
+  markGameServed(game.appId);
+  return game;
+}
+
+/**
+ * Remembers a dealt game so random picks leave it alone for the next
+ * RECENT_HISTORY_LIMIT rounds, whoever they are for.
+ */
+export function markGameServed(appId: number) {
+  const index = recentHistory.indexOf(appId);
+  if (index !== -1) recentHistory.splice(index, 1);
+  recentHistory.push(appId);
+  if (recentHistory.length > RECENT_HISTORY_LIMIT) {
+    recentHistory.shift();
+  }
+  recordServed(appId);
+}
+
+export function wasServedRecently(appId: number) {
+  return recentHistory.includes(appId);
+}
+
+/**
+ * Finds a random game that fits the filters, skipping `excludeIds` and the
+ * recently dealt games, without marking it as dealt itself.
+ */
+export async function findRandomSteamGame(
+  excludeIds: number[] = [],
+  options: RandomGameOptions = {},
+) {
+  const progress: PickProgress = { attempts: 0, source: null };
+  try {
+    const game = await pickRandomSteamGame(excludeIds, options, progress);
+    recordRandomPick("found", progress.attempts);
+    logEvent("debug", "steam.random-pick", {
+      appId: game.appId,
+      attempts: progress.attempts,
+      source: progress.source,
+    });
+    recordPickReason({
+      appId: game.appId,
+      name: game.name,
+      source: progress.source ?? "cache",
+      attempts: progress.attempts,
+      difficulty: options.difficulty ?? DEFAULT_DIFFICULTY,
+      target: options.target ?? DEFAULT_GUESS_TARGET,
+      genres: options.genres ?? [],
+      locale: options.locale ?? DEFAULT_LOCALE,
+      mature: options.mature ?? false,
+      pickedAt: new Date().toISOString(),
+    });
+    return game;
+  } catch (error) {
+    const outcome =
+      error instanceof SteamThrottledError
+        ? "throttled"
+        : error instanceof NoEligibleGameError
+          ? "no-eligible-game"
+          : "error";
+    recordRandomPick(outcome, progress.attempts);
+    // Filters that match nothing are the player's choice, not a fault.
+    const level = outcome === "error" ? "warn" : "info";
+    logEvent(level, "steam.random-pick-failed", {
+      outcome,
+      attempts: progress.attempts,
+      ...options,
+      error,
+    });
+    throw error;
+  }
+}
+
+/**
+ * `attempts` counts every candidate that was looked up; `source` is the pool
+ * the accepted one came from.
+ */
+type PickProgress = {
+  attempts: number;
+  source: ServeSource | null;
+};
+
+async function pickRandomSteamGame(
+  excludeIds: number[],
+  {
+    difficulty = DEFAULT_DIFFICULTY,
+    genres = [],
+    target = DEFAULT_GUESS_TARGET,
+    locale = DEFAULT_LOCALE,
+    mature = false,
+  }: RandomGameOptions,
+  progress: PickProgress,
+) {
+  const [featuredIds, allIds, ineligibleIds, { blocked, pinned }] =
+    await Promise.all([
+      fetchFeaturedAppIds(),
+      fetchAllAppIds(),
+      getKnownIneligibleAppIds(),
+      getCuratedAppIds(),
+    ]);
 
+  const tier = DIFFICULTY_TIERS[difficulty];
+  const targetRules = GUESS_TARGET_RULES[target];
+  const featuredSet = new Set(featuredIds);
+  const tierFeaturedIds = tier.useFeatured ? featuredIds : [];
+  const tierAppIds = !tier.useAppList
+    ? []
+    : tier.useFeatured
+      ? allIds
+      : allIds.filter((id) => !featuredSet.has(id));
+  const pinnedIds = Array.from(pinned).filter((id) => !blocked.has(id));
+  // Snapshot games only need the tier's review band, except that long-tail
+  // tiers still leave out whatever is on the storefront right now.
+  const snapshotIds = getCatalogGames()
+    .filter(
+      (entry) =>
+        matchesDifficulty(entry.totalReviews, difficulty) &&
+        matchesGenres(entry.genres, genres) &&
+        (mature || !entry.mature) &&
+        (tier.useFeatured || !featuredSet.has(entry.appId)),
+    )
+    .map((entry) => entry.appId);
+
+  // A pin overrides the negative cache, which only knows the base rules.
+  const ineligibleSet = new Set(ineligibleIds.filter((id) => !pinned.has(id)));
   const excludeSet = new Set<number>([
     ...excludeIds.filter((id) => Number.isFinite(id)),
     ...recentHistory,
+    ...ineligibleSet,
   ]);
 
+  // A pin vouches for the app's type and popularity, not for the round's
+  // genres, the player's mature content setting or having a value to guess.
+  const getRejection = (game: SteamGame): RejectionReason | null => {
+    const isPinned = pinned.has(game.appId);
+    const rejection = getIneligibleReason(game, {
+      allowMature: mature,
+      pinned: isPinned,
+    });
+    if (rejection) return rejection;
+    if (!isPinned && !matchesDifficulty(game.totalReviews, difficulty)) {
+      return "difficulty";
+    }
+    if (!matchesGenres(game.genres, genres)) return "genres";
+    return targetRules.getAnswer(game) === null ? "no-answer" : null;
+  };
+
   let lastError: Error | null = null;
+  let fetches = 0;
+  let failedFetches = 0;
+  let throttled: SteamThrottledError | null = null;
 
-  for (let attempt = 0; attempt < MAX_TOTAL_ATTEMPTS; attempt += 1) {
-    const selection = selectPool(featuredIds, allIds, excludeSet);
+  for (
+    let attempt = 0;
+    // A half-open breaker still lets the loop run: `checkBreaker` sends the
+    // first fetch through as its probe and turns the rest away.
+    attempt < MAX_TOTAL_ATTEMPTS && !isBreakerCoolingDown();
+    attempt += 1
+  ) {
+    const selection =
+      selectSnapshotPool(snapshotIds, pinnedIds, excludeSet, blocked) ??
+      selectPool(tierFeaturedIds, tierAppIds, excludeSet, blocked);
     if (!selection || selection.pool.length === 0) break;
-    const { pool, filtered } = selection;
+    const { pool, filtered, source } = selection;
     const appId = pool[Math.floor(Math.random() * pool.length)];
     if (typeof appId !== "number" || Number.isNaN(appId)) continue;
     if (filtered && excludeSet.has(appId)) continue;
+    if (ineligibleSet.has(appId)) continue;
 
+    progress.attempts += 1;
+    fetches += 1;
     try {
-      const game = await fetchSteamGame(appId);
-      if (isEligibleGame(game)) {
-        recentHistory.push(appId);
-        if (recentHistory.length > RECENT_HISTORY_LIMIT) {
-          recentHistory.shift();
-        }
-        excludeSet.add(appId);
+      const game = await fetchSteamGame(appId, locale);
+      const rejection = getRejection(game);
+      if (!rejection) {
+        progress.source = pinned.has(appId) ? "pinned" : source;
         return game;
       }
+      recordRejection(rejection);
+      // Only the base rules feed the negative cache; an app outside this
+      // tier's review band or genre filter, missing the value being guessed,
+      // or mature, is still fine for other rounds.
+      if (!pinned.has(appId) && !isEligibleGame(game, { allowMature: true })) {
+        await markAppIneligible(appId);
+        ineligibleSet.add(appId);
+      }
+      excludeSet.add(appId);
     } catch (error) {
+      excludeSet.add(appId);
+      if (error instanceof SteamThrottledError) {
+        throttled = error;
+        break;
+      }
+      const rejection = getFetchRejection(error);
+      recordRejection(rejection);
+      // An app without store data is delisted, which says nothing about
+      // Steam's health.
+      if (rejection === "no-store-data") continue;
+      failedFetches += 1;
       lastError =
         error instanceof Error
           ? error
@@ -326,31 +988,196 @@ export async function fetchRandomSteamGame(excludeIds: number[] = []) {
     }
   }
 
+  // While Steam is throttling us games are dealt from the cache alone, out of
+  // the indexed snapshot first and then the bundled fallback catalog.
+  if (throttled || isSteamThrottled()) {
+    const candidates = [
+      ...shuffle(pinnedIds),
+      ...shuffle(snapshotIds),
+      ...shuffle(fallbackAppIds),
+    ].filter((appId) => !excludeSet.has(appId) && !blocked.has(appId));
+    for (const appId of new Set(candidates.slice(0, MAX_THROTTLED_ATTEMPTS))) {
+      progress.attempts += 1;
+      try {
+        const game = await readCachedSteamGame(appId, locale);
+        if (!getRejection(game)) {
+          progress.source = "cache";
+          return game;
+        }
+      } catch {
+        // Not cached.
+      }
+    }
+    throw throttled ?? new SteamThrottledError(secondsUntil(breakerOpenUntil));
+  }
+
+  // With a filter on, running out of attempts most likely means it is too
+  // narrow; Steam is only to blame if it answered none of them.
+  const filtering = genres.length > 0 || target !== DEFAULT_GUESS_TARGET;
+  if (lastError && (!filtering || failedFetches === fetches)) {
+    throw lastError;
+  }
+
+  if (genres.length > 0) {
+    throw new NoEligibleGameError(
+      `No eligible ${genres.join(" / ")} games found. Try fewer genre filters.`,
+    );
+  }
+
+  if (target !== DEFAULT_GUESS_TARGET) {
+    throw new NoEligibleGameError(
+      `No eligible games with a ${translate(DEFAULT_LOCALE, `targets.${target}.label`)} found. Try another difficulty.`,
+    );
+  }
+
+  throw new NoEligibleGameError();
+}
+
+/**
+ * Picks the same eligible game for every player on a given date, whatever
+ * their locale; only the store text and the reviews scored follow `locale`.
+ */
+export async function fetchDailySteamGame(
+  date: string,
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  const game = await pickDailySteamGame(date);
+  return locale === DEFAULT_LOCALE ? game : fetchSteamGame(game.appId, locale);
+}
+
+/**
+ * Candidates are walked in a date-seeded order, starting with the bundled
+ * catalog (identical on every server) and only reaching into the featured
+ * and app list pools if none of the catalog entries qualify.
+ */
+async function pickDailySteamGame(date: string) {
+  const cached = dailyGames.get(date);
+  if (cached) return cached;
+
+  const [featuredIds, allIds, { blocked, pinned }] = await Promise.all([
+    fetchFeaturedAppIds(),
+    fetchAllAppIds(),
+    getCuratedAppIds(),
+  ]);
+
+  const tried = new Set<number>();
+  let attempts = 0;
+  let lastError: Error | null = null;
+
+  for (const [index, source] of [
+    fallbackAppIds,
+    featuredIds,
+    allIds,
+  ].entries()) {
+    const pool = Array.from(new Set(source))
+      .filter((id) => Number.isFinite(id) && !tried.has(id))
+      .sort((a, b) => a - b);
+    const random = createSeededRandom(`${date}:${index}`);
+
+    while (pool.length > 0 && attempts < MAX_DAILY_ATTEMPTS) {
+      const [appId] = pool.splice(Math.floor(random() * pool.length), 1);
+      tried.add(appId);
+      attempts += 1;
+      // Skipping here instead of pre-filtering keeps the seeded order the
+      // same on servers whose negative caches differ.
+      if (blocked.has(appId)) continue;
+      if (!pinned.has(appId) && (await isAppKnownIneligible(appId))) continue;
+
+      try {
+        const game = await fetchSteamGame(appId);
+        // The game of the day is shared, so it is never a mature one.
+        const rejection = getIneligibleReason(game, {
+          pinned: pinned.has(appId),
+        });
+        if (!rejection) {
+          dailyGames.set(date, game);
+          if (dailyGames.size > DAILY_CACHE_LIMIT) {
+            const [oldest] = dailyGames.keys();
+            dailyGames.delete(oldest);
+          }
+          return game;
+        }
+        recordRejection(rejection);
+        if (rejection !== "mature") await markAppIneligible(appId);
+      } catch (error) {
+        // Moving past a candidate Steam would not answer for would hand
+        // this server a different game of the day than the others.
+        if (error instanceof SteamThrottledError) throw error;
+        recordRejection(getFetchRejection(error));
+        lastError =
+          error instanceof Error
+            ? error
+            : new Error("Unknown Steam API error while fetching game");
+      }
+    }
+  }
+
   if (lastError) {
     throw lastError;
   }
 
-  throw new Error("No eligible Steam games available at the moment.");
+  throw new Error(`No eligible Steam game found for ${date}.`);
+}
+
+function createSeededRandom(seed: string) {
+  // FNV-1a to turn the seed into 32 bits, then mulberry32 for the stream.
+  let state = 2166136261;
+  for (let index = 0; index < seed.length; index += 1) {
+    state = Math.imul(state ^ seed.charCodeAt(index), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type PoolSelection = {
+  pool: number[];
+  filtered: boolean;
+  source: ServeSource;
+};
+
+/**
+ * The indexed snapshot holds only games that already passed the eligibility
+ * rules, so it is tried, along with the pinned apps, before the much noisier
+ * featured and app list pools.
+ */
+function selectSnapshotPool(
+  snapshotIds: number[],
+  pinnedIds: number[],
+  exclude: Set<number>,
+  blocked: Set<number>,
+): PoolSelection | null {
+  const pool = filterIds([...pinnedIds, ...snapshotIds], exclude, blocked);
+  return pool.length > 0 ? { pool, filtered: true, source: "snapshot" } : null;
 }
 
+/**
+ * Blocked apps are left out even of the unfiltered pools used once every
+ * candidate has been excluded.
+ */
 function selectPool(
   featuredIds: number[],
   allIds: number[],
   exclude: Set<number>,
-) {
-  const candidatePools: Array<{ pool: number[]; filtered: boolean }> = [];
+  blocked: Set<number>,
+): PoolSelection | null {
+  const candidatePools: PoolSelection[] = [];
 
   if (allIds.length > 0) {
-    const pool = filterIds(allIds, exclude);
+    const pool = filterIds(allIds, exclude, blocked);
     if (pool.length > 0) {
-      candidatePools.push({ pool, filtered: true });
+      candidatePools.push({ pool, filtered: true, source: "app-list" });
     }
   }
 
   if (featuredIds.length > 0) {
-    const pool = filterIds(featuredIds, exclude);
+    const pool = filterIds(featuredIds, exclude, blocked);
     if (pool.length > 0) {
-      candidatePools.push({ pool, filtered: true });
+      candidatePools.push({ pool, filtered: true, source: "featured" });
     }
   }
 
@@ -358,10 +1185,21 @@ function selectPool(
     return candidatePools[Math.floor(Math.random() * candidatePools.length)];
   }
 
-  const fallbackPools: Array<{ pool: number[]; filtered: boolean }> = [];
-  if (allIds.length > 0) fallbackPools.push({ pool: allIds, filtered: false });
-  if (featuredIds.length > 0)
-    fallbackPools.push({ pool: featuredIds, filtered: false });
+  const fallbackPools: PoolSelection[] = [];
+  const allowedAppIds = filterIds(allIds, blocked);
+  const allowedFeaturedIds = filterIds(featuredIds, blocked);
+  if (allowedAppIds.length > 0)
+    fallbackPools.push({
+      pool: allowedAppIds,
+      filtered: false,
+      source: "app-list",
+    });
+  if (allowedFeaturedIds.length > 0)
+    fallbackPools.push({
+      pool: allowedFeaturedIds,
+      filtered: false,
+      source: "featured",
+    });
 
   if (fallbackPools.length === 0) {
     return null;
@@ -370,16 +1208,48 @@ function selectPool(
   return fallbackPools[Math.floor(Math.random() * fallbackPools.length)];
 }
 
-function filterIds(source: number[], exclude: Set<number>) {
-  return source.filter((id) => !exclude.has(id));
+function shuffle<T>(items: T[]) {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(Math.random() * (index + 1));
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
 }
 
-function loadFallbackCatalog() {
-  cachedAllAppIds = fallbackAppIds;
-  cachedAllAppIdsExpiry = Date.now() + APP_LIST_CACHE_TTL_MS;
+function filterIds(source: number[], ...excluded: Set<number>[]) {
+  return source.filter((id) => !excluded.some((set) => set.has(id)));
+}
+
+/**
+ * Stands the bundled catalog in for the featured or app list pool. Steam is
+ * asked again after FALLBACK_RETRY_MS instead of a full cache lifetime.
+ */
+function switchToFallbackCatalog(
+  source: FallbackSource,
+  reason: string,
+  error?: unknown,
+) {
+  logEvent("warn", "steam.fallback-catalog", { source, reason, error });
+  recordFallbackCatalog(source, reason);
+  const expiry = Date.now() + FALLBACK_RETRY_MS;
+  if (source === "featured") {
+    cachedFeaturedIds = fallbackAppIds;
+    cachedFeaturedExpiry = expiry;
+  } else {
+    cachedAllAppIds = fallbackAppIds;
+    cachedAllAppIdsExpiry = expiry;
+  }
   return fallbackAppIds;
 }
 
+function leaveFallbackCatalog(source: FallbackSource) {
+  if (getFallbackCatalogState()[source].active) {
+    logEvent("info", "steam.fallback-catalog-cleared", { source });
+  }
+  recordFallbackCatalog(source);
+}
+
 function isGameItem(item?: FeaturedItem) {
   if (!item) return false;
   if (!item.type) return true;
@@ -387,8 +1257,45 @@ function isGameItem(item?: FeaturedItem) {
   return item.type.toLowerCase() === "game";
 }
 
-function isEligibleGame(game: SteamGame) {
-  const isBaseGame = game.type.toLowerCase() === "game";
-  const reviewCount = game.totalReviews ?? 0;
-  return isBaseGame && reviewCount >= MIN_TOTAL_REVIEWS;
+/**
+ * Behind an adults-only age gate, or flagged by Steam for adult or frequent
+ * sexual content. Violence and general mature content alone do not count.
+ */
+export function isMatureGame(game: SteamGame) {
+  return (
+    game.requiredAge >= ADULT_AGE ||
+    game.contentDescriptors.some((id) => ADULT_CONTENT_DESCRIPTORS.has(id))
+  );
+}
+
+export type EligibilityOptions = {
+  /** The player opted in to mature games. */
+  allowMature?: boolean;
+  /** Curated by an admin, so only the mature content check applies. */
+  pinned?: boolean;
+};
+
+export type IneligibleReason = "not-a-game" | "too-few-reviews" | "mature";
+
+export function getIneligibleReason(
+  game: SteamGame,
+  { allowMature = false, pinned = false }: EligibilityOptions = {},
+): IneligibleReason | null {
+  if (!pinned && game.type.toLowerCase() !== "game") return "not-a-game";
+  if (!pinned && (game.totalReviews ?? 0) < MIN_TOTAL_REVIEWS) {
+    return "too-few-reviews";
+  }
+  if (!allowMature && isMatureGame(game)) return "mature";
+  return null;
+}
+
+export function isEligibleGame(game: SteamGame, options?: EligibilityOptions) {
+  return getIneligibleReason(game, options) === null;
+}
+
+/** Apps without store data are delisted or hidden; anything else may pass. */
+function getFetchRejection(error: unknown): RejectionReason {
+  return error instanceof Error && error.message.startsWith("No store data")
+    ? "no-store-data"
+    : "fetch-failed";
 }
@@ -0,0 +1,196 @@
+import { getGuessTargetRules } from "@/lib/guess-targets";
+
+/**
+ * Time attack: one clock for the whole run and a single review-score guess
+ * per game. Each guess scores by how close it lands, and a miss takes time
+ * off the clock. The clock only runs while a card is waiting for a guess, so
+ * dealing games and checking guesses never costs the player time.
+ *
+ * Runs are scored here in the browser and kept as personal bests beside the
+ * endless stats, never inside them; the server only deals and judges.
+ */
+
+export const TIME_ATTACK_MS = 1000 * 60 * 3;
+
+/** Rounds requested ahead of the one on screen. */
+export const TIME_ATTACK_PREFETCH = 3;
+
+/** A perfect guess; every point of error costs MISS_POINTS of it. */
+const HIT_POINTS = 100;
+const MISS_POINTS = 4;
+
+/** Clock lost by a guess's distance band (see `GuessTargetRules.distance`). */
+export const MISS_PENALTY_MS_BY_BAND = [0, 5000, 10000, 15000] as const;
+
+export type TimeAttackGuess = {
+  appId: number;
+  name: string;
+  value: number;
+  actual: number;
+  points: number;
+  penaltyMs: number;
+};
+
+export type TimeAttackPhase = "ready" | "running" | "over";
+
+export type TimeAttackRun = {
+  phase: TimeAttackPhase;
+  /** Clock left when it last stopped; see `getRemainingMs` while it runs. */
+  remainingMs: number;
+  /** When the clock last started, or null while it is stopped. */
+  runningSince: number | null;
+  guesses: TimeAttackGuess[];
+  score: number;
+};
+
+export type TimeAttackBests = {
+  runs: number;
+  bestScore: number;
+  /** Most games guessed in one run. */
+  mostGames: number;
+};
+
+export type TimeAttackState = {
+  run: TimeAttackRun;
+  bests: TimeAttackBests;
+};
+
+export type TimeAttackEvent =
+  | { type: "hydrate"; bests: TimeAttackBests }
+  | { type: "start" }
+  | { type: "resume"; now: number }
+  | { type: "pause"; now: number }
+  | {
+      type: "guess";
+      appId: number;
+      name: string;
+      value: number;
+      actual: number;
+      now: number;
+    }
+  | { type: "tick"; now: number };
+
+export const initialRun: TimeAttackRun = {
+  phase: "ready",
+  remainingMs: TIME_ATTACK_MS,
+  runningSince: null,
+  guesses: [],
+  score: 0,
+};
+
+export function getDefaultBests(): TimeAttackBests {
+  return { runs: 0, bestScore: 0, mostGames: 0 };
+}
+
+export function createTimeAttackState(): TimeAttackState {
+  return { run: initialRun, bests: getDefaultBests() };
+}
+
+export function getRemainingMs(run: TimeAttackRun, now: number) {
+  if (run.runningSince === null) return run.remainingMs;
+  const elapsed = Math.max(0, now - run.runningSince);
+  return Math.max(0, run.remainingMs - elapsed);
+}
+
+export function getTimeAttackPoints(value: number, actual: number) {
+  return Math.max(
+    0,
+    Math.round(HIT_POINTS - MISS_POINTS * Math.abs(value - actual)),
+  );
+}
+
+export function getMissPenaltyMs(value: number, actual: number) {
+  const { distance } = getGuessTargetRules("score");
+  return MISS_PENALTY_MS_BY_BAND[distance(value, actual)];
+}
+
+function stopClock(run: TimeAttackRun, now: number): TimeAttackRun {
+  return { ...run, remainingMs: getRemainingMs(run, now), runningSince: null };
+}
+
+function endIfOutOfTime(run: TimeAttackRun, now: number): TimeAttackRun {
+  if (getRemainingMs(run, now) > 0) return run;
+  return { ...run, phase: "over", remainingMs: 0, runningSince: null };
+}
+
+export function reduceRun(
+  run: TimeAttackRun,
+  event: TimeAttackEvent,
+): TimeAttackRun {
+  switch (event.type) {
+    case "start":
+      return { ...initialRun, phase: "running" };
+    case "resume":
+      if (run.phase !== "running" || run.runningSince !== null) return run;
+      return { ...run, runningSince: event.now };
+    case "pause":
+      if (run.phase !== "running") return run;
+      return endIfOutOfTime(stopClock(run, event.now), event.now);
+    case "guess": {
+      if (run.phase !== "running") return run;
+      const stopped = stopClock(run, event.now);
+      const guess: TimeAttackGuess = {
+        appId: event.appId,
+        name: event.name,
+        value: event.value,
+        actual: event.actual,
+        points: getTimeAttackPoints(event.value, event.actual),
+        penaltyMs: getMissPenaltyMs(event.value, event.actual),
+      };
+      return endIfOutOfTime(
+        {
+          ...stopped,
+          remainingMs: Math.max(0, stopped.remainingMs - guess.penaltyMs),
+          guesses: [...stopped.guesses, guess],
+          score: stopped.score + guess.points,
+        },
+        event.now,
+      );
+    }
+    case "tick":
+      if (run.phase !== "running") return run;
+      return endIfOutOfTime(run, event.now);
+    default:
+      return run;
+  }
+}
+
+function recordRun(bests: TimeAttackBests, run: TimeAttackRun) {
+  return {
+    runs: bests.runs + 1,
+    bestScore: Math.max(bests.bestScore, run.score),
+    mostGames: Math.max(bests.mostGames, run.guesses.length),
+  };
+}
+
+export function reduceTimeAttack(
+  state: TimeAttackState,
+  event: TimeAttackEvent,
+): TimeAttackState {
+  if (event.type === "hydrate") return { ...state, bests: event.bests };
+
+  const run = reduceRun(state.run, event);
+  // Bests are settled exactly once, on the transition to "over".
+  const bests =
+    state.run.phase === "running" && run.phase === "over"
+      ? recordRun(state.bests, run)
+      : state.bests;
+  return { run, bests };
+}
+
+function readCount(value: unknown) {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0
+    ? value
+    : 0;
+}
+
+/** Reads stored bests field by field; anything unusable starts at zero. */
+export function parseTimeAttackBests(raw: unknown): TimeAttackBests {
+  if (typeof raw !== "object" || raw === null) return getDefaultBests();
+  const stored = raw as Record<string, unknown>;
+  return {
+    runs: readCount(stored.runs),
+    bestScore: readCount(stored.bestScore),
+    mostGames: readCount(stored.mostGames),
+  };
+}
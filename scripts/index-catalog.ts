@@ -0,0 +1,186 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import fallbackAppIds from "@/data/fallback-app-ids.json";
+import {
+  CATALOG_SNAPSHOT_PATH,
+  parseCatalogSnapshot,
+  type CatalogEntry,
+  type CatalogSnapshot,
+} from "@/lib/catalog";
+import {
+  fetchAllAppIds,
+  fetchSteamGame,
+  isEligibleGame,
+  isMatureGame,
+} from "@/lib/steam";
+
+/**
+ * Walks a list of app IDs, applies the same eligibility rules as the random
+ * picker and writes the survivors to data/catalog-snapshot.json.
+ *
+ *   npm run index:catalog -- [--source ids.json] [--limit 500]
+ *                            [--refresh-days 30] [--delay 1500]
+ *
+ * Progress is saved as it goes, so an interrupted run resumes where it
+ * stopped. Re-running later only re-checks apps last seen more than
+ * --refresh-days ago.
+ */
+
+type ProgressFile = {
+  checked: Record<string, { eligible: boolean; checkedAt: string }>;
+};
+
+type Options = {
+  source: string | null;
+  limit: number;
+  refreshDays: number;
+  delayMs: number;
+};
+
+const PROGRESS_PATH = "data/.catalog-index-progress.json";
+const SAVE_EVERY = 25;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function parseOptions(argv: string[]): Options {
+  const options: Options = {
+    source: null,
+    limit: 500,
+    refreshDays: 30,
+    delayMs: 1500,
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const flag = argv[index];
+    const value = argv[index + 1];
+    if (flag === "--source") options.source = value;
+    else if (flag === "--limit") options.limit = Number(value);
+    else if (flag === "--refresh-days") options.refreshDays = Number(value);
+    else if (flag === "--delay") options.delayMs = Number(value);
+    else throw new Error(`Unknown option ${flag}`);
+    index += 1;
+  }
+
+  return options;
+}
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path.resolve(file), "utf8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+async function writeJson(file: string, value: unknown) {
+  const target = path.resolve(file);
+  await writeFile(`${target}.tmp`, `${JSON.stringify(value, null, 2)}\n`);
+  await rename(`${target}.tmp`, target);
+}
+
+async function loadSourceIds(source: string | null) {
+  if (source) {
+    return readJson<number[]>(source, []);
+  }
+  const ids = await fetchAllAppIds();
+  return ids.length > 0 ? ids : fallbackAppIds;
+}
+
+function isStale(checkedAt: string | undefined, refreshDays: number) {
+  if (!checkedAt) return true;
+  return Date.now() - Date.parse(checkedAt) > refreshDays * DAY_MS;
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+  const sourceIds = Array.from(new Set(await loadSourceIds(options.source)));
+  const progress = await readJson<ProgressFile>(PROGRESS_PATH, {
+    checked: {},
+  });
+  const snapshot = parseCatalogSnapshot(
+    await readJson<unknown>(CATALOG_SNAPSHOT_PATH, null),
+  );
+  const games = new Map<number, CatalogEntry>(
+    snapshot.games.map((entry) => [entry.appId, entry]),
+  );
+
+  const queue = sourceIds
+    .filter((appId) =>
+      isStale(progress.checked[appId]?.checkedAt, options.refreshDays),
+    )
+    .slice(0, options.limit);
+
+  console.log(
+    `Indexing ${queue.length} of ${sourceIds.length} apps (${games.size} already in the snapshot).`,
+  );
+
+  const save = async () => {
+    await writeJson(PROGRESS_PATH, progress);
+    await writeJson(CATALOG_SNAPSHOT_PATH, {
+      generatedAt: new Date().toISOString(),
+      games: Array.from(games.values()).sort((a, b) => a.appId - b.appId),
+    } satisfies CatalogSnapshot);
+  };
+
+  let interrupted = false;
+  process.on("SIGINT", () => {
+    interrupted = true;
+  });
+
+  for (const [index, appId] of queue.entries()) {
+    if (interrupted) break;
+    const checkedAt = new Date().toISOString();
+
+    try {
+      const game = await fetchSteamGame(appId);
+      // Mature games are indexed and flagged; rounds leave them out unless
+      // the player opted in.
+      const eligible = isEligibleGame(game, { allowMature: true });
+      progress.checked[appId] = { eligible, checkedAt };
+
+      if (eligible) {
+        games.set(appId, {
+          appId,
+          name: game.name,
+          type: game.type,
+          genres: game.genres,
+          totalReviews: game.totalReviews ?? 0,
+          positive: game.positive ?? 0,
+          negative: game.negative ?? 0,
+          mature: isMatureGame(game),
+          fetchedAt: checkedAt,
+        });
+      } else {
+        games.delete(appId);
+      }
+    } catch (error) {
+      // Apps without store data are delisted or hidden; anything else is
+      // left unmarked so the next run tries again.
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.startsWith("No store data")) {
+        progress.checked[appId] = { eligible: false, checkedAt };
+        games.delete(appId);
+      } else {
+        console.warn(`App ${appId}: ${message}`);
+      }
+    }
+
+    if ((index + 1) % SAVE_EVERY === 0) {
+      await save();
+      console.log(`  ${index + 1}/${queue.length} checked`);
+    }
+    if (options.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+    }
+  }
+
+  await save();
+  console.log(
+    `${interrupted ? "Stopped" : "Done"}: ${games.size} eligible games in ${CATALOG_SNAPSHOT_PATH}.`,
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
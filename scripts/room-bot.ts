@@ -0,0 +1,142 @@
+import type { GuessTarget } from "@/lib/guess-targets";
+import type { RoomCredentials, RoomView } from "@/lib/rooms";
+
+/**
+ * A local opponent for head-to-head rooms. It joins over the same HTTP API
+ * and event stream as the browser and plays by halving the range after each
+ * higher/lower answer.
+ *
+ *   npm run rooms:bot -- <ROOM CODE> [--name Bot] [--delay 2000]
+ *
+ * Point it at another server with BASE_URL (http://localhost:3000 by default).
+ */
+
+type Options = {
+  code: string;
+  name: string;
+  delayMs: number;
+};
+
+/** Search ranges in each target's guess units (price in cents). */
+const SEARCH_RANGES: Record<GuessTarget, [number, number]> = {
+  score: [0, 100],
+  year: [1990, 2030],
+  price: [0, 7000],
+  metacritic: [20, 100],
+  reviews: [100, 200_000],
+};
+
+const baseUrl = process.env.BASE_URL ?? "http://localhost:3000";
+
+function parseOptions(argv: string[]): Options {
+  const [code, ...rest] = argv;
+  if (!code) throw new Error("Usage: npm run rooms:bot -- <ROOM CODE>");
+  const options: Options = { code, name: "Bot", delayMs: 2000 };
+
+  for (let index = 0; index < rest.length; index += 1) {
+    const flag = rest[index];
+    const value = rest[index + 1];
+    if (flag === "--name") options.name = value;
+    else if (flag === "--delay") options.delayMs = Number(value);
+    else throw new Error(`Unknown option ${flag}`);
+    index += 1;
+  }
+
+  return options;
+}
+
+async function post<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const json = (await response.json()) as T & { error?: string };
+  if (!response.ok) throw new Error(json.error ?? `HTTP ${response.status}`);
+  return json;
+}
+
+function nextGuess(view: RoomView, target: GuessTarget) {
+  const me = view.players.find((player) => player.id === view.you);
+  let [low, high] = SEARCH_RANGES[target];
+  for (const guess of me?.guesses ?? []) {
+    if (guess.outcome === "higher") low = Math.max(low, guess.value + 1);
+    if (guess.outcome === "lower") high = Math.min(high, guess.value - 1);
+  }
+  return Math.round((low + high) / 2);
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+  const credentials = await post<RoomCredentials>(
+    `/api/rooms/${encodeURIComponent(options.code)}/join`,
+    { name: options.name },
+  );
+  console.log(`${options.name} joined room ${credentials.code}`);
+
+  const params = new URLSearchParams({
+    playerId: credentials.playerId,
+    playerToken: credentials.playerToken,
+  });
+  const response = await fetch(
+    `${baseUrl}/api/rooms/${credentials.code}/events?${params.toString()}`,
+  );
+  if (!response.ok || !response.body) {
+    throw new Error(`Event stream refused (HTTP ${response.status})`);
+  }
+
+  let buffer = "";
+  let latest: RoomView | null = null;
+  let pending = false;
+  const decoder = new TextDecoder();
+
+  // The view that answers a guess can arrive before the POST returns, so the
+  // bot looks at the latest view again once each guess settles.
+  const play = () => {
+    const view = latest;
+    const me = view?.players.find((player) => player.id === view.you);
+    if (!view || view.phase !== "playing" || me?.phase !== "playing") return;
+    if (pending) return;
+
+    pending = true;
+    const guess = nextGuess(view, view.options.target);
+    setTimeout(() => {
+      post<{ outcome: string }>(`/api/rooms/${credentials.code}/guess`, {
+        playerId: credentials.playerId,
+        playerToken: credentials.playerToken,
+        guess,
+      })
+        .then(({ outcome }) => console.log(`Guessed ${guess}: ${outcome}`))
+        .catch((error: Error) => console.warn(error.message))
+        .finally(() => {
+          pending = false;
+          play();
+        });
+    }, options.delayMs);
+  };
+
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const event of events) {
+      if (!event.startsWith("data: ")) continue;
+      latest = JSON.parse(event.slice("data: ".length)) as RoomView;
+      if (latest.phase === "finished") {
+        console.log("Room finished.");
+        await reader.cancel();
+        return;
+      }
+      play();
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,25 @@
+import { createServer } from "node:http";
+
+import { createFixtureTransport } from "@/lib/steam-client";
+
+/**
+ * A stand-in for store.steampowered.com and api.steampowered.com that serves
+ * the recorded payloads from data/steam-fixtures.json. Point the app at it
+ * with STEAM_STORE_BASE_URL and STEAM_API_BASE_URL.
+ */
+const port = Number(process.env.PORT ?? 4010);
+const transport = createFixtureTransport();
+
+const server = createServer(async (request, response) => {
+  const upstream = await transport(
+    new URL(request.url ?? "/", `http://localhost:${port}`).toString(),
+  );
+  response.writeHead(upstream.status, {
+    "Content-Type": "application/json",
+  });
+  response.end(await upstream.text());
+});
+
+server.listen(port, () => {
+  console.log(`Steam fixture server listening on http://localhost:${port}`);
+});